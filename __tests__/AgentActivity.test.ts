@@ -0,0 +1,82 @@
+/**
+ * Agent activity: folding agent events into the steps of a run
+ */
+
+import { progressCue, reduceAgentEvent } from '../src/services/AgentActivity';
+import { ACTIVITY_CONFIG } from '../src/constants';
+import type { AgentEventPayload, RunActivity } from '../src/types';
+
+const lifecycle = (phase: string, runId = 'run-1'): AgentEventPayload => ({
+  runId,
+  stream: 'lifecycle',
+  ts: 1000,
+  data: { phase },
+});
+
+const tool = (phase: string, name: string, toolCallId?: string, extra: object = {}): AgentEventPayload => ({
+  runId: 'run-1',
+  stream: 'tool',
+  ts: 2000,
+  data: { phase, name, toolCallId, ...extra },
+});
+
+// Fold events from nothing, as "label: status" per step
+const stepsAfter = (events: AgentEventPayload[]): string[] | null => {
+  const activity = events.reduce<RunActivity | null>(reduceAgentEvent, null);
+  return activity && activity.steps.map((step) => `${step.label}: ${step.status}`);
+};
+
+describe('reduceAgentEvent', () => {
+  it.each<[string, AgentEventPayload[], string[] | null]>([
+    ['a run starts without steps', [lifecycle('start')], []],
+    ['a tool call starts', [lifecycle('start'), tool('start', 'web_search', 't1')], ['Searching the web: running']],
+    [
+      'a tool call finishes',
+      [tool('start', 'web_search', 't1'), tool('result', 'web_search', 't1')],
+      ['Searching the web: done'],
+    ],
+    [
+      'a tool call fails',
+      [tool('start', 'exec', 't1'), tool('result', 'exec', 't1', { isError: true })],
+      ['Running a command: error'],
+    ],
+    [
+      'a tool call fails with an error message',
+      [tool('start', 'read', 't1'), tool('result', 'read', 't1', { error: 'ENOENT' })],
+      ['Reading a file: error'],
+    ],
+    ['an unknown tool', [tool('start', 'calendar', 't1')], ['Running tool calendar: running']],
+    ['a repeated start', [tool('start', 'browser', 't1'), tool('start', 'browser', 't1')], ['Using the browser: running']],
+    ['a result without a start', [lifecycle('start'), tool('result', 'browser', 't1')], []],
+    [
+      'calls without ids, told apart by tool',
+      [tool('start', 'read'), tool('start', 'write'), tool('result', 'read')],
+      ['Reading a file: done', 'Writing a file: running'],
+    ],
+    ['assistant text', [lifecycle('start'), { runId: 'run-1', stream: 'assistant', data: {} }], []],
+    ['the run ends', [tool('start', 'exec', 't1'), lifecycle('end')], null],
+    ['the run fails', [tool('start', 'exec', 't1'), lifecycle('error')], null],
+    ['another run takes over', [tool('start', 'exec', 't1'), lifecycle('start', 'run-2')], []],
+  ])('%s', (_, events, steps) => {
+    expect(stepsAfter(events)).toEqual(steps);
+  });
+
+  it(`keeps the last ${ACTIVITY_CONFIG.maxSteps} steps`, () => {
+    const events = Array.from({ length: ACTIVITY_CONFIG.maxSteps + 2 }, (_, i) => tool('start', `tool${i}`, `t${i}`));
+
+    const steps = stepsAfter(events);
+
+    expect(steps).toHaveLength(ACTIVITY_CONFIG.maxSteps);
+    expect(steps?.[0]).toBe('Running tool tool2: running');
+  });
+});
+
+describe('progressCue', () => {
+  it.each<[string, AgentEventPayload[], string]>([
+    ['no activity', [], 'Still working on it.'],
+    ['nothing running', [tool('start', 'read', 't1'), tool('result', 'read', 't1')], 'Still working on it.'],
+    ['the latest running step', [tool('start', 'read', 't1'), tool('start', 'web_fetch', 't2')], 'Still working. Reading a web page.'],
+  ])('%s', (_, events, cue) => {
+    expect(progressCue(events.reduce<RunActivity | null>(reduceAgentEvent, null))).toBe(cue);
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Exec approvals: expiry of the card and spoken answers
+ */
+
+import { APPROVAL_GRAMMAR, parseApprovalAnswer, toPendingApproval } from '../src/services/Approvals';
+import { APPROVAL_CONFIG } from '../src/constants';
+
+const NOW = 1_700_000_000_000;
+
+describe('toPendingApproval', () => {
+  it.each<[string, number | undefined, number]>([
+    ['without a gateway expiry, our timeout', undefined, NOW + APPROVAL_CONFIG.timeoutMs],
+    ['a gateway expiry before our timeout', NOW + 15000, NOW + 15000],
+    ['our timeout before a later gateway expiry', NOW + APPROVAL_CONFIG.timeoutMs * 2, NOW + APPROVAL_CONFIG.timeoutMs],
+    ['an expiry already passed', NOW - 1000, NOW - 1000],
+  ])('expires at %s', (_, expiresAtMs, expiresAt) => {
+    const approval = toPendingApproval(
+      { id: 'approval-1', request: { command: 'rm -rf build', host: 'gateway' }, expiresAtMs },
+      NOW,
+    );
+
+    expect(approval).toEqual({
+      id: 'approval-1',
+      command: 'rm -rf build',
+      cwd: undefined,
+      host: 'gateway',
+      agentId: undefined,
+      receivedAt: NOW,
+      expiresAt,
+    });
+  });
+});
+
+describe('parseApprovalAnswer', () => {
+  it.each([
+    ['yes', 'allow-once'],
+    ['Approve', 'allow-once'],
+    ['allow', 'allow-once'],
+    ['no', 'deny'],
+    ['DENY', 'deny'],
+    ['[unk] yes', 'allow-once'],
+    ['no yes', 'deny'], // First answer wins
+    ['[unk]', null],
+    ['', null],
+    ['maybe later', null],
+    ['nope', null],
+  ])('%s', (text, decision) => {
+    expect(parseApprovalAnswer(text)).toBe(decision);
+  });
+
+  it('understands every word of the grammar', () => {
+    expect(APPROVAL_GRAMMAR.every((word) => parseApprovalAnswer(word) !== null)).toBe(true);
+  });
+});
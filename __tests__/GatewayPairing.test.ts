@@ -0,0 +1,140 @@
+/**
+ * Control UI URL parsing and the trial handshake for pairing
+ */
+
+import { PairingError, parseControlUiUrl, probeGateway } from '../src/services/GatewayPairing';
+import type { PairingErrorCode } from '../src/services/GatewayPairing';
+
+jest.mock('rn-qr-generator', () => ({ detect: jest.fn() }));
+
+const errorCodeOf = (input: string): PairingErrorCode | null => {
+  try {
+    parseControlUiUrl(input);
+    return null;
+  } catch (error) {
+    expect(error).toBeInstanceOf(PairingError);
+    return (error as PairingError).code;
+  }
+};
+
+/**
+ * Stands in for React Native's WebSocket, answers the connect request
+ * with `answer`
+ */
+class FakeSocket {
+  static answer: (id: string) => object = () => ({});
+
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onclose: ((event: { code: number; reason: string }) => void) | null = null;
+  onerror: ((event: unknown) => void) | null = null;
+
+  constructor(public url: string) {
+    setTimeout(() => this.onopen?.(), 0);
+  }
+
+  send(raw: string): void {
+    const { id } = JSON.parse(raw);
+    setTimeout(() => this.onmessage?.({ data: JSON.stringify(FakeSocket.answer(id)) }), 0);
+  }
+
+  close(): void {}
+}
+
+const PAIRING = { gatewayUrl: 'ws://gateway:18789', token: 'abc123' };
+
+const probeErrorCodeOf = async (answer: (id: string) => object): Promise<PairingErrorCode | null> => {
+  FakeSocket.answer = answer;
+  try {
+    await probeGateway(PAIRING, 1000);
+    return null;
+  } catch (error) {
+    expect(error).toBeInstanceOf(PairingError);
+    return (error as PairingError).code;
+  }
+};
+
+describe('parseControlUiUrl', () => {
+  it('turns http into ws and https into wss', () => {
+    expect(parseControlUiUrl('http://192.168.1.100:18789/?token=abc123')).toEqual({
+      gatewayUrl: 'ws://192.168.1.100:18789',
+      token: 'abc123',
+      host: '192.168.1.100',
+      port: 18789,
+      secure: false,
+    });
+    expect(parseControlUiUrl('https://claw.example.com/?token=abc123')).toEqual(
+      expect.objectContaining({ gatewayUrl: 'wss://claw.example.com', secure: true }),
+    );
+    expect(parseControlUiUrl('wss://claw.example.com?token=abc123').gatewayUrl).toBe('wss://claw.example.com');
+  });
+
+  it('keeps the default or explicit port', () => {
+    const info = parseControlUiUrl('https://claw.example.com/?token=abc123');
+    expect(info.port).toBeUndefined();
+    expect(parseControlUiUrl('https://claw.example.com:8443/?token=abc123')).toEqual(
+      expect.objectContaining({ gatewayUrl: 'wss://claw.example.com:8443', port: 8443 }),
+    );
+  });
+
+  it('reads IPv6 hosts', () => {
+    expect(parseControlUiUrl('http://[fe80::1]:18789/?token=abc123')).toEqual(
+      expect.objectContaining({ gatewayUrl: 'ws://[fe80::1]:18789', host: '[fe80::1]', port: 18789 }),
+    );
+  });
+
+  it('keeps the path prefix of a reverse proxy', () => {
+    expect(parseControlUiUrl('https://host/openclaw/?token=abc123').gatewayUrl).toBe('wss://host/openclaw');
+    expect(parseControlUiUrl('https://host/openclaw/chat?token=abc123').gatewayUrl).toBe('wss://host/openclaw');
+    expect(parseControlUiUrl('http://host:18789/chat?token=abc123').gatewayUrl).toBe('ws://host:18789');
+  });
+
+  it('finds the token in the fragment', () => {
+    expect(parseControlUiUrl('http://host:18789/#token=abc%2F123').token).toBe('abc/123');
+  });
+
+  it('reads a URL without scheme as http', () => {
+    expect(parseControlUiUrl('  192.168.1.100:18789/?token=abc123 ')).toEqual(
+      expect.objectContaining({ gatewayUrl: 'ws://192.168.1.100:18789', secure: false }),
+    );
+  });
+
+  it('rejects URLs it cannot use', () => {
+    expect(errorCodeOf('http://host:18789/')).toBe('missing_token');
+    expect(errorCodeOf('http://host:18789/?token=')).toBe('missing_token');
+    expect(errorCodeOf('http://host:99999/?token=abc123')).toBe('invalid_url');
+    expect(errorCodeOf('http://host:port/?token=abc123')).toBe('invalid_url');
+    expect(errorCodeOf('')).toBe('invalid_url');
+    expect(errorCodeOf('ftp://host/?token=abc123')).toBe('unsupported_scheme');
+  });
+
+  it('tells input problems from gateway problems', () => {
+    expect(new PairingError('missing_token', '').isParseError).toBe(true);
+    expect(new PairingError('auth_failed', '').isParseError).toBe(false);
+  });
+});
+
+describe('probeGateway', () => {
+  beforeEach(() => {
+    (globalThis as any).WebSocket = FakeSocket;
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('resolves with the hello of the gateway', async () => {
+    FakeSocket.answer = (id) => ({ type: 'res', id, ok: true, payload: { protocol: 3 } });
+    await expect(probeGateway(PAIRING, 1000)).resolves.toEqual({ protocol: 3 });
+  });
+
+  it('tells a refused token from a handshake it cannot read', async () => {
+    expect(
+      await probeErrorCodeOf((id) => ({ type: 'res', id, ok: false, error: { code: 'UNAUTHORIZED', message: 'nope' } })),
+    ).toBe('auth_failed');
+    expect(await probeErrorCodeOf((id) => ({ type: 'res', id, ok: true, payload: 'nope' }))).toBe('protocol');
+    expect(new PairingError('protocol', '').isParseError).toBe(false);
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Outbox: persistence, delivery order and replays with the same
+ * idempotency key
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { OutboxService } from '../src/services/OutboxService';
+import { GatewayError } from '../src/services/GatewayProtocol';
+import { STORAGE_KEYS } from '../src/constants';
+import type { OutboxItem } from '../src/types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+jest.mock('react-native-fs', () => ({ DocumentDirectoryPath: '/tmp' }));
+
+const GATEWAY_URL = 'ws://gateway:18789';
+
+const enqueue = (outbox: OutboxService, id: string, gatewayUrl = GATEWAY_URL) =>
+  outbox.enqueue({ id, content: `message ${id}`, sessionKey: 'agent:main:main', gatewayUrl, timestamp: 1 });
+
+// Records what was sent, failing the sends `fail` picks
+const recorder = (fail: (item: OutboxItem, attempt: number) => Error | null = () => null) => {
+  const sent: OutboxItem[] = [];
+  const send = async (item: OutboxItem) => {
+    sent.push({ ...item });
+    const error = fail(item, sent.length);
+    if (error) {
+      throw error;
+    }
+  };
+  return { sent, send };
+};
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('OutboxService', () => {
+  it('keeps queued messages across restarts', async () => {
+    const outbox = new OutboxService();
+    const first = await enqueue(outbox, 'a');
+    await enqueue(outbox, 'b');
+
+    const restarted = new OutboxService();
+    const items = await restarted.load();
+
+    expect(items.map((item) => item.id)).toEqual(['a', 'b']);
+    expect(items[0].idempotencyKey).toBe(first.idempotencyKey);
+
+    await restarted.remove('a');
+    const stored = JSON.parse((await AsyncStorage.getItem(STORAGE_KEYS.outbox)) || '[]');
+    expect(stored.map((item: OutboxItem) => item.id)).toEqual(['b']);
+  });
+
+  it('sends in order and leaves messages for other gateways queued', async () => {
+    const outbox = new OutboxService();
+    await enqueue(outbox, 'a');
+    await enqueue(outbox, 'other', 'ws://elsewhere:18789');
+    await enqueue(outbox, 'b');
+    const { sent, send } = recorder();
+
+    await outbox.flush(send, (item) => item.gatewayUrl === GATEWAY_URL);
+
+    expect(sent.map((item) => item.id)).toEqual(['a', 'b']);
+    expect(outbox.getItems().map((item) => item.id)).toEqual(['other']);
+  });
+
+  it('stops at a dropped connection and replays with the same idempotency key', async () => {
+    const outbox = new OutboxService();
+    await enqueue(outbox, 'a');
+    await enqueue(outbox, 'b');
+    const failed: string[] = [];
+    outbox.onFailed((item) => failed.push(item.id));
+    const { sent, send } = recorder((_, attempt) => (attempt === 1 ? new Error('Connection closed') : null));
+
+    await outbox.flush(send);
+
+    // Nothing overtakes the message that didn't make it
+    expect(sent.map((item) => item.id)).toEqual(['a']);
+    expect(failed).toEqual(['a']);
+    expect(outbox.getItems().map((item) => item.id)).toEqual(['a', 'b']);
+
+    // Replayed after a restart, e.g. once the gateway is back
+    await new OutboxService().flush(send);
+
+    expect(sent.map((item) => item.id)).toEqual(['a', 'a', 'b']);
+    expect(sent[1].idempotencyKey).toBe(sent[0].idempotencyKey);
+    expect(sent[1].attempts).toBe(2);
+  });
+
+  it('sets a refused message aside and sends the rest', async () => {
+    const outbox = new OutboxService();
+    await enqueue(outbox, 'a');
+    await enqueue(outbox, 'bad');
+    await enqueue(outbox, 'c');
+    const failed: string[] = [];
+    outbox.onFailed((item, error) => failed.push(`${item.id}: ${error}`));
+    const { sent, send } = recorder((item) =>
+      item.id === 'bad' && item.attempts === 1 ? new GatewayError('invalid attachment', 'INVALID_REQUEST') : null,
+    );
+
+    await outbox.flush(send);
+
+    expect(sent.map((item) => item.id)).toEqual(['a', 'bad', 'c']);
+    expect(failed).toEqual(['bad: invalid attachment']);
+    expect(outbox.getItems()).toEqual([
+      expect.objectContaining({ id: 'bad', rejected: true, lastError: 'invalid attachment' }),
+    ]);
+
+    // Not sent again until the user retries it
+    await outbox.flush(send);
+    expect(sent).toHaveLength(3);
+
+    await outbox.retry('bad');
+    await outbox.flush(send);
+    expect(sent.map((item) => item.id)).toEqual(['a', 'bad', 'c', 'bad']);
+    expect(outbox.getItems()).toEqual([]);
+  });
+});
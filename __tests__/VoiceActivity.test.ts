@@ -0,0 +1,103 @@
+/**
+ * Voice activity detection on the PCM fixtures (fixtures/vad), metered in
+ * 100 ms frames like a recording.
+ */
+
+import { readWav, splitFrames } from './pcm-fixtures';
+import {
+  calibrateSpeechLevel,
+  initialVoiceActivity,
+  pcmLevel,
+  updateVoiceActivity,
+} from '../src/services/VoiceActivity';
+import type { VoiceActivityEvent } from '../src/services/VoiceActivity';
+import { RECORDING_CONFIG } from '../src/constants';
+
+const FRAME_MS = 100;
+
+const levelsOf = (name: string): number[] =>
+  splitFrames(readWav(name), FRAME_MS).map((frame) => pcmLevel(frame));
+
+/**
+ * Run the detection over a fixture, with the time each event came up
+ */
+const detect = (name: string, speechLevelDb = RECORDING_CONFIG.defaultSpeechLevelDb) => {
+  let state = initialVoiceActivity();
+  const events: { event: VoiceActivityEvent; atMs: number }[] = [];
+  levelsOf(name).forEach((db, index) => {
+    const update = updateVoiceActivity(state, { db, durationMs: FRAME_MS }, { speechLevelDb });
+    state = update.state;
+    if (update.event) {
+      events.push({ event: update.event, atMs: (index + 1) * FRAME_MS });
+    }
+  });
+  return events;
+};
+
+const atOf = (events: ReturnType<typeof detect>, event: VoiceActivityEvent) =>
+  events.find((item) => item.event === event)?.atMs;
+
+describe('pcmLevel', () => {
+  it('meters the peak in dBFS', () => {
+    expect(pcmLevel([0, 32767, -100])).toBeCloseTo(0);
+    expect(pcmLevel([3277, -1000])).toBeCloseTo(-20, 0);
+    expect(pcmLevel(new Int16Array(160))).toBe(RECORDING_CONFIG.silenceLevelDb);
+  });
+});
+
+describe('voice activity detection', () => {
+  it('ends a command after the silence that follows it', () => {
+    // 0.5 s quiet, 1.5 s speech, 2 s quiet
+    const events = detect('command.wav');
+
+    expect(events.map((item) => item.event)).toEqual(['speech', 'end-of-speech']);
+    expect(atOf(events, 'speech')).toBeLessThanOrEqual(1000);
+    expect(atOf(events, 'end-of-speech')).toBeGreaterThanOrEqual(2000 + RECORDING_CONFIG.silenceThreshold);
+    expect(atOf(events, 'end-of-speech')).toBeLessThanOrEqual(2000 + RECORDING_CONFIG.silenceThreshold + 300);
+  });
+
+  it('keeps recording through a pause mid-sentence', () => {
+    // Speech until 1.3 s, 0.8 s pause, speech until 3.1 s
+    const events = detect('pause-mid-sentence.wav');
+
+    expect(events.map((item) => item.event)).toEqual(['speech', 'end-of-speech']);
+    expect(atOf(events, 'end-of-speech')).toBeGreaterThanOrEqual(3100 + RECORDING_CONFIG.silenceThreshold);
+  });
+
+  it('waits for speech in a quiet room', () => {
+    expect(detect('quiet-room.wav')).toEqual([]);
+  });
+
+  it('does not take a click for speech', () => {
+    expect(detect('click.wav')).toEqual([]);
+  });
+
+  it('never hears the end in street noise until calibrated', () => {
+    // 1 s street noise, 1.5 s speech, 2 s street noise
+    expect(detect('noisy-street.wav').map((item) => item.event)).toEqual(['speech']);
+
+    // Calibrated on the noise before the speech
+    const speechLevelDb = calibrateSpeechLevel(levelsOf('noisy-street.wav').slice(0, 10));
+    const events = detect('noisy-street.wav', speechLevelDb);
+
+    expect(events.map((item) => item.event)).toEqual(['speech', 'end-of-speech']);
+    expect(atOf(events, 'speech')).toBeGreaterThan(1000);
+    expect(atOf(events, 'end-of-speech')).toBeGreaterThanOrEqual(2500 + RECORDING_CONFIG.silenceThreshold);
+  });
+});
+
+describe('calibrateSpeechLevel', () => {
+  it('puts the speech level a margin above the ambient noise', () => {
+    const ambient = levelsOf('quiet-room.wav');
+    const loudest = Math.max(...ambient);
+
+    expect(calibrateSpeechLevel(ambient)).toBeGreaterThan(loudest);
+    expect(calibrateSpeechLevel(ambient)).toBeLessThanOrEqual(loudest + RECORDING_CONFIG.calibrationMarginDb + 1);
+  });
+
+  it('stays within sensible levels', () => {
+    expect(calibrateSpeechLevel([])).toBe(RECORDING_CONFIG.defaultSpeechLevelDb);
+    expect(calibrateSpeechLevel([RECORDING_CONFIG.silenceLevelDb])).toBe(RECORDING_CONFIG.minSpeechLevelDb);
+    expect(calibrateSpeechLevel([-3, -2])).toBe(RECORDING_CONFIG.maxSpeechLevelDb);
+  });
+});
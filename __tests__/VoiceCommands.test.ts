@@ -0,0 +1,57 @@
+/**
+ * Voice commands: abort and profile switch phrases, wake word stripping
+ * and spoken profile names
+ */
+
+import { matchProfileName, parseVoiceCommand, stripWakeWord } from '../src/services/VoiceCommands';
+
+describe('parseVoiceCommand', () => {
+  it.each([
+    ['Stop', { type: 'abort' }],
+    ['stop it.', { type: 'abort' }],
+    ['Please cancel the reply', { type: 'abort' }],
+    ['stop talking please!', { type: 'abort' }],
+    ['Stopp', { type: 'abort' }],
+    ['bitte abbrechen', { type: 'abort' }],
+    ['Halt!', { type: 'abort' }],
+    ['Switch to lab', { type: 'switchProfile', name: 'lab' }],
+    ['please change over to the home server profile', { type: 'switchProfile', name: 'home server' }],
+    ['Switch to profile Lab gateway, please', { type: 'switchProfile', name: 'lab' }],
+    ['Wechsle zu Labor', { type: 'switchProfile', name: 'labor' }],
+    ['schalte auf Profil Büro bitte', { type: 'switchProfile', name: 'büro' }],
+    ['stop the music', null],
+    ['how do I cancel a subscription', null],
+    ['switch', null],
+  ])('%s', (text, command) => {
+    expect(parseVoiceCommand(text)).toEqual(command);
+  });
+});
+
+describe('stripWakeWord', () => {
+  const WAKE_WORDS = ['computer', 'hey claw'];
+
+  it.each([
+    ["Computer, what's the time", "what's the time"],
+    ['computer', ''],
+    ['hey claw what is up', 'what is up'],
+    ['Hey, claw. Turn on the lights', 'Turn on the lights'],
+    ['computers are great', 'computers are great'],
+    ['what does the computer say', 'what does the computer say'],
+  ])('%s', (text, stripped) => {
+    expect(stripWakeWord(text, WAKE_WORDS)).toBe(stripped);
+  });
+});
+
+describe('matchProfileName', () => {
+  const PROFILES = [{ name: 'Laboratory' }, { name: 'Lab' }, { name: 'Home Server' }];
+
+  it.each([
+    ['lab', 'Lab'], // Exact name before a prefix
+    ['Labo', 'Laboratory'],
+    ['home', 'Home Server'],
+    ['home server.', 'Home Server'],
+    ['office', null],
+  ])('%s', (spoken, name) => {
+    expect(matchProfileName(spoken, PROFILES)?.name ?? null).toBe(name);
+  });
+});
@@ -0,0 +1,218 @@
+/**
+ * Wake word -> STT handoff: a fake microphone numbers every audio frame, so
+ * the test can tell which frames each recognizer heard and which were lost.
+ */
+
+import { VoskEngine } from '../src/services/VoskEngine';
+import type { VoskBackend } from '../src/services/VoskEngine';
+import { WakeWordService } from '../src/services/WakeWordService';
+import { diagnosticsService } from '../src/services/DiagnosticsService';
+
+// The fake microphone stands in for it, the native module isn't there
+jest.mock('react-native-vosk', () => ({ __esModule: true, default: jest.fn() }));
+
+const FRAME_MS = 200;
+const WAKE_FRAME = 5; // "computer" is heard in this frame
+
+type Handler = (data: string) => void;
+
+/**
+ * Records a frame per tick() and feeds it to the running recognizer, like
+ * the patched native module. Without `continuous` there is no
+ * switchRecognizer() and starting again takes `startFrames` frames.
+ */
+class FakeMicrophone implements VoskBackend {
+  now = 0;
+  dropped: number[] = []; // Recorded by nobody
+  switchRecognizer?: VoskBackend['switchRecognizer'];
+  startFrames = 0;
+
+  private frame = 0;
+  private recording = false;
+  private starting: { framesLeft: number; resolve: () => void } | null = null;
+  private grammar: string[] | undefined;
+  private history: number[] = [];
+  private pendingSwitch: {
+    grammar?: string[];
+    replayMs: number;
+    resolve: (result: { replayedMs: number; droppedMs: number }) => void;
+  } | null = null;
+  private handlers: Record<'result' | 'partial' | 'final', Handler[]> = {
+    result: [],
+    partial: [],
+    final: [],
+  };
+
+  constructor(continuous: boolean) {
+    if (continuous) {
+      this.switchRecognizer = (options) =>
+        new Promise((resolve) => {
+          this.pendingSwitch = { ...options, resolve };
+        });
+    }
+  }
+
+  loadModel = async () => {};
+
+  start = (options?: { grammar?: string[] }) => {
+    this.grammar = options?.grammar;
+    if (this.startFrames === 0) {
+      this.recording = true;
+      return Promise.resolve();
+    }
+    return new Promise<void>((resolve) => {
+      this.starting = { framesLeft: this.startFrames, resolve };
+    });
+  };
+
+  stop = () => {
+    this.recording = false;
+  };
+
+  unload = () => {};
+
+  onResult = (handler: Handler) => this.handlers.result.push(handler);
+  onPartialResult = (handler: Handler) => this.handlers.partial.push(handler);
+  onFinalResult = (handler: Handler) => this.handlers.final.push(handler);
+  onError = () => {};
+
+  tick(): void {
+    this.now += FRAME_MS;
+    const frame = ++this.frame;
+
+    if (this.starting && --this.starting.framesLeft === 0) {
+      this.recording = true;
+      this.starting.resolve();
+      this.starting = null;
+    }
+    if (!this.recording) {
+      this.dropped.push(frame);
+      return;
+    }
+    this.history.push(frame);
+
+    const pending = this.pendingSwitch;
+    if (!pending) {
+      this.feed(frame);
+      return;
+    }
+
+    // The current frame, then older ones until replayMs is covered
+    const frames = Math.max(1, Math.ceil(pending.replayMs / FRAME_MS));
+    const replay = this.history.slice(-frames);
+    this.pendingSwitch = null;
+    this.grammar = pending.grammar;
+    replay.forEach((replayed) => this.feed(replayed));
+    pending.resolve({
+      replayedMs: replay.length * FRAME_MS,
+      droppedMs: Math.max(0, pending.replayMs - replay.length * FRAME_MS),
+    });
+  }
+
+  private feed(frame: number): void {
+    let partial: object | null;
+    if (this.grammar) {
+      // Wake word recognizer: silent until the wake word
+      partial =
+        frame >= WAKE_FRAME
+          ? { partial: 'computer', partial_result: [{ word: 'computer', conf: 1 }] }
+          : null;
+    } else {
+      partial = { partial: `frame ${frame}` };
+    }
+    if (partial) {
+      this.handlers.partial.forEach((handler) => handler(JSON.stringify(partial)));
+    }
+  }
+}
+
+// Let the services' awaits run, as the JS thread does between audio buffers
+const flush = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+const setUp = async (mic: FakeMicrophone) => {
+  jest.spyOn(Date, 'now').mockImplementation(() => mic.now);
+
+  const engine = new VoskEngine(() => mic);
+  const wakeWord = new WakeWordService(() => engine.createRecognizer());
+  const stt = engine.createRecognizer();
+  const sttFrames: number[] = [];
+  stt.onPartialResult((partial) => {
+    sttFrames.push(Number(JSON.parse(partial).partial.replace('frame ', '')));
+  });
+
+  let handover: Promise<void> | null = null;
+  wakeWord.onDetection(() => {
+    handover = wakeWord.handOver(() => stt.start());
+  });
+
+  await wakeWord.initialize({
+    wakeWords: ['computer'],
+    modelPath: 'model',
+    sensitivity: 0.5,
+    speakThrough: true,
+  });
+  await stt.loadModel('model');
+  await wakeWord.startListening();
+
+  const run = async (frames: number) => {
+    for (let frame = 1; frame <= frames; frame++) {
+      // Two more frames are recorded while JS gets to the detection
+      if (frame <= WAKE_FRAME || frame > WAKE_FRAME + 2) {
+        await flush();
+      }
+      mic.tick();
+    }
+    await flush();
+    await handover;
+  };
+
+  return { wakeWord, sttFrames, run };
+};
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  diagnosticsService.clear();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('wake word -> STT handoff', () => {
+  it('keeps recording and hands STT every frame after the wake word', async () => {
+    const mic = new FakeMicrophone(true);
+    const { wakeWord, sttFrames, run } = await setUp(mic);
+
+    await run(15);
+
+    expect(mic.dropped).toEqual([]);
+    // Continuous from the wake word on, the replay may start a bit earlier
+    expect(sttFrames[0]).toBeLessThanOrEqual(WAKE_FRAME + 1);
+    const last = sttFrames[sttFrames.length - 1];
+    expect(sttFrames).toEqual(
+      Array.from({ length: last - sttFrames[0] + 1 }, (_, i) => sttFrames[0] + i),
+    );
+    expect(last).toBe(15);
+    expect(wakeWord.getIsListening()).toBe(false);
+
+    expect(diagnosticsService.getHandoffs()).toEqual([
+      expect.objectContaining({ mode: 'continuous', gapMs: 0 }),
+    ]);
+  });
+
+  it('logs the gap when it has to stop and start the microphone', async () => {
+    const mic = new FakeMicrophone(false);
+    const { sttFrames, run } = await setUp(mic);
+    mic.startFrames = 2;
+
+    await run(15);
+
+    // The words right after the wake word are clipped
+    expect(mic.dropped.length).toBeGreaterThan(0);
+    expect(sttFrames[0]).toBeGreaterThan(WAKE_FRAME + 1);
+    const [handoff] = diagnosticsService.getHandoffs();
+    expect(handoff.mode).toBe('restart');
+    expect(handoff.gapMs).toBeGreaterThan(0);
+  });
+});
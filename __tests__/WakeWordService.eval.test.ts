@@ -0,0 +1,98 @@
+/**
+ * Wake word evaluation: the synthetic recognizer output in fixtures/wake-word
+ * replayed through WakeWordService with wake-word-eval.ts. Add a fixture
+ * for every false accept or reject found in the field.
+ */
+
+import { PRINT_REPORT, evaluate, formatReport, loadFixtures } from './wake-word-eval';
+import type { EvaluationReport, WakeWordFixture } from './wake-word-eval';
+import { WakeWordService } from '../src/services/WakeWordService';
+
+// The fixture recognizer stands in for it, the native module isn't there
+jest.mock('react-native-vosk', () => ({ __esModule: true, default: jest.fn() }));
+
+const WAKE_WORDS = ['computer', 'hey claw', 'jarvis'];
+
+// Floor for the shipped fixtures at the default sensitivity
+const MIN_RECALL = 0.8;
+
+let fixtures: WakeWordFixture[];
+let skipped: string[];
+
+const run = (sensitivity: number) =>
+  evaluate(fixtures, {
+    wakeWords: WAKE_WORDS,
+    sensitivity,
+    createService: (recognizer) => new WakeWordService(() => recognizer),
+  });
+
+/**
+ * Run the assertions on a report, which is added to the failure message
+ * (and printed for npm run eval:wake-word)
+ */
+const expectReport = (report: EvaluationReport, assertions: () => void) => {
+  try {
+    assertions();
+  } catch (error) {
+    (error as Error).message += `\n\n${formatReport(report)}`;
+    throw error;
+  }
+  if (PRINT_REPORT) {
+    console.info(formatReport(report));
+  }
+};
+
+beforeAll(async () => {
+  ({ fixtures, skipped } = await loadFixtures());
+});
+
+beforeEach(() => {
+  // WakeWordService logs every detection and near miss
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('wake word evaluation', () => {
+  it('has fixtures for every wake word and for non-triggers', () => {
+    expect(skipped).toEqual([]);
+    for (const wakeWord of WAKE_WORDS) {
+      expect(fixtures.some((fixture) => fixture.expected === wakeWord)).toBe(true);
+    }
+    expect(fixtures.some((fixture) => fixture.expected === null)).toBe(true);
+  });
+
+  it('has no false accepts at the default sensitivity', async () => {
+    const report = await run(0.5);
+
+    expectReport(report, () => {
+      for (const [wakeWord, score] of Object.entries(report.words)) {
+        expect({ wakeWord, precision: score.precision }).toEqual({ wakeWord, precision: 1 });
+        expect(score.recall).toBeGreaterThanOrEqual(MIN_RECALL);
+      }
+      expect(report.results.filter((r) => r.expected === null && r.detected !== null)).toEqual([]);
+    });
+  });
+
+  it('catches faint wake words at high sensitivity without more false accepts', async () => {
+    const report = await run(0.75);
+
+    expectReport(report, () => {
+      for (const score of Object.values(report.words)) {
+        expect(score.recall).toBe(1);
+        expect(score.precision).toBe(1);
+      }
+    });
+  });
+
+  it('misses faint wake words at low sensitivity', async () => {
+    const report = await run(0.25);
+
+    expectReport(report, () => {
+      expect(report.results.find((r) => r.name === 'computer/faint.json')?.detected).toBeNull();
+      expect(report.words.computer.fp).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,432 @@
+/**
+ * Integration tests: the real WebSocketService against the mock gateway
+ * (scripts/mock-gateway.js)
+ */
+
+import { AppState } from 'react-native';
+import { createMockGateway } from '../scripts/mock-gateway';
+import type { MockGateway } from '../scripts/mock-gateway';
+import { webSocketService } from '../src/services/WebSocketService';
+import { outboxService } from '../src/services/OutboxService';
+import { WS_CONFIG } from '../src/constants';
+import type { ChatEventPayload, ExecApprovalRequestedPayload } from '../src/types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+jest.mock('react-native-fs', () => ({
+  DocumentDirectoryPath: '/tmp',
+  readFile: (path: string, encoding: string) => require('fs').promises.readFile(path, encoding),
+}));
+
+// React Native provides WebSocket globally, Node doesn't
+(globalThis as any).WebSocket = require('ws');
+
+const TOKEN = 'test-token';
+const SESSION_KEY = 'agent:main:main';
+
+let gateway: MockGateway;
+
+const waitFor = (check: () => boolean, timeoutMs = 4000): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const startedAt = Date.now();
+    const poll = () => {
+      if (check()) {
+        resolve();
+      } else if (Date.now() - startedAt > timeoutMs) {
+        reject(new Error('Timed out waiting for condition'));
+      } else {
+        setTimeout(poll, 10);
+      }
+    };
+    poll();
+  });
+
+const nextConnect = (): Promise<void> =>
+  new Promise((resolve) => {
+    const unsubscribe = webSocketService.onStatus((connected) => {
+      if (connected) {
+        unsubscribe();
+        resolve();
+      }
+    });
+  });
+
+// Chat events up to and including the one that ends the run
+const nextReply = (): Promise<ChatEventPayload[]> =>
+  new Promise((resolve) => {
+    const events: ChatEventPayload[] = [];
+    const unsubscribe = webSocketService.onChat((payload) => {
+      events.push(payload);
+      if (payload.state !== 'delta') {
+        unsubscribe();
+        resolve(events);
+      }
+    });
+  });
+
+const textOf = (payload: ChatEventPayload): string => {
+  const content = payload.message?.content;
+  return Array.isArray(content) ? content.map((part) => part.text).join('') : content || '';
+};
+
+const connect = async (): Promise<void> => {
+  const connected = nextConnect();
+  webSocketService.connect(gateway.url, TOKEN);
+  await connected;
+};
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+beforeEach(async () => {
+  gateway = await createMockGateway({
+    port: 0,
+    token: TOKEN,
+    quiet: true,
+    delayMs: 300,
+    deltaIntervalMs: 10,
+  });
+  webSocketService.setSessionKey(SESSION_KEY);
+});
+
+afterEach(async () => {
+  webSocketService.disconnect();
+  await gateway.close();
+});
+
+describe('WebSocketService against the mock gateway', () => {
+  it('authenticates with the token and streams a reply', async () => {
+    await connect();
+
+    const connectFrame = gateway.received.find((frame) => frame.method === 'connect');
+    expect(connectFrame?.params.auth.token).toBe(TOKEN);
+
+    const reply = nextReply();
+    const result = await webSocketService.sendChatMessage('hello there world');
+    const events = await reply;
+
+    expect(result.runId).toBe('run-1');
+    expect(events.every((event) => event.runId === 'run-1')).toBe(true);
+    expect(events.map((event) => event.state)).toEqual(['delta', 'delta', 'delta', 'delta', 'final']);
+    expect(events.slice(0, -1).map(textOf)).toEqual([
+      'You',
+      'You said:',
+      'You said: hello',
+      'You said: hello there',
+    ]);
+    expect(textOf(events[events.length - 1])).toBe('You said: hello there world');
+  });
+
+  it('tracks the running reply until it is final', async () => {
+    await connect();
+    const runs: Array<string | null> = [];
+    const unsubscribe = webSocketService.onRun((runId) => runs.push(runId));
+
+    const reply = nextReply();
+    await webSocketService.sendChatMessage('hi');
+    await reply;
+    unsubscribe();
+
+    expect(runs).toEqual(['run-1', null]);
+    expect(webSocketService.getActiveRunId()).toBeNull();
+  });
+
+  it('loads the transcript with chat.history', async () => {
+    await connect();
+    const reply = nextReply();
+    await webSocketService.sendChatMessage('remember this');
+    await reply;
+
+    const page = await webSocketService.fetchHistory();
+
+    expect(page.sessionKey).toBe(SESSION_KEY);
+    expect(page.messages.map((message) => [message.type, message.content])).toEqual([
+      ['user', 'remember this'],
+      ['assistant', 'You said: remember this'],
+    ]);
+  });
+
+  it('reports a rejected token and does not retry', async () => {
+    gateway.setScenario('auth-failure');
+    const errors: string[] = [];
+    const unsubscribe = webSocketService.onError((error) => errors.push(error));
+
+    webSocketService.connect(gateway.url, TOKEN);
+    await waitFor(() => errors.length > 0);
+    await new Promise<void>((resolve) => setTimeout(resolve, 300));
+    unsubscribe();
+
+    expect(errors[0]).toBe('invalid token');
+    expect(webSocketService.getIsConnected()).toBe(false);
+    expect(gateway.received.filter((frame) => frame.method === 'connect')).toHaveLength(1);
+  });
+
+  it('waits for slow responses', async () => {
+    gateway.setScenario('slow');
+    await connect();
+
+    const startedAt = Date.now();
+    const result = await webSocketService.sendChatMessage('take your time');
+
+    expect(result.runId).toBe('run-1');
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(250);
+  });
+
+  it('fails the request and reconnects when the socket drops', async () => {
+    await connect();
+    gateway.setScenario('drop-on-send');
+
+    await expect(webSocketService.sendChatMessage('lost')).rejects.toThrow('Connection closed');
+    expect(webSocketService.getIsConnected()).toBe(false);
+
+    gateway.setScenario('default');
+    await nextConnect();
+
+    const reply = nextReply();
+    await webSocketService.sendChatMessage('found');
+    const events = await reply;
+    expect(textOf(events[events.length - 1])).toBe('You said: found');
+  });
+
+  it('replays a queued message without the gateway taking it twice', async () => {
+    await connect();
+    // The gateway takes the message, but its answer is lost with the socket
+    gateway.setScenario('drop-after-accept');
+    await outboxService.enqueue({
+      id: 'queued-1',
+      content: 'turn on the lights',
+      sessionKey: SESSION_KEY,
+      gatewayUrl: gateway.url,
+      timestamp: Date.now(),
+    });
+    await webSocketService.flushOutbox();
+    expect(outboxService.getItems().map((item) => item.id)).toEqual(['queued-1']);
+
+    // Replayed on reconnect
+    gateway.setScenario('default');
+    await nextConnect();
+    await waitFor(() => outboxService.getItems().length === 0);
+
+    const sends = gateway.received.filter((frame) => frame.method === 'chat.send');
+    expect(sends).toHaveLength(2);
+    expect(sends[1].params.idempotencyKey).toBe(sends[0].params.idempotencyKey);
+    const page = await webSocketService.fetchHistory();
+    expect(page.messages.filter((message) => message.type === 'user').map((message) => message.content))
+      .toEqual(['turn on the lights']);
+  });
+
+  it('sets aside a queued message whose attachment is gone and sends the rest', async () => {
+    await connect();
+    await outboxService.enqueue({
+      id: 'lost-voice-note',
+      content: '',
+      attachments: [
+        { type: 'audio', mimeType: 'audio/mp4', fileName: 'deleted.m4a', path: '/tmp/heyclaw-test-deleted.m4a' },
+      ],
+      sessionKey: SESSION_KEY,
+      gatewayUrl: gateway.url,
+      timestamp: Date.now(),
+    });
+    await outboxService.enqueue({
+      id: 'queued-2',
+      content: 'what is the weather',
+      sessionKey: SESSION_KEY,
+      gatewayUrl: gateway.url,
+      timestamp: Date.now(),
+    });
+
+    await webSocketService.flushOutbox();
+
+    expect(outboxService.getItems()).toEqual([
+      expect.objectContaining({ id: 'lost-voice-note', rejected: true }),
+    ]);
+    const sends = gateway.received.filter((frame) => frame.method === 'chat.send');
+    expect(sends.map((frame) => frame.params.message)).toEqual(['what is the weather']);
+    await outboxService.remove('lost-voice-note');
+  });
+
+  it('ignores malformed frames and keeps the connection', async () => {
+    gateway.setScenario('malformed');
+    await connect();
+
+    const reply = nextReply();
+    await webSocketService.sendChatMessage('still fine');
+    const events = await reply;
+
+    expect(events[events.length - 1].state).toBe('final');
+    expect(console.warn).toHaveBeenCalledWith(
+      '[WebSocket] Rejected malformed frame:',
+      expect.any(String),
+    );
+    expect(webSocketService.getIsConnected()).toBe(true);
+  });
+
+  it('measures the ping round trip when the app comes to the foreground', async () => {
+    await connect();
+    const onAppStateChange = (AppState.addEventListener as jest.Mock).mock.calls[0][1];
+
+    onAppStateChange('background');
+    onAppStateChange('active');
+    await waitFor(() => webSocketService.getLatency() !== null);
+
+    expect(webSocketService.getLatency()).toBeGreaterThanOrEqual(0);
+  });
+
+  it('aborts a running reply', async () => {
+    await gateway.close();
+    gateway = await createMockGateway({
+      port: 0,
+      token: TOKEN,
+      quiet: true,
+      deltaIntervalMs: 50,
+      reply: () => 'a long answer that takes quite a while to stream',
+    });
+    await connect();
+
+    const reply = nextReply();
+    await webSocketService.sendChatMessage('talk a lot');
+    await waitFor(() => webSocketService.getActiveRunId() === 'run-1');
+
+    await expect(webSocketService.abortRun()).resolves.toBe(true);
+    const events = await reply;
+
+    expect(events[events.length - 1].state).toBe('aborted');
+    expect(webSocketService.getActiveRunId()).toBeNull();
+  });
+
+  it('ignores chat events of other sessions', async () => {
+    await connect();
+    const events: ChatEventPayload[] = [];
+    const unsubscribe = webSocketService.onChat((payload) => events.push(payload));
+
+    gateway.broadcast({
+      type: 'event',
+      event: 'chat',
+      payload: { runId: 'other', sessionKey: 'agent:main:other', state: 'final' },
+    });
+    const reply = nextReply();
+    await webSocketService.sendChatMessage('mine');
+    await reply;
+    unsubscribe();
+
+    expect(events.some((event) => event.runId === 'other')).toBe(false);
+  });
+
+  it('follows the reply to a message sent to another session', async () => {
+    await connect();
+
+    const reply = nextReply();
+    await webSocketService.sendChatMessage('lights off', { sessionKey: 'agent:home:main' });
+    const events = await reply;
+
+    expect(events.every((event) => event.sessionKey === 'agent:home:main')).toBe(true);
+    expect(textOf(events[events.length - 1])).toBe('You said: lights off');
+    expect(webSocketService.getSessionKey()).toBe(SESSION_KEY);
+  });
+
+  it('receives exec approval requests and sends the decision', async () => {
+    await connect();
+    const requests: ExecApprovalRequestedPayload[] = [];
+    const resolved: string[] = [];
+    const unsubscribeRequested = webSocketService.onApproval((payload) => requests.push(payload));
+    const unsubscribeResolved = webSocketService.onApprovalResolved(({ id }) => resolved.push(id));
+
+    const ignoredId = gateway.requestApproval('ls', { sessionKey: 'agent:main:other' });
+    const approvalId = gateway.requestApproval('rm -rf build', { sessionKey: SESSION_KEY });
+    await waitFor(() => requests.length > 0);
+    await webSocketService.resolveApproval(approvalId, 'deny');
+    await waitFor(() => resolved.length > 0);
+    unsubscribeRequested();
+    unsubscribeResolved();
+
+    expect(requests.map((request) => request.id)).toEqual([approvalId]);
+    expect(requests[0].request.command).toBe('rm -rf build');
+    expect(gateway.approvalDecision(approvalId)).toBe('deny');
+    expect(gateway.approvalDecision(ignoredId)).toBeNull();
+    expect(resolved).toEqual([approvalId]);
+    const connectFrame = gateway.received.find((frame) => frame.method === 'connect');
+    expect(connectFrame?.params.scopes).toContain('operator.approvals');
+  });
+
+  it('receives exec approval requests of a session it sent a message to', async () => {
+    await connect();
+    const requests: ExecApprovalRequestedPayload[] = [];
+    const unsubscribe = webSocketService.onApproval((payload) => requests.push(payload));
+
+    const reply = nextReply();
+    await webSocketService.sendChatMessage('lights off', { sessionKey: 'agent:home:main' });
+    const approvalId = gateway.requestApproval('hass lights off', { sessionKey: 'agent:home:main' });
+    await waitFor(() => requests.length > 0);
+    await reply;
+    unsubscribe();
+
+    expect(requests.map((request) => request.id)).toEqual([approvalId]);
+  });
+});
+
+describe('WebSocketService heartbeat against the mock gateway', () => {
+  // Timers are fake, the sockets' I/O is real
+  const waitForIo = async (check: () => boolean): Promise<void> => {
+    for (let i = 0; i < 1000 && !check(); i++) {
+      await new Promise<void>((resolve) => setImmediate(resolve));
+    }
+    if (!check()) {
+      throw new Error('Timed out waiting for condition');
+    }
+  };
+
+  const connects = () => gateway.received.filter((frame) => frame.method === 'connect').length;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate', 'queueMicrotask'] });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('drops a gateway that stopped answering pings and reconnects', async () => {
+    webSocketService.connect(gateway.url, TOKEN);
+    await waitForIo(() => webSocketService.getIsConnected());
+
+    // One pong proves the gateway supports the heartbeat
+    jest.advanceTimersByTime(WS_CONFIG.pingInterval);
+    await waitForIo(() => webSocketService.getLatency() !== null);
+
+    gateway.setScenario('no-pong');
+    // The first unanswered ping is still in flight
+    jest.advanceTimersByTime(WS_CONFIG.pingInterval);
+    for (let missed = 1; missed < WS_CONFIG.maxMissedPongs; missed++) {
+      jest.advanceTimersByTime(WS_CONFIG.pingInterval);
+      expect(webSocketService.getIsConnected()).toBe(true);
+    }
+
+    jest.advanceTimersByTime(WS_CONFIG.pingInterval);
+    expect(webSocketService.getIsConnected()).toBe(false);
+
+    jest.advanceTimersByTime(WS_CONFIG.reconnectInterval * (1 + WS_CONFIG.reconnectJitter));
+    await waitForIo(() => webSocketService.getIsConnected());
+    expect(connects()).toBe(2);
+    await waitForIo(() => gateway.clientCount() === 1);
+  });
+
+  it('keeps a gateway that never answers pings', async () => {
+    gateway.setScenario('no-pong');
+    webSocketService.connect(gateway.url, TOKEN);
+    await waitForIo(() => webSocketService.getIsConnected());
+
+    for (let ping = 0; ping < WS_CONFIG.maxMissedPongs * 3; ping++) {
+      jest.advanceTimersByTime(WS_CONFIG.pingInterval);
+      await new Promise<void>((resolve) => setImmediate(resolve));
+    }
+
+    expect(webSocketService.getIsConnected()).toBe(true);
+    expect(connects()).toBe(1);
+    expect(gateway.clientCount()).toBe(1);
+    expect(webSocketService.getLatency()).toBeNull();
+  });
+});
@@ -0,0 +1,273 @@
+/**
+ * Reconnect behaviour with fake timers, a fake socket and a fake
+ * reachability source: backoff, waiting for the network, keep-alive and
+ * drops during the connect handshake
+ */
+
+import { WebSocketService } from '../src/services/WebSocketService';
+import { WS_CONFIG } from '../src/constants';
+import type { ReachabilitySource, ReconnectInfo } from '../src/types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+jest.mock('react-native-fs', () => ({ DocumentDirectoryPath: '/tmp' }));
+
+/**
+ * Stands in for React Native's WebSocket, the test opens, answers and
+ * drops it
+ */
+class FakeSocket {
+  static CONNECTING = 0;
+  static OPEN = 1;
+  static CLOSING = 2;
+  static CLOSED = 3;
+  static instances: FakeSocket[] = [];
+
+  readyState = FakeSocket.CONNECTING;
+  sent: any[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onclose: ((event: { code: number; reason: string }) => void) | null = null;
+  onerror: ((event: unknown) => void) | null = null;
+
+  constructor(public url: string) {
+    FakeSocket.instances.push(this);
+  }
+
+  send(raw: string): void {
+    this.sent.push(JSON.parse(raw));
+  }
+
+  close(): void {
+    this.readyState = FakeSocket.CLOSED;
+  }
+
+  open(): void {
+    this.readyState = FakeSocket.OPEN;
+    this.onopen?.();
+  }
+
+  drop(): void {
+    this.readyState = FakeSocket.CLOSED;
+    this.onclose?.({ code: 1006, reason: '' });
+  }
+
+  // Answer the connect request
+  answerConnect(error?: { code: string; message: string }): void {
+    const request = this.sent.find((frame) => frame.method === 'connect');
+    const response = error
+      ? { type: 'res', id: request.id, ok: false, error }
+      : { type: 'res', id: request.id, ok: true, payload: { protocol: 3 } };
+    this.onmessage?.({ data: JSON.stringify(response) });
+  }
+}
+
+class FakeNetwork implements ReachabilitySource {
+  private listener: ((isReachable: boolean) => void) | null = null;
+
+  subscribe = (listener: (isReachable: boolean) => void) => {
+    this.listener = listener;
+    return () => {
+      this.listener = null;
+    };
+  };
+
+  set(isReachable: boolean): void {
+    this.listener?.(isReachable);
+  }
+}
+
+const lastSocket = () => FakeSocket.instances[FakeSocket.instances.length - 1];
+
+// Let the handshake's awaits run
+const flush = async () => {
+  for (let i = 0; i < 10; i++) {
+    await Promise.resolve();
+  }
+};
+
+let service: WebSocketService;
+let reconnects: (ReconnectInfo | null)[];
+let errors: string[];
+
+// Delay of the reconnect scheduled last
+const lastDelay = () => {
+  const info = reconnects[reconnects.length - 1];
+  return info?.nextAttemptAt ? info.nextAttemptAt - Date.now() : null;
+};
+
+// Drop the current socket before it opens and wait out the backoff
+const failAttempt = async (): Promise<number | null> => {
+  lastSocket().drop();
+  const delay = lastDelay();
+  if (delay !== null) {
+    jest.advanceTimersByTime(delay);
+  }
+  await flush();
+  return delay;
+};
+
+const connected = async () => {
+  lastSocket().open();
+  lastSocket().answerConnect();
+  await flush();
+};
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  jest.spyOn(Math, 'random').mockReturnValue(0.5); // No jitter
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  FakeSocket.instances = [];
+  (globalThis as any).WebSocket = FakeSocket;
+
+  service = new WebSocketService();
+  reconnects = [];
+  errors = [];
+  service.onReconnect((info) => reconnects.push(info));
+  service.onError((error) => errors.push(error));
+});
+
+afterEach(async () => {
+  service.disconnect();
+  await flush();
+  jest.clearAllTimers();
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe('WebSocketService reconnects', () => {
+  it('doubles the backoff up to the cap, then gives up without keep-alive', async () => {
+    service.connect('gateway:18789', 'token');
+
+    const delays: (number | null)[] = [];
+    for (let i = 0; i <= WS_CONFIG.maxReconnectAttempts; i++) {
+      delays.push(await failAttempt());
+    }
+
+    expect(delays).toEqual([
+      1000, 2000, 4000, 8000, 16000, 32000, 60000, 60000, 60000, 60000,
+      null, // Max attempts reached
+    ]);
+    expect(errors).toContain('Could not connect to gateway');
+    const sockets = FakeSocket.instances.length;
+    jest.advanceTimersByTime(10 * 60000);
+    expect(FakeSocket.instances).toHaveLength(sockets);
+  });
+
+  it('never stops retrying with keep-alive', async () => {
+    service.setKeepAlive(true);
+    service.connect('gateway:18789', 'token');
+
+    let delay: number | null = null;
+    for (let i = 0; i < WS_CONFIG.maxReconnectAttempts * 3; i++) {
+      delay = await failAttempt();
+    }
+
+    expect(delay).toBe(WS_CONFIG.maxReconnectInterval);
+    expect(FakeSocket.instances).toHaveLength(WS_CONFIG.maxReconnectAttempts * 3 + 1);
+
+    await connected();
+    expect(service.getIsConnected()).toBe(true);
+    expect(reconnects[reconnects.length - 1]).toBeNull();
+  });
+
+  it('resumes with keep-alive after giving up', async () => {
+    service.connect('gateway:18789', 'token');
+    for (let i = 0; i <= WS_CONFIG.maxReconnectAttempts; i++) {
+      await failAttempt();
+    }
+    const sockets = FakeSocket.instances.length;
+
+    service.setKeepAlive(true);
+    jest.advanceTimersByTime(lastDelay() ?? 0);
+
+    expect(FakeSocket.instances).toHaveLength(sockets + 1);
+  });
+
+  it('waits for the network while offline and reconnects once it is back', async () => {
+    const network = new FakeNetwork();
+    service.setReachabilitySource(network);
+    service.connect('gateway:18789', 'token');
+    await connected();
+
+    network.set(false);
+    lastSocket().drop();
+
+    expect(reconnects[reconnects.length - 1]).toEqual(
+      expect.objectContaining({ nextAttemptAt: null, waitingForNetwork: true }),
+    );
+    const sockets = FakeSocket.instances.length;
+    jest.advanceTimersByTime(10 * 60000);
+    expect(FakeSocket.instances).toHaveLength(sockets);
+
+    network.set(true);
+
+    expect(FakeSocket.instances).toHaveLength(sockets + 1);
+    await connected();
+    expect(service.getIsConnected()).toBe(true);
+  });
+
+  it('stops the pending backoff when the network goes away', async () => {
+    const network = new FakeNetwork();
+    service.setReachabilitySource(network);
+    service.connect('gateway:18789', 'token');
+    lastSocket().drop();
+    expect(lastDelay()).toBe(WS_CONFIG.reconnectInterval);
+
+    network.set(false);
+    const sockets = FakeSocket.instances.length;
+    jest.advanceTimersByTime(10 * 60000);
+
+    expect(FakeSocket.instances).toHaveLength(sockets);
+    expect(reconnects[reconnects.length - 1]?.waitingForNetwork).toBe(true);
+
+    // Straight away, not after the backoff
+    network.set(true);
+    expect(FakeSocket.instances).toHaveLength(sockets + 1);
+  });
+
+  it('reconnects when the socket drops during the handshake', async () => {
+    service.setKeepAlive(true);
+    service.connect('gateway:18789', 'token');
+    lastSocket().open();
+    lastSocket().drop();
+    await flush();
+
+    expect(lastDelay()).toBe(WS_CONFIG.reconnectInterval);
+    jest.advanceTimersByTime(WS_CONFIG.reconnectInterval);
+    expect(FakeSocket.instances).toHaveLength(2);
+
+    await connected();
+    expect(service.getIsConnected()).toBe(true);
+    expect(errors).toEqual([]);
+  });
+
+  it('reconnects when the handshake times out', async () => {
+    service.connect('gateway:18789', 'token');
+    const socket = lastSocket();
+    socket.open();
+
+    jest.advanceTimersByTime(30000);
+    await flush();
+
+    expect(socket.readyState).toBe(FakeSocket.CLOSED);
+    expect(lastDelay()).toBe(WS_CONFIG.reconnectInterval);
+    jest.advanceTimersByTime(WS_CONFIG.reconnectInterval);
+    expect(FakeSocket.instances).toHaveLength(2);
+  });
+
+  it('gives up when the gateway refuses the token', async () => {
+    service.setKeepAlive(true);
+    service.connect('gateway:18789', 'token');
+    lastSocket().open();
+    lastSocket().answerConnect({ code: 'UNAUTHORIZED', message: 'invalid token' });
+    await flush();
+
+    expect(errors).toEqual(['invalid token']);
+    jest.advanceTimersByTime(10 * 60000);
+    expect(FakeSocket.instances).toHaveLength(1);
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * PCM Fixtures
+ *
+ * Reads the WAV recordings the voice activity detection is tested on
+ * (VoiceActivity.test.ts) and cuts them into frames, like the metering of
+ * a recording. 16-bit mono PCM only.
+ *
+ *   __tests__/fixtures/vad/command.wav
+ *
+ * The shipped fixtures are synthetic (noise, voiced syllables, a click) at
+ * 8 kHz to keep them small, real recordings can be dropped in next to them.
+ */
+
+/// <reference types="node" />
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface Wav {
+  sampleRate: number;
+  samples: Int16Array;
+}
+
+export const VAD_FIXTURES_DIR = path.join(__dirname, 'fixtures', 'vad');
+
+/**
+ * Read a WAV fixture by file name (or path)
+ */
+export function readWav(name: string): Wav {
+  const file = path.isAbsolute(name) ? name : path.join(VAD_FIXTURES_DIR, name);
+  const data = fs.readFileSync(file);
+  if (data.toString('ascii', 0, 4) !== 'RIFF' || data.toString('ascii', 8, 12) !== 'WAVE') {
+    throw new Error(`${name} is not a WAV file`);
+  }
+
+  let sampleRate = 0;
+  let offset = 12;
+  while (offset + 8 <= data.length) {
+    const chunk = data.toString('ascii', offset, offset + 4);
+    const size = data.readUInt32LE(offset + 4);
+    const body = offset + 8;
+
+    if (chunk === 'fmt ') {
+      const format = data.readUInt16LE(body);
+      const channels = data.readUInt16LE(body + 2);
+      const bits = data.readUInt16LE(body + 14);
+      if (format !== 1 || channels !== 1 || bits !== 16) {
+        throw new Error(`${name} must be 16-bit mono PCM`);
+      }
+      sampleRate = data.readUInt32LE(body + 4);
+    } else if (chunk === 'data') {
+      const samples = new Int16Array(size / 2);
+      for (let i = 0; i < samples.length; i++) {
+        samples[i] = data.readInt16LE(body + i * 2);
+      }
+      return { sampleRate, samples };
+    }
+    offset = body + size + (size % 2);
+  }
+  throw new Error(`${name} has no audio data`);
+}
+
+/**
+ * Cut the samples into frames of `frameMs` (the last one may be shorter)
+ */
+export function splitFrames(wav: Wav, frameMs: number): Int16Array[] {
+  const size = Math.round((wav.sampleRate * frameMs) / 1000);
+  const frames: Int16Array[] = [];
+  for (let start = 0; start < wav.samples.length; start += size) {
+    frames.push(wav.samples.subarray(start, start + size));
+  }
+  return frames;
+}
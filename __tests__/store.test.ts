@@ -0,0 +1,89 @@
+/**
+ * Merging loaded chat history into the conversation
+ */
+
+import { useAppStore } from '../src/store';
+import type { ConversationItem } from '../src/types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+const NOW = 1_700_000_000_000;
+
+const message = (
+  id: string,
+  type: ConversationItem['type'],
+  content: string,
+  secondsAgo: number,
+  extra: Partial<ConversationItem> = {},
+): ConversationItem => ({ id, type, content, timestamp: NOW - secondsAgo * 1000, ...extra });
+
+// History items as fetchHistory returns them
+const fromGateway = (serverId: string, type: ConversationItem['type'], content: string, secondsAgo: number) =>
+  message(serverId, type, content, secondsAgo, { serverId });
+
+const merge = (items: ConversationItem[]) => {
+  useAppStore.getState().mergeHistory(items);
+  return useAppStore.getState().conversation;
+};
+
+beforeEach(() => {
+  useAppStore.setState({ conversation: [] });
+});
+
+describe('mergeHistory', () => {
+  it('adds history in time order', () => {
+    useAppStore.setState({ conversation: [message('msg-1', 'user', 'what time is it', 10)] });
+
+    const conversation = merge([fromGateway('s1', 'user', 'hello', 60), fromGateway('s2', 'assistant', 'hi', 50)]);
+
+    expect(conversation.map((item) => item.content)).toEqual(['hello', 'hi', 'what time is it']);
+  });
+
+  it('matches our own messages by the key they were sent with', () => {
+    useAppStore.setState({
+      conversation: [message('msg-1', 'user', 'yes', 30, { idempotencyKey: 'hc-msg-1-abc' })],
+    });
+
+    const conversation = merge([
+      fromGateway('hc-msg-0-xyz', 'user', 'yes', 40), // Said before, a different message
+      fromGateway('hc-msg-1-abc', 'user', 'yes', 30),
+    ]);
+
+    expect(conversation.map((item) => item.id)).toEqual(['hc-msg-0-xyz', 'msg-1']);
+  });
+
+  it('keeps repeated messages apart', () => {
+    const history = [
+      fromGateway('s1', 'user', 'stop', 50),
+      fromGateway('s2', 'user', 'stop', 40),
+      fromGateway('s3', 'user', 'stop', 30),
+    ];
+
+    expect(merge(history)).toHaveLength(3);
+    // Loading the same page again adds nothing
+    expect(merge(history)).toHaveLength(3);
+  });
+
+  it('matches a streamed reply without a gateway id once by its text', () => {
+    useAppStore.setState({ conversation: [message('msg-2', 'assistant', 'done', 20)] });
+
+    const conversation = merge([fromGateway('s1', 'assistant', 'done', 21), fromGateway('s2', 'assistant', 'done', 19)]);
+
+    expect(conversation.map((item) => item.id)).toEqual(['msg-2', 's2']);
+    expect(conversation[0].serverId).toBe('s1');
+    // Known by id from now on
+    expect(merge([fromGateway('s1', 'assistant', 'done', 21)])).toHaveLength(2);
+  });
+
+  it('falls back to text and time for history without ids', () => {
+    useAppStore.setState({
+      conversation: [message('msg-1', 'user', 'hello', 30, { idempotencyKey: 'hc-msg-1-abc' })],
+    });
+
+    const conversation = merge([message('hist-1-0', 'user', 'hello', 29), message('hist-2-1', 'user', 'hello', 600)]);
+
+    expect(conversation.map((item) => item.id)).toEqual(['hist-2-1', 'msg-1']);
+  });
+});
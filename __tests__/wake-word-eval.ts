@@ -0,0 +1,255 @@
+/**
+ * Wake Word Evaluation
+ *
+ * Replays labelled recognizer output through the wake word detection and
+ * reports precision and recall per wake word, so false accepts and false
+ * rejects show up in review when wake words, models or the matching change.
+ * Runs under Jest (WakeWordService.eval.test.ts), no device needed.
+ * The report is printed by `npm run eval:wake-word` (WAKE_WORD_REPORT=1) and
+ * with failed assertions, the plain test run stays quiet.
+ *
+ * Fixtures live in one directory per expected wake word - dashes for
+ * spaces, `none` for utterances that must not trigger:
+ *
+ *   __tests__/fixtures/wake-word/computer/clear.json
+ *   __tests__/fixtures/wake-word/hey-claw/slow.json
+ *   __tests__/fixtures/wake-word/none/commuter.json
+ *
+ * JSON fixtures hold the recognizer events for one utterance:
+ *   { "description": "...", "events": [{ "type": "partial", "data": { "partial": "computer" } }, ...] }
+ * with type partial / result / final and the event payload as object or
+ * string. The shipped ones are synthetic, written in the shape Vosk emits
+ * in grammar mode, so they may only use words of the grammar and [unk].
+ * WAV fixtures need a `transcribe` function that turns the file into such
+ * events (e.g. a desktop Vosk), without one they are skipped.
+ */
+
+/// <reference types="node" />
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { WakeWordRecognizer } from '../src/services/WakeWordService';
+
+export interface RecognizerEvent {
+  type: 'partial' | 'result' | 'final';
+  data: string | Record<string, unknown>;
+}
+
+export interface WakeWordFixture {
+  name: string; // <label>/<file>
+  expected: string | null; // null = must not trigger
+  description?: string;
+  events: RecognizerEvent[];
+}
+
+export interface FixtureRecognizer extends WakeWordRecognizer {
+  grammar: string[] | null; // Grammar of the last start()
+  emit: (event: RecognizerEvent) => void;
+}
+
+export interface EvaluatedService {
+  onDetection: (handler: (wakeWord: string) => void) => unknown;
+  initialize: (config: {
+    wakeWords: string[];
+    modelPath: string;
+    sensitivity: number;
+    speakThrough: boolean;
+  }) => Promise<void>;
+  startListening: () => Promise<void>;
+  cleanup: () => Promise<void>;
+}
+
+export interface EvaluationOptions {
+  wakeWords: string[];
+  createService: (recognizer: FixtureRecognizer) => EvaluatedService;
+  sensitivity?: number; // Default 0.5
+  speakThrough?: boolean; // Default true
+}
+
+export interface WakeWordScore {
+  tp: number;
+  fp: number;
+  fn: number;
+  precision: number | null; // null = never detected
+  recall: number | null; // null = no fixtures for this wake word
+}
+
+export interface EvaluationReport {
+  sensitivity: number;
+  words: Record<string, WakeWordScore>;
+  results: { name: string; expected: string | null; detected: string | null }[];
+}
+
+type RecognizerPayload = {
+  text?: string;
+  partial?: string;
+  result?: { word?: string }[];
+  partial_result?: { word?: string }[];
+};
+
+const NO_WAKE_WORD = 'none';
+export const FIXTURES_DIR = path.join(__dirname, 'fixtures', 'wake-word');
+
+// Set by npm run eval:wake-word
+export const PRINT_REPORT = process.env.WAKE_WORD_REPORT === '1';
+
+// Words of the recognized text in a partial / result / final payload
+const wordsOf = (data: RecognizerEvent['data']): string[] => {
+  const parsed: string | RecognizerPayload =
+    typeof data === 'string' && data.startsWith('{') ? JSON.parse(data) : data;
+  if (typeof parsed === 'string') {
+    return parsed.split(/\s+/).filter(Boolean);
+  }
+  const words = [parsed.text, parsed.partial].filter(Boolean).join(' ').split(/\s+/);
+  const details = [...(parsed.result || []), ...(parsed.partial_result || [])].map((detail) => detail.word);
+  return [...words, ...details].filter((word): word is string => !!word);
+};
+
+/**
+ * Recognizer that stands in for react-native-vosk and emits fixture events.
+ * Like Vosk in grammar mode it can't come up with words outside the
+ * grammar it was started with, fixtures that do are rejected.
+ */
+export function createFixtureRecognizer(): FixtureRecognizer {
+  const handlers: Record<string, ((data: string) => void)[]> = { partial: [], result: [], final: [], error: [] };
+  const recognizer: FixtureRecognizer = {
+    grammar: null,
+    loadModel: async () => {},
+    start: async (options) => {
+      recognizer.grammar = options.grammar;
+    },
+    stop: () => {},
+    unload: () => {},
+    onPartialResult: (handler) => handlers.partial.push(handler),
+    onResult: (handler) => handlers.result.push(handler),
+    onFinalResult: (handler) => handlers.final.push(handler),
+    onError: (handler) => handlers.error.push(handler),
+    emit: (event) => {
+      if (recognizer.grammar) {
+        const vocabulary = new Set(recognizer.grammar.flatMap((phrase) => phrase.split(/\s+/)));
+        const unknown = wordsOf(event.data).filter((word) => !vocabulary.has(word));
+        if (unknown.length > 0) {
+          throw new Error(`Words outside the grammar in a ${event.type} event: ${unknown.join(', ')}`);
+        }
+      }
+      const data = typeof event.data === 'string' ? event.data : JSON.stringify(event.data);
+      (handlers[event.type] || []).forEach((handler) => handler(data));
+    },
+  };
+  return recognizer;
+}
+
+/**
+ * Read the fixtures below `dir` (default: the ones the test uses)
+ */
+export async function loadFixtures(
+  dir: string = FIXTURES_DIR,
+  options: { transcribe?: (wavPath: string) => Promise<RecognizerEvent[]> } = {},
+): Promise<{ fixtures: WakeWordFixture[]; skipped: string[] }> {
+  const fixtures: WakeWordFixture[] = [];
+  const skipped: string[] = [];
+
+  for (const label of fs.readdirSync(dir).sort()) {
+    const labelDir = path.join(dir, label);
+    if (!fs.statSync(labelDir).isDirectory()) {
+      continue;
+    }
+    const expected = label === NO_WAKE_WORD ? null : label.replace(/-/g, ' ');
+
+    for (const file of fs.readdirSync(labelDir).sort()) {
+      const filePath = path.join(labelDir, file);
+      const name = `${label}/${file}`;
+
+      if (file.endsWith('.json')) {
+        const fixture = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+        fixtures.push({ name, expected, description: fixture.description, events: fixture.events });
+      } else if (file.endsWith('.wav')) {
+        if (!options.transcribe) {
+          skipped.push(name);
+          continue;
+        }
+        fixtures.push({ name, expected, events: await options.transcribe(filePath) });
+      }
+    }
+  }
+
+  return { fixtures, skipped };
+}
+
+const ratio = (hits: number, total: number): number | null => (total > 0 ? hits / total : null);
+
+/**
+ * Run every fixture through a fresh detector and score the first
+ * wake word it reported against the label
+ */
+export async function evaluate(
+  fixtures: WakeWordFixture[],
+  options: EvaluationOptions,
+): Promise<EvaluationReport> {
+  const { wakeWords, createService, sensitivity = 0.5, speakThrough = true } = options;
+  const results: EvaluationReport['results'] = [];
+
+  for (const fixture of fixtures) {
+    const recognizer = createFixtureRecognizer();
+    const service = createService(recognizer);
+    const detected: string[] = [];
+    service.onDetection((wakeWord) => detected.push(wakeWord));
+
+    await service.initialize({ wakeWords, modelPath: 'fixtures', sensitivity, speakThrough });
+    await service.startListening();
+    try {
+      fixture.events.forEach((event) => recognizer.emit(event));
+    } catch (error) {
+      throw new Error(`${fixture.name}: ${(error as Error).message}`);
+    }
+    await service.cleanup();
+
+    results.push({
+      name: fixture.name,
+      expected: fixture.expected,
+      detected: detected[0] || null,
+    });
+  }
+
+  const words: Record<string, WakeWordScore> = {};
+  for (const wakeWord of wakeWords) {
+    const tp = results.filter((r) => r.expected === wakeWord && r.detected === wakeWord).length;
+    const fp = results.filter((r) => r.expected !== wakeWord && r.detected === wakeWord).length;
+    const fn = results.filter((r) => r.expected === wakeWord && r.detected !== wakeWord).length;
+    words[wakeWord] = { tp, fp, fn, precision: ratio(tp, tp + fp), recall: ratio(tp, tp + fn) };
+  }
+
+  return { sensitivity, words, results };
+}
+
+/**
+ * Report as a table, with the fixtures that went wrong
+ */
+export function formatReport(report: EvaluationReport): string {
+  const percent = (value: number | null) => (value === null ? '-' : `${Math.round(value * 100)}%`);
+  const lines = [
+    `Wake word evaluation (sensitivity ${report.sensitivity})`,
+    'wake word        precision  recall  tp  fp  fn',
+  ];
+  for (const [wakeWord, score] of Object.entries(report.words)) {
+    lines.push(
+      [
+        wakeWord.padEnd(16),
+        percent(score.precision).padStart(9),
+        percent(score.recall).padStart(7),
+        String(score.tp).padStart(3),
+        String(score.fp).padStart(3),
+        String(score.fn).padStart(3),
+      ].join(' '),
+    );
+  }
+
+  const wrong = report.results.filter((r) => r.detected !== r.expected);
+  if (wrong.length > 0) {
+    lines.push('', 'Mismatches:');
+    wrong.forEach((r) => {
+      lines.push(`  ${r.name}: expected ${r.expected || NO_WAKE_WORD}, got ${r.detected || NO_WAKE_WORD}`);
+    });
+  }
+  return lines.join('\n');
+}
@@ -3,7 +3,12 @@
  */
 
 import { AppRegistry } from 'react-native';
+import notifee from '@notifee/react-native';
 import App from './App';
 import { name as appName } from './app.json';
+import { notificationService } from './src/services/NotificationService';
+
+// Message notification taps while the app is in the background
+notifee.onBackgroundEvent(async (event) => notificationService.handleEvent(event));
 
 AppRegistry.registerComponent(appName, () => App);
@@ -1,3 +1,5 @@
 module.exports = {
   preset: 'react-native',
+  // Helpers and fixtures next to the tests aren't suites
+  testMatch: ['**/__tests__/**/*.test.[jt]s?(x)'],
 };
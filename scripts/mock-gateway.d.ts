@@ -0,0 +1,47 @@
+/**
+ * Types for the mock OpenClaw gateway (mock-gateway.js)
+ */
+
+export type MockScenario =
+  | 'default'
+  | 'auth-failure'
+  | 'slow'
+  | 'drop-on-send'
+  | 'drop-after-accept'
+  | 'malformed'
+  | 'no-pong';
+
+export interface MockGatewayOptions {
+  port?: number; // 0 = pick a free port
+  token?: string;
+  scenario?: MockScenario;
+  delayMs?: number;
+  deltaIntervalMs?: number;
+  reply?: (message: string, params: Record<string, unknown>) => string;
+  quiet?: boolean;
+}
+
+export interface MockRequestFrame {
+  type: 'req';
+  id: string;
+  method: string;
+  params?: any;
+}
+
+export interface MockGateway {
+  port: number;
+  url: string;
+  token: string;
+  received: MockRequestFrame[];
+  setScenario: (scenario: MockScenario) => void;
+  broadcast: (frame: unknown) => void;
+  dropConnections: () => void;
+  clientCount: () => number;
+  requestApproval: (command: string, request?: Record<string, unknown>) => string;
+  approvalDecision: (approvalId: string) => string | null;
+  close: () => Promise<void>;
+}
+
+export const SCENARIOS: MockScenario[];
+
+export function createMockGateway(options?: MockGatewayOptions): Promise<MockGateway>;
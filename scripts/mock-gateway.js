@@ -0,0 +1,362 @@
+#!/usr/bin/env node
+/**
+ * Mock OpenClaw Gateway
+ *
+ * A small stand-in for the real gateway, for development and the
+ * integration tests. Speaks the frames WebSocketService uses:
+ * req/res/event, connect auth, chat.send with streamed chat events
+ * (delta/final, runId, duplicates dropped by idempotency key), chat.abort, chat.history, sessions.list,
+ * agent lifecycle events, exec approvals and ping/pong.
+ *
+ * Scenarios script misbehaviour:
+ *   default       - answers everything
+ *   auth-failure  - rejects every connect (as with a wrong token)
+ *   slow          - answers every request after `delayMs`
+ *   drop-on-send  - drops the socket when a chat.send arrives
+ *   drop-after-accept - accepts a chat.send, then drops the socket before answering
+ *   malformed     - sends broken frames before every reply
+ *   no-pong       - never answers pings
+ *
+ * Usage: node scripts/mock-gateway.js [--port 18789] [--token dev-token]
+ *        [--scenario default] [--delay 3000]
+ */
+
+const { WebSocketServer } = require('ws');
+
+const SCENARIOS = [
+  'default',
+  'auth-failure',
+  'slow',
+  'drop-on-send',
+  'drop-after-accept',
+  'malformed',
+  'no-pong',
+];
+
+const DEFAULTS = {
+  port: 18789,
+  token: 'dev-token',
+  scenario: 'default',
+  delayMs: 3000, // Response delay in the slow scenario
+  deltaIntervalMs: 50, // Time between streamed deltas
+  reply: (message) => `You said: ${message}`,
+};
+
+const MALFORMED_FRAMES = [
+  'this is not json',
+  JSON.stringify({ type: 'bogus' }),
+  JSON.stringify({ type: 'res' }), // Missing id
+  JSON.stringify({ type: 'event', event: 'chat', payload: { state: 'exploded' } }),
+  JSON.stringify({ type: 'event', event: 'pong', payload: { ts: 'yesterday' } }),
+];
+
+/**
+ * Start a mock gateway. Resolves once it is listening.
+ */
+function createMockGateway(options = {}) {
+  const config = { ...DEFAULTS, ...options };
+  let scenario = config.scenario;
+  let runCounter = 0;
+  let approvalCounter = 0;
+
+  const sockets = new Set();
+  const received = []; // Every request frame, for assertions
+  const transcripts = new Map(); // sessionKey -> messages
+  const runs = new Map(); // runId -> { timer, sessionKey, socket }
+  const timers = new Set(); // Delayed requests of the slow scenario
+  const approvals = new Map(); // id -> decision (null while pending)
+  const accepted = new Map(); // idempotencyKey -> runId of the chat.send
+
+  const wss = new WebSocketServer({ port: config.port });
+
+  const log = (...args) => {
+    if (!config.quiet) {
+      console.log('[MockGateway]', ...args);
+    }
+  };
+
+  const send = (socket, frame) => {
+    if (socket.readyState === socket.OPEN) {
+      socket.send(typeof frame === 'string' ? frame : JSON.stringify(frame));
+    }
+  };
+
+  const respond = (socket, id, payload) => send(socket, { type: 'res', id, ok: true, payload });
+
+  const fail = (socket, id, code, message) => {
+    send(socket, { type: 'res', id, ok: false, error: { code, message } });
+  };
+
+  const event = (socket, name, payload) => send(socket, { type: 'event', event: name, payload });
+
+  const transcript = (sessionKey) => {
+    if (!transcripts.has(sessionKey)) {
+      transcripts.set(sessionKey, []);
+    }
+    return transcripts.get(sessionKey);
+  };
+
+  // Stream the reply word by word, every delta carries the text so far
+  const streamReply = (socket, runId, sessionKey, text) => {
+    const words = text.split(' ');
+    let seq = 0;
+    let count = 0;
+
+    event(socket, 'agent', { runId, sessionKey, seq: seq++, stream: 'lifecycle', ts: Date.now(), data: { phase: 'start' } });
+
+    const tick = () => {
+      count++;
+      const partial = words.slice(0, count).join(' ');
+      if (count < words.length) {
+        event(socket, 'chat', {
+          runId,
+          sessionKey,
+          seq: seq++,
+          state: 'delta',
+          message: { role: 'assistant', content: [{ type: 'text', text: partial }], timestamp: Date.now() },
+        });
+        runs.get(runId).timer = setTimeout(tick, config.deltaIntervalMs);
+        return;
+      }
+
+      const message = {
+        id: `msg-${runId}`,
+        role: 'assistant',
+        content: [{ type: 'text', text }],
+        timestamp: Date.now(),
+      };
+      transcript(sessionKey).push(message);
+      runs.delete(runId);
+      event(socket, 'agent', { runId, sessionKey, seq: seq++, stream: 'lifecycle', ts: Date.now(), data: { phase: 'end' } });
+      event(socket, 'chat', { runId, sessionKey, seq: seq++, state: 'final', message });
+    };
+
+    runs.set(runId, { timer: setTimeout(tick, config.deltaIntervalMs), sessionKey, socket });
+  };
+
+  const handleRequest = (socket, frame) => {
+    const { id, method, params = {} } = frame;
+    received.push(frame);
+    log('Request:', method, id);
+
+    if (method !== 'connect' && !socket.authenticated) {
+      fail(socket, id, 'UNAUTHORIZED', 'connect first');
+      return;
+    }
+
+    if (scenario === 'malformed') {
+      MALFORMED_FRAMES.forEach((raw) => send(socket, raw));
+    }
+
+    switch (method) {
+      case 'connect': {
+        if (scenario === 'auth-failure' || params.auth?.token !== config.token) {
+          fail(socket, id, 'UNAUTHORIZED', 'invalid token');
+          socket.close(1008, 'unauthorized');
+          return;
+        }
+        socket.authenticated = true;
+        respond(socket, id, {
+          protocol: 3,
+          server: { version: 'mock', host: 'localhost' },
+          features: {
+            methods: ['chat.send', 'chat.abort', 'chat.history', 'sessions.list', 'exec.approval.resolve'],
+            events: ['chat', 'agent', 'pong', 'exec.approval.requested', 'exec.approval.resolved'],
+          },
+        });
+        return;
+      }
+
+      case 'chat.send': {
+        if (scenario === 'drop-on-send') {
+          log('Dropping socket (drop-on-send)');
+          socket.terminate();
+          return;
+        }
+        if (accepted.has(params.idempotencyKey)) {
+          // A replay of a message we already have
+          log('Duplicate chat.send:', params.idempotencyKey);
+          respond(socket, id, { runId: accepted.get(params.idempotencyKey), status: 'in_flight' });
+          return;
+        }
+        const runId = `run-${++runCounter}`;
+        accepted.set(params.idempotencyKey, runId);
+        transcript(params.sessionKey).push({
+          id: params.idempotencyKey,
+          role: 'user',
+          content: [{ type: 'text', text: params.message }],
+          timestamp: Date.now(),
+        });
+        if (scenario === 'drop-after-accept') {
+          log('Dropping socket (drop-after-accept)');
+          socket.terminate();
+          return;
+        }
+        respond(socket, id, { runId, status: 'started' });
+        streamReply(socket, runId, params.sessionKey, config.reply(params.message, params));
+        return;
+      }
+
+      case 'chat.abort': {
+        const aborted = [...runs.entries()].filter(
+          ([runId, run]) =>
+            run.sessionKey === params.sessionKey && (!params.runId || params.runId === runId)
+        );
+        aborted.forEach(([runId, run]) => {
+          clearTimeout(run.timer);
+          runs.delete(runId);
+          event(run.socket, 'chat', { runId, sessionKey: run.sessionKey, state: 'aborted' });
+        });
+        respond(socket, id, { aborted: aborted.length > 0 });
+        return;
+      }
+
+      case 'chat.history': {
+        const messages = transcript(params.sessionKey)
+          .filter((message) => !params.before || message.timestamp < params.before)
+          .slice(-(params.limit || 50));
+        respond(socket, id, { sessionKey: params.sessionKey, messages });
+        return;
+      }
+
+      case 'sessions.list': {
+        const sessions = [...transcripts.keys()].map((key) => ({ key, updatedAt: Date.now() }));
+        respond(socket, id, { sessions });
+        return;
+      }
+
+      case 'exec.approval.resolve': {
+        if (!approvals.has(params.id) || approvals.get(params.id) !== null) {
+          fail(socket, id, 'NOT_FOUND', `unknown or settled approval ${params.id}`);
+          return;
+        }
+        approvals.set(params.id, params.decision);
+        respond(socket, id, { ok: true });
+        sockets.forEach((client) =>
+          event(client, 'exec.approval.resolved', { id: params.id, decision: params.decision, resolvedBy: 'mock' })
+        );
+        return;
+      }
+
+      default:
+        fail(socket, id, 'UNKNOWN_METHOD', `unknown method ${method}`);
+    }
+  };
+
+  wss.on('connection', (socket) => {
+    sockets.add(socket);
+    log('Client connected');
+
+    socket.on('message', (data) => {
+      let frame;
+      try {
+        frame = JSON.parse(String(data));
+      } catch {
+        log('Ignoring non-JSON frame');
+        return;
+      }
+
+      if (frame.type === 'req') {
+        if (scenario === 'slow') {
+          const timer = setTimeout(() => {
+            timers.delete(timer);
+            handleRequest(socket, frame);
+          }, config.delayMs);
+          timers.add(timer);
+        } else {
+          handleRequest(socket, frame);
+        }
+      } else if (frame.type === 'event' && frame.event === 'ping') {
+        if (scenario !== 'no-pong') {
+          event(socket, 'pong', { ts: frame.payload?.ts });
+        }
+      }
+    });
+
+    socket.on('close', () => {
+      sockets.delete(socket);
+      // Runs of a dropped client stop streaming
+      runs.forEach((run, runId) => {
+        if (run.socket === socket) {
+          clearTimeout(run.timer);
+          runs.delete(runId);
+        }
+      });
+      log('Client disconnected');
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    wss.once('error', reject);
+    wss.once('listening', () => {
+      const { port } = wss.address();
+      log(`Listening on ws://localhost:${port} (scenario: ${scenario})`);
+      resolve({
+        port,
+        url: `ws://localhost:${port}`,
+        token: config.token,
+        received,
+        setScenario: (name) => {
+          scenario = name;
+        },
+        // Send any frame to every client (e.g. events for other sessions)
+        broadcast: (frame) => sockets.forEach((socket) => send(socket, frame)),
+        // Kill every connection without a close handshake
+        dropConnections: () => sockets.forEach((socket) => socket.terminate()),
+        clientCount: () => sockets.size,
+        // Ask every client to approve a command, returns the approval id
+        requestApproval: (command, request = {}) => {
+          const approvalId = `approval-${++approvalCounter}`;
+          approvals.set(approvalId, null);
+          const now = Date.now();
+          sockets.forEach((socket) =>
+            event(socket, 'exec.approval.requested', {
+              id: approvalId,
+              request: { command, host: 'gateway', ...request },
+              createdAtMs: now,
+              expiresAtMs: now + 120000,
+            })
+          );
+          return approvalId;
+        },
+        // Decision sent for an approval (null while pending)
+        approvalDecision: (approvalId) => approvals.get(approvalId) ?? null,
+        close: () =>
+          new Promise((done) => {
+            runs.forEach((run) => clearTimeout(run.timer));
+            runs.clear();
+            timers.forEach((timer) => clearTimeout(timer));
+            timers.clear();
+            sockets.forEach((socket) => socket.terminate());
+            wss.close(() => done());
+          }),
+      });
+    });
+  });
+}
+
+module.exports = { createMockGateway, SCENARIOS };
+
+// Run from the command line
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  const arg = (name) => {
+    const index = args.indexOf(`--${name}`);
+    return index === -1 ? undefined : args[index + 1];
+  };
+
+  const scenario = arg('scenario') || DEFAULTS.scenario;
+  if (!SCENARIOS.includes(scenario)) {
+    console.error(`Unknown scenario "${scenario}", expected one of: ${SCENARIOS.join(', ')}`);
+    process.exit(1);
+  }
+
+  createMockGateway({
+    port: Number(arg('port') || DEFAULTS.port),
+    token: arg('token') || DEFAULTS.token,
+    delayMs: Number(arg('delay') || DEFAULTS.delayMs),
+    scenario,
+  }).then((gateway) => {
+    console.log(`[MockGateway] Pair with http://localhost:${gateway.port}/?token=${gateway.token}`);
+  });
+}
@@ -0,0 +1,137 @@
+/**
+ * Approval Card Component
+ * Command the agent wants to run, with approve / deny buttons and
+ * the time left before it is denied
+ */
+
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { COLORS } from '../constants';
+import type { ExecApprovalDecision, PendingApproval } from '../types';
+
+interface ApprovalCardProps {
+  approval: PendingApproval;
+  queued: number; // Further approvals waiting behind this one
+  isListening: boolean; // Listening for a spoken "yes" / "no"
+  onDecide: (id: string, decision: ExecApprovalDecision) => void;
+}
+
+const secondsLeft = (expiresAt: number): number =>
+  Math.max(0, Math.ceil((expiresAt - Date.now()) / 1000));
+
+export const ApprovalCard: React.FC<ApprovalCardProps> = ({
+  approval,
+  queued,
+  isListening,
+  onDecide,
+}) => {
+  const [remaining, setRemaining] = useState(secondsLeft(approval.expiresAt));
+
+  useEffect(() => {
+    setRemaining(secondsLeft(approval.expiresAt));
+    const interval = setInterval(() => setRemaining(secondsLeft(approval.expiresAt)), 1000);
+    return () => clearInterval(interval);
+  }, [approval.expiresAt]);
+
+  const details = [approval.host, approval.cwd, approval.agentId && `agent ${approval.agentId}`]
+    .filter(Boolean)
+    .join(' · ');
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.header}>
+        <Text style={styles.title}>⚠️ Approval needed</Text>
+        <Text style={styles.countdown}>
+          Denied in {remaining}s{queued > 0 ? ` · ${queued} more waiting` : ''}
+        </Text>
+      </View>
+
+      <Text style={styles.command} selectable>{approval.command}</Text>
+      {details ? <Text style={styles.details}>{details}</Text> : null}
+
+      {isListening && <Text style={styles.hint}>🎤 Say "yes" or "no"</Text>}
+
+      <View style={styles.buttons}>
+        <TouchableOpacity
+          style={[styles.button, styles.denyButton]}
+          onPress={() => onDecide(approval.id, 'deny')}
+        >
+          <Text style={styles.buttonText}>Deny</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.button, styles.approveButton]}
+          onPress={() => onDecide(approval.id, 'allow-once')}
+        >
+          <Text style={styles.buttonText}>Approve</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    marginHorizontal: 16,
+    marginBottom: 12,
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: COLORS.warning,
+    backgroundColor: COLORS.surface,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: COLORS.warning,
+  },
+  countdown: {
+    fontSize: 12,
+    color: COLORS.textSecondary,
+  },
+  command: {
+    fontSize: 14,
+    color: COLORS.text,
+    fontFamily: 'monospace',
+    backgroundColor: COLORS.background,
+    borderRadius: 6,
+    padding: 8,
+  },
+  details: {
+    fontSize: 12,
+    color: COLORS.textSecondary,
+    marginTop: 6,
+  },
+  hint: {
+    fontSize: 13,
+    color: COLORS.listening,
+    marginTop: 8,
+  },
+  buttons: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 12,
+  },
+  button: {
+    flex: 1,
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  denyButton: {
+    backgroundColor: COLORS.error,
+  },
+  approveButton: {
+    backgroundColor: COLORS.success,
+  },
+  buttonText: {
+    color: COLORS.text,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
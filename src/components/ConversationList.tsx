@@ -3,49 +3,82 @@
  * Shows history of messages between user and assistant
  */
 
-import React, { useRef, useEffect } from 'react';
+import React, { useRef, useEffect, useState } from 'react';
 import {
   View,
   Text,
   FlatList,
   StyleSheet,
   TouchableOpacity,
+  ActivityIndicator,
+  Image,
 } from 'react-native';
-import { useConversation } from '../store';
+import { useConversation, useRunActivity } from '../store';
+import { toFileUri } from '../services/Attachments';
 import { COLORS } from '../constants';
-import type { ConversationItem } from '../types';
+import type { ConversationItem, RunActivity, ActivityStep } from '../types';
 
 interface Props {
   onPlayAudio?: (audioUrl: string) => void;
+  onRetryMessage?: (id: string) => void;
+  onDiscardMessage?: (id: string) => void;
+  onLoadOlder?: () => void;
+  isLoadingOlder?: boolean;
+  focusMessageId?: string | null; // Scroll to and highlight this message (e.g. opened from a notification)
+  onFocusHandled?: () => void;
 }
 
+// How long a focused message stays highlighted
+const HIGHLIGHT_MS = 2500;
+
 const MessageBubble: React.FC<{
   item: ConversationItem;
   onPlayAudio?: (audioUrl: string) => void;
-}> = ({ item, onPlayAudio }) => {
+  onRetryMessage?: (id: string) => void;
+  onDiscardMessage?: (id: string) => void;
+  isHighlighted?: boolean;
+}> = ({ item, onPlayAudio, onRetryMessage, onDiscardMessage, isHighlighted }) => {
   const isUser = item.type === 'user';
   const hasAudio = !!item.audioUrl;
+  const isQueued = item.status === 'pending' || item.status === 'failed';
 
   const formatTime = (timestamp: number): string => {
     const date = new Date(timestamp);
     return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
   };
 
+  const formatDuration = (durationMs: number): string => {
+    const seconds = Math.round(durationMs / 1000);
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+  };
+
   return (
     <View
       style={[
         styles.messageBubble,
         isUser ? styles.userBubble : styles.assistantBubble,
+        isQueued && styles.queuedBubble,
+        isHighlighted && styles.highlightedBubble,
       ]}
     >
-      <Text
-        style={[
-          styles.messageText,
-          isUser ? styles.userText : styles.assistantText,
-        ]}
-      >
-        {item.content}
-      </Text>
+      {item.imageUrls && item.imageUrls.length > 0 && (
+        <View style={styles.imageRow}>
+          {item.imageUrls.map((url) => (
+            <Image key={url} source={{ uri: toFileUri(url) }} style={styles.image} />
+          ))}
+        </View>
+      )}
+
+      {(!!item.content || hasAudio) && (
+        <Text
+          style={[
+            styles.messageText,
+            isUser ? styles.userText : styles.assistantText,
+          ]}
+        >
+          {item.content || '🎙️ Voice note'}
+        </Text>
+      )}
       
       <View style={styles.messageFooter}>
         {hasAudio && (
@@ -58,24 +91,124 @@ const MessageBubble: React.FC<{
             </Text>
           </TouchableOpacity>
         )}
+        {item.audioDurationMs !== undefined && (
+          <Text style={styles.statusText}>{formatDuration(item.audioDurationMs)}</Text>
+        )}
+        {item.status === 'pending' && (
+          <Text style={styles.statusText}>⏳ Queued</Text>
+        )}
+        {item.status === 'failed' && (
+          <Text style={[styles.statusText, styles.failedText]}>⚠️ Not sent</Text>
+        )}
+        {item.status === 'aborted' && (
+          <Text style={styles.statusText}>⏹️ Stopped</Text>
+        )}
         <Text style={styles.timestamp}>{formatTime(item.timestamp)}</Text>
       </View>
+
+      {isQueued && (
+        <View style={styles.queueActions}>
+          <TouchableOpacity
+            style={styles.queueButton}
+            onPress={() => onRetryMessage?.(item.id)}
+          >
+            <Text style={styles.queueButtonText}>Retry</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.queueButton}
+            onPress={() => onDiscardMessage?.(item.id)}
+          >
+            <Text style={styles.queueButtonText}>Discard</Text>
+          </TouchableOpacity>
+        </View>
+      )}
     </View>
   );
 };
 
-export const ConversationList: React.FC<Props> = ({ onPlayAudio }) => {
+const STEP_ICONS: Record<ActivityStep['status'], string> = {
+  running: '⏳',
+  done: '✓',
+  error: '⚠️',
+};
+
+// What the agent is doing while a reply is running
+const ActivityCard: React.FC<{ activity: RunActivity }> = ({ activity }) => {
+  const running = activity.steps.some((step) => step.status === 'running');
+
+  return (
+    <View style={styles.activityCard}>
+      <View style={styles.activityHeader}>
+        <ActivityIndicator size="small" color={COLORS.textSecondary} />
+        <Text style={styles.activityTitle}>
+          {running ? 'Working...' : 'Thinking...'}
+        </Text>
+      </View>
+      {activity.steps.map((step) => (
+        <Text
+          key={step.id}
+          style={[styles.activityStep, step.status !== 'running' && styles.activityStepDone]}
+        >
+          {STEP_ICONS[step.status]} {step.label}
+          {step.status === 'running' ? '…' : ''}
+        </Text>
+      ))}
+    </View>
+  );
+};
+
+export const ConversationList: React.FC<Props> = ({
+  onPlayAudio,
+  onRetryMessage,
+  onDiscardMessage,
+  onLoadOlder,
+  isLoadingOlder,
+  focusMessageId,
+  onFocusHandled,
+}) => {
   const conversation = useConversation();
+  const runActivity = useRunActivity();
   const flatListRef = useRef<FlatList>(null);
+  const lastMessageId = conversation[conversation.length - 1]?.id;
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
 
-  // Auto-scroll to bottom on new messages
+  // Auto-scroll to bottom on new messages (not when older history is prepended)
   useEffect(() => {
-    if (conversation.length > 0 && flatListRef.current) {
+    if (lastMessageId && flatListRef.current) {
       flatListRef.current.scrollToEnd({ animated: true });
     }
-  }, [conversation.length]);
+  }, [lastMessageId]);
+
+  // Keep new activity steps in view
+  const activityStepCount = runActivity?.steps.length ?? 0;
+  useEffect(() => {
+    if (activityStepCount > 0 && flatListRef.current) {
+      flatListRef.current.scrollToEnd({ animated: true });
+    }
+  }, [activityStepCount]);
+
+  // Bring a message into view, e.g. the one a notification was about
+  useEffect(() => {
+    if (!focusMessageId) {
+      return;
+    }
+    const index = conversation.findIndex((item) => item.id === focusMessageId);
+    if (index !== -1 && flatListRef.current) {
+      flatListRef.current.scrollToIndex({ index, animated: true, viewPosition: 0.5 });
+      setHighlightedId(focusMessageId);
+    }
+    onFocusHandled?.();
+  }, [focusMessageId, conversation, onFocusHandled]);
+
+  useEffect(() => {
+    if (!highlightedId) {
+      return;
+    }
+    const timeout = setTimeout(() => setHighlightedId(null), HIGHLIGHT_MS);
+    return () => clearTimeout(timeout);
+  }, [highlightedId]);
 
-  if (conversation.length === 0) {
+  if (conversation.length === 0 && !runActivity) {
     return (
       <View style={styles.emptyContainer}>
         <Text style={styles.emptyIcon}>💬</Text>
@@ -93,10 +226,32 @@ export const ConversationList: React.FC<Props> = ({ onPlayAudio }) => {
       data={conversation}
       keyExtractor={(item) => item.id}
       renderItem={({ item }) => (
-        <MessageBubble item={item} onPlayAudio={onPlayAudio} />
+        <MessageBubble
+          item={item}
+          onPlayAudio={onPlayAudio}
+          onRetryMessage={onRetryMessage}
+          onDiscardMessage={onDiscardMessage}
+          isHighlighted={item.id === highlightedId}
+        />
       )}
       contentContainerStyle={styles.listContent}
       showsVerticalScrollIndicator={false}
+      onStartReached={onLoadOlder}
+      onStartReachedThreshold={0.2}
+      maintainVisibleContentPosition={{ minIndexForVisible: 0 }}
+      onScrollToIndexFailed={({ index, averageItemLength }) => {
+        // Not laid out yet: jump close to it, then try again
+        flatListRef.current?.scrollToOffset({ offset: index * averageItemLength, animated: false });
+        setTimeout(() => {
+          flatListRef.current?.scrollToIndex({ index, animated: true, viewPosition: 0.5 });
+        }, 100);
+      }}
+      ListHeaderComponent={
+        isLoadingOlder ? (
+          <ActivityIndicator color={COLORS.textSecondary} style={styles.loadingOlder} />
+        ) : null
+      }
+      ListFooterComponent={runActivity ? <ActivityCard activity={runActivity} /> : null}
     />
   );
 };
@@ -121,6 +276,51 @@ const styles = StyleSheet.create({
     backgroundColor: COLORS.surface,
     borderBottomLeftRadius: 4,
   },
+  activityCard: {
+    alignSelf: 'flex-start',
+    maxWidth: '80%',
+    padding: 12,
+    borderRadius: 16,
+    borderBottomLeftRadius: 4,
+    borderWidth: 1,
+    borderColor: COLORS.surfaceLight,
+    gap: 4,
+  },
+  activityHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  activityTitle: {
+    fontSize: 14,
+    color: COLORS.textSecondary,
+    fontStyle: 'italic',
+  },
+  activityStep: {
+    fontSize: 14,
+    color: COLORS.text,
+  },
+  activityStepDone: {
+    color: COLORS.textSecondary,
+  },
+  imageRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 4,
+    marginBottom: 6,
+  },
+  image: {
+    width: 96,
+    height: 96,
+    borderRadius: 8,
+  },
+  queuedBubble: {
+    opacity: 0.7,
+  },
+  highlightedBubble: {
+    borderWidth: 2,
+    borderColor: COLORS.warning,
+  },
   messageText: {
     fontSize: 16,
     lineHeight: 22,
@@ -148,6 +348,33 @@ const styles = StyleSheet.create({
     fontSize: 11,
     color: COLORS.textSecondary,
   },
+  statusText: {
+    fontSize: 11,
+    color: COLORS.text,
+  },
+  failedText: {
+    color: COLORS.warning,
+  },
+  queueActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 8,
+    gap: 8,
+  },
+  queueButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: COLORS.surfaceLight,
+  },
+  queueButtonText: {
+    fontSize: 12,
+    color: COLORS.text,
+    fontWeight: '600',
+  },
+  loadingOlder: {
+    paddingVertical: 8,
+  },
   emptyContainer: {
     flex: 1,
     alignItems: 'center',
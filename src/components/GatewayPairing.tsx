@@ -0,0 +1,225 @@
+/**
+ * Gateway Pairing Component
+ * Pair by pasting the Control UI URL or picking a QR code image,
+ * with a trial handshake before the connection is saved
+ */
+
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { launchImageLibrary } from 'react-native-image-picker';
+import {
+  parseControlUiUrl,
+  readQrCodeImage,
+  probeGateway,
+  PairingError,
+} from '../services/GatewayPairing';
+import type { PairingInfo, PairingErrorCode } from '../services/GatewayPairing';
+import { COLORS } from '../constants';
+import type { ConnectResult } from '../types';
+
+interface Props {
+  onPaired: (info: PairingInfo, hello: ConnectResult) => void;
+}
+
+type PairingStatus = 'idle' | 'scanning' | 'testing';
+
+const ERROR_TITLES: Record<PairingErrorCode, string> = {
+  invalid_url: 'Invalid URL',
+  unsupported_scheme: 'Invalid URL',
+  missing_token: 'Token Missing',
+  no_qr_code: 'No QR Code',
+  auth_failed: 'Authentication Failed',
+  unreachable: 'Gateway Unreachable',
+  protocol: 'Incompatible Gateway',
+  timeout: 'Gateway Unreachable',
+};
+
+export const GatewayPairing: React.FC<Props> = ({ onPaired }) => {
+  const [url, setUrl] = useState('');
+  const [status, setStatus] = useState<PairingStatus>('idle');
+  const [error, setError] = useState<{ title: string; message: string } | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const showError = (err: unknown) => {
+    if (err instanceof PairingError) {
+      setError({ title: ERROR_TITLES[err.code], message: err.message });
+    } else {
+      setError({ title: 'Pairing Failed', message: (err as Error)?.message || 'Unknown error' });
+    }
+  };
+
+  // Parse, then prove the token works before handing it on
+  const pair = async (info: PairingInfo) => {
+    setStatus('testing');
+    try {
+      const hello = await probeGateway(info);
+      const version = hello.server?.version ? ` (OpenClaw ${hello.server.version})` : '';
+      setSuccess(`Paired with ${info.host}${info.port ? `:${info.port}` : ''}${version}`);
+      setUrl('');
+      onPaired(info, hello);
+    } catch (err) {
+      showError(err);
+    } finally {
+      setStatus('idle');
+    }
+  };
+
+  const handlePair = () => {
+    setError(null);
+    setSuccess(null);
+    try {
+      pair(parseControlUiUrl(url));
+    } catch (err) {
+      showError(err);
+    }
+  };
+
+  const handleScanImage = async () => {
+    setError(null);
+    setSuccess(null);
+
+    const response = await launchImageLibrary({ mediaType: 'photo', selectionLimit: 1 });
+    const uri = response.assets?.[0]?.uri;
+    if (response.didCancel || !uri) {
+      if (response.errorMessage) {
+        setError({ title: 'Image Not Loaded', message: response.errorMessage });
+      }
+      return;
+    }
+
+    setStatus('scanning');
+    let info: PairingInfo;
+    try {
+      info = await readQrCodeImage(uri);
+    } catch (err) {
+      setStatus('idle');
+      showError(err);
+      return;
+    }
+    pair(info);
+  };
+
+  const busy = status !== 'idle';
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>Control UI URL</Text>
+      <TextInput
+        style={styles.input}
+        value={url}
+        onChangeText={setUrl}
+        placeholder="http://192.168.1.100:18789/?token=..."
+        placeholderTextColor={COLORS.textSecondary}
+        autoCapitalize="none"
+        autoCorrect={false}
+        keyboardType="url"
+        editable={!busy}
+      />
+
+      <View style={styles.buttonRow}>
+        <TouchableOpacity
+          style={[styles.button, styles.secondaryButton]}
+          onPress={handleScanImage}
+          disabled={busy}
+        >
+          <Text style={styles.buttonText}>📷 QR Image</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.button, (busy || !url.trim()) && styles.buttonDisabled]}
+          onPress={handlePair}
+          disabled={busy || !url.trim()}
+        >
+          {busy ? (
+            <ActivityIndicator color={COLORS.text} />
+          ) : (
+            <Text style={styles.buttonText}>🔗 Pair</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+
+      {status === 'testing' && <Text style={styles.hint}>Testing connection...</Text>}
+      {error && (
+        <View style={styles.errorBox}>
+          <Text style={styles.errorTitle}>⚠️ {error.title}</Text>
+          <Text style={styles.errorText}>{error.message}</Text>
+        </View>
+      )}
+      {success && <Text style={styles.successText}>✓ {success}</Text>}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 14,
+    color: COLORS.textSecondary,
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: COLORS.surface,
+    borderRadius: 8,
+    padding: 12,
+    color: COLORS.text,
+    fontSize: 16,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 8,
+  },
+  button: {
+    flex: 1,
+    backgroundColor: COLORS.primary,
+    borderRadius: 8,
+    padding: 12,
+    alignItems: 'center',
+  },
+  secondaryButton: {
+    backgroundColor: COLORS.surfaceLight,
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    color: COLORS.text,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  hint: {
+    fontSize: 12,
+    color: COLORS.textSecondary,
+    marginTop: 8,
+    fontStyle: 'italic',
+  },
+  errorBox: {
+    backgroundColor: COLORS.error + '20',
+    borderRadius: 8,
+    padding: 12,
+    marginTop: 8,
+  },
+  errorTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: COLORS.error,
+    marginBottom: 2,
+  },
+  errorText: {
+    fontSize: 13,
+    color: COLORS.text,
+  },
+  successText: {
+    fontSize: 13,
+    color: COLORS.success,
+    marginTop: 8,
+  },
+});
@@ -0,0 +1,147 @@
+/**
+ * Image Attachments Component
+ * Attach button and thumbnails of the images sent with the next message
+ */
+
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  Image,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { launchImageLibrary } from 'react-native-image-picker';
+import { useAppStore, usePendingImages } from '../store';
+import { saveAttachment, deleteAttachments, toFileUri } from '../services/Attachments';
+import { COLORS, ATTACHMENT_CONFIG } from '../constants';
+import type { OutboxAttachment } from '../types';
+
+export const ImageAttachments: React.FC = () => {
+  const images = usePendingImages();
+  const addPendingImages = useAppStore((state) => state.addPendingImages);
+  const removePendingImage = useAppStore((state) => state.removePendingImage);
+  const [isPicking, setIsPicking] = useState(false);
+
+  const remaining = ATTACHMENT_CONFIG.maxImages - images.length;
+
+  const handleAttach = async () => {
+    setIsPicking(true);
+    try {
+      const response = await launchImageLibrary({
+        mediaType: 'photo',
+        selectionLimit: remaining,
+        includeBase64: true,
+        maxWidth: ATTACHMENT_CONFIG.imageMaxSize,
+        maxHeight: ATTACHMENT_CONFIG.imageMaxSize,
+        quality: 0.8,
+      });
+      if (response.errorMessage) {
+        Alert.alert('Image Not Loaded', response.errorMessage);
+        return;
+      }
+
+      const assets = (response.assets || []).filter((asset) => asset.base64).slice(0, remaining);
+      const saved: OutboxAttachment[] = await Promise.all(
+        assets.map((asset, index) => {
+          const mimeType = asset.type || 'image/jpeg';
+          return saveAttachment(
+            `img-${Date.now()}-${index}`,
+            'image',
+            mimeType,
+            mimeType.split('/')[1] || 'jpg',
+            asset.base64!,
+          );
+        })
+      );
+      addPendingImages(saved);
+    } catch (error) {
+      console.error('[Attachments] Failed to attach images:', error);
+      Alert.alert('Image Not Loaded', (error as Error).message || 'Unknown error');
+    } finally {
+      setIsPicking(false);
+    }
+  };
+
+  const handleRemove = (image: OutboxAttachment) => {
+    removePendingImage(image.path);
+    deleteAttachments([image]);
+  };
+
+  return (
+    <View style={styles.container}>
+      {images.map((image) => (
+        <View key={image.path} style={styles.thumbnailContainer}>
+          <Image source={{ uri: toFileUri(image.path) }} style={styles.thumbnail} />
+          <TouchableOpacity style={styles.removeButton} onPress={() => handleRemove(image)}>
+            <Text style={styles.removeText}>✕</Text>
+          </TouchableOpacity>
+        </View>
+      ))}
+
+      {remaining > 0 && (
+        <TouchableOpacity
+          style={styles.attachButton}
+          onPress={handleAttach}
+          disabled={isPicking}
+        >
+          {isPicking ? (
+            <ActivityIndicator color={COLORS.textSecondary} />
+          ) : (
+            <Text style={styles.attachText}>🖼️</Text>
+          )}
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 16,
+  },
+  thumbnailContainer: {
+    width: 56,
+    height: 56,
+  },
+  thumbnail: {
+    width: 56,
+    height: 56,
+    borderRadius: 8,
+    backgroundColor: COLORS.surface,
+  },
+  removeButton: {
+    position: 'absolute',
+    top: -6,
+    right: -6,
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+    backgroundColor: COLORS.surfaceLight,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  removeText: {
+    color: COLORS.text,
+    fontSize: 11,
+  },
+  attachButton: {
+    width: 56,
+    height: 56,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: COLORS.surfaceLight,
+    borderStyle: 'dashed',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  attachText: {
+    fontSize: 22,
+  },
+});
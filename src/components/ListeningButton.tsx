@@ -12,7 +12,7 @@ import {
   Animated,
   Easing,
 } from 'react-native';
-import { useListeningState, useConnectionState } from '../store';
+import { useListeningState, useConnectionState, useActiveRunId } from '../store';
 import { COLORS } from '../constants';
 import type { ListeningState } from '../types';
 
@@ -47,17 +47,20 @@ const getButtonText = (state: ListeningState): string => {
   }
 };
 
-const getSubText = (state: ListeningState, connected: boolean): string => {
+const getSubText = (state: ListeningState, connected: boolean, replying: boolean): string => {
   if (!connected) {
     return 'Not connected';
   }
+  if (replying && state !== 'recording') {
+    return 'Hold to stop reply';
+  }
   switch (state) {
     case 'wake_word':
       return 'Say "Hey Claw"';
     case 'recording':
       return 'Listening...';
     case 'processing':
-      return 'Thinking...';
+      return 'Thinking... hold to stop';
     default:
       return 'Tap to start';
   }
@@ -67,6 +70,7 @@ export const ListeningButton: React.FC<Props> = ({ onPress, onLongPress }) => {
   const listeningState = useListeningState();
   const connectionState = useConnectionState();
   const isConnected = connectionState === 'connected';
+  const isReplying = useActiveRunId() !== null;
   
   // Animation values
   const pulseAnim = useRef(new Animated.Value(1)).current;
@@ -123,7 +127,7 @@ export const ListeningButton: React.FC<Props> = ({ onPress, onLongPress }) => {
 
   const buttonColor = getButtonColor(listeningState);
   const buttonText = getButtonText(listeningState);
-  const subText = getSubText(listeningState, isConnected);
+  const subText = getSubText(listeningState, isConnected, isReplying);
 
   return (
     <View style={styles.container}>
@@ -0,0 +1,143 @@
+/**
+ * Profile Switcher Component
+ * Shows the active gateway profile and switches to another one
+ */
+
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  ScrollView,
+} from 'react-native';
+import { useAppStore, useActiveProfile, useSettings } from '../store';
+import { COLORS } from '../constants';
+
+export const ProfileSwitcher: React.FC = () => {
+  const { profiles, activeProfileId } = useSettings();
+  const activeProfile = useActiveProfile();
+  const switchProfile = useAppStore((state) => state.switchProfile);
+  const [isOpen, setIsOpen] = useState(false);
+
+  // Nothing to switch between
+  if (profiles.length === 0) {
+    return null;
+  }
+
+  const handleSelect = (id: string) => {
+    setIsOpen(false);
+    switchProfile(id);
+  };
+
+  return (
+    <>
+      <TouchableOpacity style={styles.chip} onPress={() => setIsOpen(true)}>
+        <Text style={styles.chipText} numberOfLines={1}>
+          🗂️ {activeProfile?.name || 'No profile'} ▾
+        </Text>
+      </TouchableOpacity>
+
+      <Modal
+        visible={isOpen}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setIsOpen(false)}
+      >
+        <TouchableOpacity
+          style={styles.backdrop}
+          activeOpacity={1}
+          onPress={() => setIsOpen(false)}
+        >
+          <View style={styles.sheet}>
+            <Text style={styles.sheetTitle}>Switch Profile</Text>
+            <ScrollView>
+              {profiles.map((profile) => {
+                const active = profile.id === activeProfileId;
+                return (
+                  <TouchableOpacity
+                    key={profile.id}
+                    style={[styles.profileRow, active && styles.profileRowActive]}
+                    onPress={() => handleSelect(profile.id)}
+                  >
+                    <View style={styles.profileInfo}>
+                      <Text style={styles.profileName}>{profile.name}</Text>
+                      <Text style={styles.profileMeta} numberOfLines={1}>
+                        {profile.gatewayUrl} • {profile.sessionKey}
+                      </Text>
+                    </View>
+                    {active && <Text style={styles.activeText}>●</Text>}
+                  </TouchableOpacity>
+                );
+              })}
+            </ScrollView>
+          </View>
+        </TouchableOpacity>
+      </Modal>
+    </>
+  );
+};
+
+const styles = StyleSheet.create({
+  chip: {
+    backgroundColor: COLORS.surface,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    maxWidth: 180,
+  },
+  chipText: {
+    color: COLORS.text,
+    fontSize: 14,
+  },
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  sheet: {
+    backgroundColor: COLORS.background,
+    borderRadius: 16,
+    padding: 16,
+    maxHeight: '70%',
+  },
+  sheetTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: COLORS.text,
+    marginBottom: 12,
+  },
+  profileRow: {
+    backgroundColor: COLORS.surface,
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 8,
+    borderWidth: 2,
+    borderColor: 'transparent',
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  profileRowActive: {
+    borderColor: COLORS.primary,
+  },
+  profileInfo: {
+    flex: 1,
+  },
+  profileName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.text,
+  },
+  profileMeta: {
+    fontSize: 12,
+    color: COLORS.textSecondary,
+    marginTop: 2,
+  },
+  activeText: {
+    fontSize: 14,
+    color: COLORS.primary,
+    marginLeft: 8,
+  },
+});
@@ -3,11 +3,11 @@
  * Shows current connection and listening status
  */
 
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { View, Text, StyleSheet } from 'react-native';
-import { useConnectionState, useListeningState } from '../store';
+import { useConnectionState, useListeningState, useReconnectInfo, useLatency } from '../store';
 import { COLORS } from '../constants';
-import type { ConnectionState, ListeningState } from '../types';
+import type { ConnectionState, ListeningState, ReconnectInfo } from '../types';
 
 const getConnectionColor = (state: ConnectionState): string => {
   switch (state) {
@@ -35,6 +35,32 @@ const getConnectionText = (state: ConnectionState): string => {
   }
 };
 
+const getReconnectText = (info: ReconnectInfo, now: number): string => {
+  if (info.waitingForNetwork || info.nextAttemptAt === null) {
+    return 'Waiting for network...';
+  }
+  const seconds = Math.max(0, Math.ceil((info.nextAttemptAt - now) / 1000));
+  return seconds > 0
+    ? `Retrying in ${seconds}s (attempt ${info.attempt})`
+    : `Retrying now (attempt ${info.attempt})`;
+};
+
+// Round trip limits (ms) for good / fair connection quality
+const LATENCY_GOOD = 300;
+const LATENCY_FAIR = 1000;
+
+const getLatencyColor = (latencyMs: number): string => {
+  if (latencyMs <= LATENCY_GOOD) {
+    return COLORS.success;
+  }
+  return latencyMs <= LATENCY_FAIR ? COLORS.warning : COLORS.error;
+};
+
+const getLatencyText = (latencyMs: number): string => {
+  const quality = latencyMs <= LATENCY_GOOD ? 'good' : latencyMs <= LATENCY_FAIR ? 'fair' : 'poor';
+  return `${latencyMs} ms (${quality})`;
+};
+
 const getListeningColor = (state: ListeningState): string => {
   switch (state) {
     case 'wake_word':
@@ -64,6 +90,19 @@ const getListeningText = (state: ListeningState): string => {
 export const StatusIndicator: React.FC = () => {
   const connectionState = useConnectionState();
   const listeningState = useListeningState();
+  const reconnectInfo = useReconnectInfo();
+  const latencyMs = useLatency();
+  const [now, setNow] = useState(Date.now());
+
+  // Tick once a second while a retry is scheduled so the countdown updates
+  useEffect(() => {
+    if (!reconnectInfo?.nextAttemptAt) {
+      return;
+    }
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [reconnectInfo]);
 
   return (
     <View style={styles.container}>
@@ -76,6 +115,14 @@ export const StatusIndicator: React.FC = () => {
           ]}
         />
         <Text style={styles.statusText}>{getConnectionText(connectionState)}</Text>
+        {connectionState !== 'connected' && reconnectInfo && (
+          <Text style={styles.detailText}>{getReconnectText(reconnectInfo, now)}</Text>
+        )}
+        {connectionState === 'connected' && latencyMs !== null && (
+          <Text style={[styles.detailText, { color: getLatencyColor(latencyMs) }]}>
+            {getLatencyText(latencyMs)}
+          </Text>
+        )}
       </View>
 
       {/* Listening Status */}
@@ -114,6 +161,10 @@ const styles = StyleSheet.create({
     color: COLORS.text,
     fontSize: 14,
   },
+  detailText: {
+    color: COLORS.textSecondary,
+    fontSize: 12,
+  },
   pulsing: {
     // Animation would be handled with Animated API
   },
@@ -0,0 +1,246 @@
+/**
+ * Wake Word Bindings Component
+ * Extra wake words, each sending the next utterance to a session or
+ * profile, or running a local action (e.g. "jarvis" -> home agent)
+ */
+
+import React, { useState } from 'react';
+import { View, Text, TextInput, StyleSheet, TouchableOpacity, Alert } from 'react-native';
+import { useAppStore, useSettings } from '../store';
+import { COLORS, WAKE_WORD_ACTIONS } from '../constants';
+import type { GatewayProfile, WakeWordAction, WakeWordTarget } from '../types';
+
+type TargetType = WakeWordTarget['type'];
+
+const TARGET_TYPES: { label: string; value: TargetType }[] = [
+  { label: '💬 Session', value: 'session' },
+  { label: '🌐 Profile', value: 'profile' },
+  { label: '⚡ Action', value: 'action' },
+];
+
+const describeTarget = (target: WakeWordTarget, profiles: GatewayProfile[]): string => {
+  switch (target.type) {
+    case 'session':
+      return `Session ${target.sessionKey}`;
+    case 'profile':
+      return `Profile ${profiles.find((profile) => profile.id === target.profileId)?.name || '(deleted)'}`;
+    case 'action':
+      return WAKE_WORD_ACTIONS.find((action) => action.value === target.action)?.label || target.action;
+  }
+};
+
+export const WakeWordBindings: React.FC = () => {
+  const settings = useSettings();
+  const updateSettings = useAppStore((state) => state.updateSettings);
+  const [word, setWord] = useState('');
+  const [targetType, setTargetType] = useState<TargetType>('session');
+  const [sessionKey, setSessionKey] = useState('');
+  const [profileId, setProfileId] = useState<string | null>(null);
+  const [action, setAction] = useState<WakeWordAction>('abort');
+
+  const bindings = settings.wakeWordBindings;
+
+  const handleAdd = () => {
+    const normalizedWord = word.toLowerCase().trim();
+    if (!normalizedWord) {
+      Alert.alert('Missing Wake Word', 'Enter the word that should trigger this target.');
+      return;
+    }
+    if (
+      normalizedWord === settings.wakeWord.toLowerCase() ||
+      bindings.some((binding) => binding.word === normalizedWord)
+    ) {
+      Alert.alert('Wake Word Taken', `"${normalizedWord}" is already in use.`);
+      return;
+    }
+
+    let target: WakeWordTarget;
+    if (targetType === 'session') {
+      if (!sessionKey.trim()) {
+        Alert.alert('Missing Session', 'Enter the session key, e.g. agent:home:main.');
+        return;
+      }
+      target = { type: 'session', sessionKey: sessionKey.trim() };
+    } else if (targetType === 'profile') {
+      if (!profileId) {
+        Alert.alert('Missing Profile', 'Pick the profile to switch to.');
+        return;
+      }
+      target = { type: 'profile', profileId };
+    } else {
+      target = { type: 'action', action };
+    }
+
+    updateSettings({ wakeWordBindings: [...bindings, { word: normalizedWord, target }] });
+    setWord('');
+    setSessionKey('');
+  };
+
+  const handleRemove = (removed: string) => {
+    updateSettings({ wakeWordBindings: bindings.filter((binding) => binding.word !== removed) });
+  };
+
+  const chip = (label: string, active: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={label}
+      style={[styles.chip, active && styles.chipActive]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, active && styles.chipTextActive]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>More Wake Words</Text>
+      {bindings.length === 0 && (
+        <Text style={styles.hint}>
+          e.g. "jarvis" for your home automation agent, "stop" to stop replies
+        </Text>
+      )}
+      {bindings.map((binding) => (
+        <View key={binding.word} style={styles.bindingRow}>
+          <Text style={styles.bindingText}>
+            🗣️ {binding.word} → {describeTarget(binding.target, settings.profiles)}
+          </Text>
+          <TouchableOpacity onPress={() => handleRemove(binding.word)}>
+            <Text style={styles.removeText}>✕</Text>
+          </TouchableOpacity>
+        </View>
+      ))}
+
+      <View style={styles.form}>
+        <TextInput
+          style={styles.input}
+          value={word}
+          onChangeText={setWord}
+          placeholder="jarvis"
+          placeholderTextColor={COLORS.textSecondary}
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+        <View style={styles.chipRow}>
+          {TARGET_TYPES.map((type) =>
+            chip(type.label, targetType === type.value, () => setTargetType(type.value))
+          )}
+        </View>
+
+        {targetType === 'session' && (
+          <TextInput
+            style={styles.input}
+            value={sessionKey}
+            onChangeText={setSessionKey}
+            placeholder="agent:home:main"
+            placeholderTextColor={COLORS.textSecondary}
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+        )}
+        {targetType === 'profile' && (
+          settings.profiles.length > 0 ? (
+            <View style={styles.chipRow}>
+              {settings.profiles.map((profile) =>
+                chip(profile.name, profileId === profile.id, () => setProfileId(profile.id))
+              )}
+            </View>
+          ) : (
+            <Text style={styles.hint}>Save a gateway profile first</Text>
+          )
+        )}
+        {targetType === 'action' && (
+          <View style={styles.chipRow}>
+            {WAKE_WORD_ACTIONS.map((item) =>
+              chip(item.label, action === item.value, () => setAction(item.value))
+            )}
+          </View>
+        )}
+
+        <TouchableOpacity style={styles.addButton} onPress={handleAdd}>
+          <Text style={styles.addButtonText}>+ Add Wake Word</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 16,
+  },
+  label: {
+    fontSize: 14,
+    color: COLORS.textSecondary,
+    marginBottom: 8,
+  },
+  hint: {
+    fontSize: 12,
+    color: COLORS.textSecondary,
+    marginBottom: 8,
+    fontStyle: 'italic',
+  },
+  bindingRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: COLORS.surface,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  bindingText: {
+    flex: 1,
+    color: COLORS.text,
+    fontSize: 14,
+  },
+  removeText: {
+    color: COLORS.textSecondary,
+    fontSize: 16,
+    paddingLeft: 12,
+  },
+  form: {
+    gap: 8,
+  },
+  input: {
+    backgroundColor: COLORS.surface,
+    borderRadius: 8,
+    padding: 12,
+    color: COLORS.text,
+    fontSize: 16,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    backgroundColor: COLORS.surface,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  chipActive: {
+    borderColor: COLORS.primary,
+    backgroundColor: COLORS.surfaceLight,
+  },
+  chipText: {
+    color: COLORS.textSecondary,
+    fontSize: 14,
+  },
+  chipTextActive: {
+    color: COLORS.text,
+  },
+  addButton: {
+    borderWidth: 1,
+    borderColor: COLORS.primary,
+    borderRadius: 8,
+    padding: 12,
+    alignItems: 'center',
+  },
+  addButtonText: {
+    color: COLORS.primary,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
@@ -5,3 +5,8 @@
 export { StatusIndicator } from './StatusIndicator';
 export { ListeningButton } from './ListeningButton';
 export { ConversationList } from './ConversationList';
+export { ProfileSwitcher } from './ProfileSwitcher';
+export { GatewayPairing } from './GatewayPairing';
+export { ImageAttachments } from './ImageAttachments';
+export { ApprovalCard } from './ApprovalCard';
+export { WakeWordBindings } from './WakeWordBindings';
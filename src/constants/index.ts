@@ -3,16 +3,34 @@
  */
 
 import { Platform } from 'react-native';
-import type { AppSettings, PlatformFeatures, TTSProvider, STTProvider } from '../types';
+import type {
+  AppSettings,
+  PlatformFeatures,
+  TTSProvider,
+  STTProvider,
+  VoiceNoteMode,
+  WakeWordAction,
+} from '../types';
+
+// Main agent session, shared with Telegram, WhatsApp, etc.
+export const DEFAULT_SESSION_KEY = 'agent:main:main';
+
+// Session keys look like "agent:<agent-id>:<name>"
+export const SESSION_KEY_PATTERN = /^agent:[^:\s]+:[^\s]+$/;
 
 // Default settings
 export const DEFAULT_SETTINGS: AppSettings = {
   gatewayUrl: '',
   gatewayToken: '',
+  sessionKey: DEFAULT_SESSION_KEY,
   wakeWord: 'computer', // Star Trek style! Can be any word with Vosk
+  wakeWordBindings: [],
+  speakThrough: true,
   autoPlayResponses: true,
   keepScreenOn: false,
   hapticFeedback: true,
+  progressCues: false,
+  messageNotifications: true,
   voiceActivationSensitivity: 0.5,
   // Vosk settings
   voskModelPath: '', // Will be set after model download
@@ -20,11 +38,23 @@ export const DEFAULT_SETTINGS: AppSettings = {
   // STT settings - default: Vosk (offline)
   sttProvider: 'vosk' as STTProvider,
   customSTTUrl: '',
+  openAISTTUrl: '',
+  openAISTTApiKey: '',
+  openAISTTModel: 'whisper-1', // OPENAI_STT_CONFIG.defaultModel
+  openAISTTLanguage: '',
+  openAISTTPrompt: '',
+  preRollMs: 1500,
+  speechLevelDb: -40, // RECORDING_CONFIG.defaultSpeechLevelDb, calibrated in the settings
   // TTS settings - default: on-device (react-native-tts)
   ttsProvider: 'device' as TTSProvider,
   customTTSUrl: '',
   elevenLabsApiKey: '',
   elevenLabsVoiceId: '',
+  // Voice notes - off: only the transcript is sent
+  voiceNotes: 'off',
+  // Gateway profiles
+  profiles: [],
+  activeProfileId: null,
 };
 
 // Platform features
@@ -32,6 +62,7 @@ export const PLATFORM_FEATURES: PlatformFeatures = {
   supportsBackgroundWakeWord: Platform.OS === 'android',
   supportsScreenOffOperation: Platform.OS === 'android',
   supportsAutoStart: Platform.OS === 'android',
+  supportsMessageNotifications: Platform.OS === 'android',
 };
 
 // STT Provider options
@@ -39,6 +70,32 @@ export const STT_PROVIDERS: { label: string; value: STTProvider; description: st
   { label: '🎤 Vosk (Offline)', value: 'vosk', description: 'Fast, fully offline, no API keys' },
   { label: '📱 Device', value: 'device', description: 'Google/Apple cloud recognition' },
   { label: '🌐 Custom Whisper', value: 'custom', description: 'Self-hosted Whisper endpoint' },
+  { label: '🔌 OpenAI-compatible', value: 'openai', description: 'faster-whisper-server, LocalAI, whisper.cpp' },
+];
+
+// Providers that transcribe a recording instead of listening along
+export const RECORDING_STT_PROVIDERS: STTProvider[] = ['custom', 'openai'];
+
+// TTS Provider options
+export const TTS_PROVIDERS: { label: string; value: TTSProvider; description: string }[] = [
+  { label: '📱 Device (Default)', value: 'device', description: 'On-device TTS, works offline' },
+  { label: '🌐 Custom Endpoint', value: 'custom', description: 'Self-hosted Piper or XTTS' },
+  { label: '🎙️ ElevenLabs', value: 'elevenlabs', description: 'Cloud TTS, requires API key' },
+];
+
+// Voice note options
+export const VOICE_NOTE_MODES: { label: string; value: VoiceNoteMode; description: string }[] = [
+  { label: '📝 Off', value: 'off', description: 'Send the transcript only' },
+  { label: '🎙️ Audio', value: 'audio', description: 'Send the recording, the gateway transcribes it' },
+  { label: '🎙️ Audio + Text', value: 'audio_transcript', description: 'Send the recording with the local transcript' },
+];
+
+// Audio from before the handoff kept for custom STT recordings (up to VOSK_CONFIG.historyMs)
+export const PRE_ROLL_OPTIONS: { label: string; value: number }[] = [
+  { label: 'Off', value: 0 },
+  { label: '1 s', value: 1000 },
+  { label: '1.5 s', value: 1500 },
+  { label: '2 s', value: 2000 },
 ];
 
 // Suggested wake words (Vosk can detect any word, but these work well)
@@ -51,6 +108,12 @@ export const SUGGESTED_WAKE_WORDS: { label: string; value: string }[] = [
   { label: '🗣️ Assistent', value: 'assistent' }, // German
 ];
 
+// Local actions an extra wake word can trigger
+export const WAKE_WORD_ACTIONS: { label: string; value: WakeWordAction; description: string }[] = [
+  { label: '⏹️ Stop', value: 'abort', description: 'Stop the running reply' },
+  { label: '🔁 Repeat', value: 'repeat', description: 'Read the last reply again' },
+];
+
 // Vosk model info - user downloads separately
 export const VOSK_MODELS = {
   // Small models (~50MB) - faster, less accurate
@@ -91,9 +154,51 @@ export const AUDIO_CONFIG = {
 
 // WebSocket reconnection settings
 export const WS_CONFIG = {
-  reconnectInterval: 3000,
-  maxReconnectAttempts: 10,
+  reconnectInterval: 1000, // Base delay, doubled on every failed attempt
+  maxReconnectInterval: 60000, // Backoff cap
+  reconnectJitter: 0.3, // +/- 30% randomization to avoid thundering herds
+  maxReconnectAttempts: 10, // Only enforced while the background service is not running
   pingInterval: 30000,
+  maxMissedPongs: 2, // Unanswered pings in a row before the socket counts as dead
+  maxOwnRuns: 20, // Runs started by our chat.send, remembered to follow their replies in any session
+};
+
+// Shared Vosk engine settings
+export const VOSK_CONFIG = {
+  finalResultGraceMs: 500, // A final result this soon after stop() belongs to the stopped recognizer
+  handoffOverlapMs: 300, // Audio before the last event replayed to the next recognizer
+  historyMs: 2000, // Audio the native module keeps (handoff replay, pre-roll)
+};
+
+// Wake word detection settings
+export const WAKE_WORD_CONFIG = {
+  // Minimum per-word confidence at sensitivity 0 and 1, linear in between
+  strictConfidence: 0.95,
+  lenientConfidence: 0.45,
+};
+
+// Sensitivity steps offered in settings (AppSettings.voiceActivationSensitivity)
+export const SENSITIVITY_LEVELS = [
+  { label: 'Low', value: 0.25, description: 'Fewer false triggers, speak clearly' },
+  { label: 'Medium', value: 0.5, description: 'Balanced' },
+  { label: 'High', value: 0.75, description: 'Triggers easily, also from a distance' },
+];
+
+// Agent activity settings
+export const ACTIVITY_CONFIG = {
+  progressCueAfterMs: 10000, // Run time before the spoken "still working" cue
+  maxSteps: 5, // Steps shown while a run is in progress
+};
+
+// Exec approval settings
+export const APPROVAL_CONFIG = {
+  timeoutMs: 60000, // Unanswered approvals are denied after this (or the gateway's expiry, if sooner)
+};
+
+// Chat history settings
+export const HISTORY_CONFIG = {
+  pageSize: 50,
+  dedupeWindowMs: 120000, // Same text within 2 minutes = same message
 };
 
 // Recording settings
@@ -101,12 +206,48 @@ export const RECORDING_CONFIG = {
   maxDuration: 60000, // 60 seconds max
   silenceThreshold: 1500, // 1.5 seconds of silence to stop
   minDuration: 500, // minimum 0.5 seconds
+  minSpeechMs: 300, // Loud audio in a row before it counts as speech
+  defaultSpeechLevelDb: -40, // Louder counts as speech, until calibrated
+  minSpeechLevelDb: -70, // Calibration stays within these
+  maxSpeechLevelDb: -10,
+  calibrationMs: 3000, // Ambient noise measured for calibration
+  calibrationMarginDb: 10, // Speech level above the ambient noise
+  silenceLevelDb: -160, // Digital silence, as metered
+};
+
+// OpenAI-compatible transcription (POST /v1/audio/transcriptions)
+export const OPENAI_STT_CONFIG = {
+  path: '/v1/audio/transcriptions', // Added to the server URL unless it's there already
+  defaultModel: 'whisper-1', // faster-whisper-server and LocalAI map it to their own model
+  responseFormat: 'json', // { text: "..." }
+};
+
+// Attachment settings
+export const ATTACHMENT_CONFIG = {
+  directory: 'attachments', // Below the document directory, files stay until sent
+  voiceNoteMimeType: 'audio/mp4', // AAC, as recorded by AudioService
+  voiceNoteExtension: 'm4a',
+  maxAgeMs: 7 * 24 * 60 * 60 * 1000, // Sent attachments are kept a week for playback
+  maxImages: 4, // Images per message
+  imageMaxSize: 1600, // Longest side in px, larger photos are scaled down
+};
+
+// Diagnostics settings
+export const DIAGNOSTICS_CONFIG = {
+  maxFrames: 200, // Frames kept in the ring buffer
+  maxEvents: 50, // Connection events kept
+  maxHandoffs: 20, // Audio handoffs kept (wake word -> STT)
+  maxFrameLength: 2000, // Longer frames are cut off
+  maxStringLength: 500, // Longer strings (e.g. base64 attachments) are replaced by their size
+  secretKeys: /token|password|secret|api[-_]?key|authorization/i, // Values are redacted
+  notifyDelayMs: 250, // Changes are batched for the UI
 };
 
 // Storage keys
 export const STORAGE_KEYS = {
   settings: '@heyclaw/settings',
   conversation: '@heyclaw/conversation',
+  outbox: '@heyclaw/outbox',
   onboardingComplete: '@heyclaw/onboarding_complete',
 };
 
@@ -115,6 +256,16 @@ export const NOTIFICATION_CONFIG = {
   channelId: 'heyclaw-foreground',
   channelName: 'HeyClaw Background Service',
   channelDescription: 'Keeps HeyClaw listening for wake words',
+  messageChannelId: 'heyclaw-messages',
+  messageChannelName: 'Assistant Messages',
+  messageChannelDescription: 'Replies and messages from your agent while HeyClaw is in the background',
+  replyActionId: 'reply',
+};
+
+// Deep links (heyclaw:// scheme, see AndroidManifest.xml)
+export const DEEP_LINKS = {
+  home: 'heyclaw://home',
+  abort: 'heyclaw://abort', // Stop the running reply
 };
 
 // Colors
@@ -5,13 +5,23 @@
 import React from 'react';
 import { NavigationContainer } from '@react-navigation/native';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
-import { HomeScreen, SettingsScreen, ModelManagerScreen } from '../screens';
+import {
+  HomeScreen,
+  SettingsScreen,
+  ModelManagerScreen,
+  SessionsScreen,
+  ProfileEditScreen,
+  DiagnosticsScreen,
+} from '../screens';
 import { COLORS } from '../constants';
 
 export type RootStackParamList = {
   Home: undefined;
   Settings: undefined;
   ModelManager: undefined;
+  Sessions: undefined;
+  ProfileEdit: { profileId?: string } | undefined; // No id = new profile
+  Diagnostics: undefined;
 };
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
@@ -55,6 +65,30 @@ export const Navigation: React.FC = () => {
             headerBackTitle: 'Back',
           }}
         />
+        <Stack.Screen
+          name="Sessions"
+          component={SessionsScreen}
+          options={{ 
+            title: 'Sessions',
+            headerBackTitle: 'Back',
+          }}
+        />
+        <Stack.Screen
+          name="ProfileEdit"
+          component={ProfileEditScreen}
+          options={({ route }) => ({
+            title: route.params?.profileId ? 'Edit Profile' : 'New Profile',
+            headerBackTitle: 'Back',
+          })}
+        />
+        <Stack.Screen
+          name="Diagnostics"
+          component={DiagnosticsScreen}
+          options={{ 
+            title: 'Diagnostics',
+            headerBackTitle: 'Back',
+          }}
+        />
       </Stack.Navigator>
     </NavigationContainer>
   );
@@ -0,0 +1,279 @@
+/**
+ * Diagnostics Screen
+ *
+ * Live view of the gateway connection: status, connect result, reconnects
+ * and errors, plus the raw protocol frames (secrets redacted), and how much
+ * audio was lost handing the microphone from wake word detection to STT.
+ * "Copy report" puts all of it on the clipboard for a bug report.
+ */
+
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import Clipboard from '@react-native-clipboard/clipboard';
+import { useAppStore } from '../store';
+import { webSocketService, diagnosticsService } from '../services';
+import { formatHandoff, redactUrl } from '../services/DiagnosticsService';
+import type { DiagnosticsStatus } from '../services/DiagnosticsService';
+import { COLORS } from '../constants';
+import type { DiagnosticEvent } from '../types';
+
+const EVENT_ICONS: Record<DiagnosticEvent['kind'], string> = {
+  connect: '🔌',
+  open: '✅',
+  close: '⛔',
+  reconnect: '🔄',
+  error: '⚠️',
+};
+
+const formatTime = (at: number): string => new Date(at).toLocaleTimeString();
+
+export const DiagnosticsScreen: React.FC = () => {
+  const { connectionState, latencyMs, activeRunId } = useAppStore();
+  const [, setVersion] = useState(0);
+  const [expandedFrame, setExpandedFrame] = useState<number | null>(null);
+
+  // Re-render as frames and events come in
+  useEffect(() => {
+    const unsubscribe = diagnosticsService.onChange(() => setVersion((v) => v + 1));
+    return unsubscribe;
+  }, []);
+
+  const status: DiagnosticsStatus = {
+    connectionState,
+    gatewayUrl: webSocketService.getGatewayUrl(),
+    sessionKey: webSocketService.getSessionKey(),
+    latencyMs,
+    pendingRequests: webSocketService.getPendingRequestCount(),
+    activeRunId,
+  };
+
+  const hello = diagnosticsService.getConnectResult();
+  const connectedAt = diagnosticsService.getConnectedAt();
+  const events = diagnosticsService.getEvents().reverse();
+  const errors = diagnosticsService.getErrors();
+  const frames = diagnosticsService.getFrames().reverse();
+  const handoffs = diagnosticsService.getHandoffs().reverse();
+
+  const handleCopyReport = () => {
+    Clipboard.setString(diagnosticsService.buildReport(status));
+    Alert.alert('Report Copied', 'Paste it into your bug report or message. Tokens are removed.');
+  };
+
+  const handleClear = () => {
+    diagnosticsService.clear();
+    setExpandedFrame(null);
+  };
+
+  const row = (label: string, value: string) => (
+    <View style={styles.row}>
+      <Text style={styles.rowLabel}>{label}</Text>
+      <Text style={styles.rowValue} selectable>{value}</Text>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.content}>
+        <View style={styles.buttonRow}>
+          <TouchableOpacity style={styles.button} onPress={handleCopyReport}>
+            <Text style={styles.buttonText}>📋 Copy Report</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={[styles.button, styles.secondaryButton]} onPress={handleClear}>
+            <Text style={styles.buttonText}>🧹 Clear Log</Text>
+          </TouchableOpacity>
+        </View>
+
+        {/* Connection */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>🔌 Connection</Text>
+          <View style={styles.card}>
+            {row('State', status.connectionState)}
+            {row('Gateway', redactUrl(status.gatewayUrl) || 'Not configured')}
+            {row('Session', status.sessionKey)}
+            {row('Connected since', connectedAt ? formatTime(connectedAt) : '-')}
+            {row('Latency', status.latencyMs !== null ? `${status.latencyMs} ms` : '-')}
+            {row('Pending requests', String(status.pendingRequests))}
+            {row('Active run', status.activeRunId || '-')}
+            {row('Reconnect attempts', String(diagnosticsService.getReconnectAttempts()))}
+          </View>
+        </View>
+
+        {/* Connect result */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>🤝 Gateway</Text>
+          <View style={styles.card}>
+            {hello ? (
+              <>
+                {row('Server', hello.server?.version ? `OpenClaw ${hello.server.version}` : 'Unknown')}
+                {row('Host', hello.server?.host || '-')}
+                {row('Protocol', hello.protocol !== undefined ? String(hello.protocol) : '-')}
+                {row('Methods', hello.features?.methods?.join(', ') || '-')}
+                {row('Events', hello.features?.events?.join(', ') || '-')}
+              </>
+            ) : (
+              <Text style={styles.empty}>Not connected yet</Text>
+            )}
+          </View>
+        </View>
+
+        {/* Errors and connection events */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>
+            📜 Events{errors.length > 0 ? ` (${errors.length} error${errors.length > 1 ? 's' : ''})` : ''}
+          </Text>
+          <View style={styles.card}>
+            {events.length === 0 && <Text style={styles.empty}>Nothing yet</Text>}
+            {events.map((event, index) => (
+              <Text
+                key={`${event.at}-${index}`}
+                style={[styles.eventText, event.kind === 'error' && styles.errorText]}
+              >
+                {formatTime(event.at)} {EVENT_ICONS[event.kind]} {event.detail}
+              </Text>
+            ))}
+          </View>
+        </View>
+
+        {/* Wake word -> STT */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>🎙️ Audio handoffs</Text>
+          <Text style={styles.hint}>Audio lost between the wake word and speech recognition</Text>
+          <View style={styles.card}>
+            {handoffs.length === 0 && <Text style={styles.empty}>No wake word yet</Text>}
+            {handoffs.map((handoff, index) => (
+              <Text
+                key={`${handoff.at}-${index}`}
+                style={[styles.eventText, handoff.gapMs > 0 && styles.errorText]}
+              >
+                {formatTime(handoff.at)} {formatHandoff(handoff)}
+              </Text>
+            ))}
+          </View>
+        </View>
+
+        {/* Raw frames */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>📡 Frames ({frames.length})</Text>
+          <Text style={styles.hint}>Newest first, tap a frame to see it in full</Text>
+          {frames.map((frame) => (
+            <TouchableOpacity
+              key={frame.id}
+              style={styles.frame}
+              onPress={() => setExpandedFrame(expandedFrame === frame.id ? null : frame.id)}
+            >
+              <Text style={styles.frameSummary}>
+                {formatTime(frame.at)} {frame.direction === 'in' ? '⬇️' : '⬆️'} {frame.summary}
+              </Text>
+              {expandedFrame === frame.id && (
+                <Text style={styles.frameRaw} selectable>{frame.raw}</Text>
+              )}
+            </TouchableOpacity>
+          ))}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  content: {
+    padding: 16,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 24,
+  },
+  button: {
+    flex: 1,
+    backgroundColor: COLORS.primary,
+    borderRadius: 8,
+    padding: 12,
+    alignItems: 'center',
+  },
+  secondaryButton: {
+    backgroundColor: COLORS.surfaceLight,
+  },
+  buttonText: {
+    color: COLORS.text,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: COLORS.text,
+    marginBottom: 12,
+  },
+  card: {
+    backgroundColor: COLORS.surface,
+    borderRadius: 12,
+    padding: 12,
+    gap: 6,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  rowLabel: {
+    fontSize: 14,
+    color: COLORS.textSecondary,
+  },
+  rowValue: {
+    flex: 1,
+    fontSize: 14,
+    color: COLORS.text,
+    textAlign: 'right',
+  },
+  empty: {
+    fontSize: 14,
+    color: COLORS.textSecondary,
+    fontStyle: 'italic',
+  },
+  eventText: {
+    fontSize: 13,
+    color: COLORS.text,
+  },
+  errorText: {
+    color: COLORS.error,
+  },
+  hint: {
+    fontSize: 12,
+    color: COLORS.textSecondary,
+    marginBottom: 8,
+    fontStyle: 'italic',
+  },
+  frame: {
+    backgroundColor: COLORS.surface,
+    borderRadius: 8,
+    padding: 8,
+    marginBottom: 4,
+  },
+  frameSummary: {
+    fontSize: 13,
+    color: COLORS.text,
+    fontFamily: 'monospace',
+  },
+  frameRaw: {
+    fontSize: 12,
+    color: COLORS.textSecondary,
+    fontFamily: 'monospace',
+    marginTop: 6,
+  },
+});
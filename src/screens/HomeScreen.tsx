@@ -3,7 +3,7 @@
  * Main screen with listening button and conversation
  */
 
-import React, { useEffect, useCallback, useRef } from 'react';
+import React, { useEffect, useCallback, useRef, useState } from 'react';
 import {
   StatusBar,
   View,
@@ -12,8 +12,17 @@ import {
   TouchableOpacity,
   Text,
   Alert,
+  Linking,
+  AppState,
 } from 'react-native';
-import { StatusIndicator, ListeningButton, ConversationList } from '../components';
+import {
+  StatusIndicator,
+  ListeningButton,
+  ConversationList,
+  ProfileSwitcher,
+  ImageAttachments,
+  ApprovalCard,
+} from '../components';
 import { useAppStore } from '../store';
 import { 
   webSocketService, 
@@ -22,47 +31,125 @@ import {
   backgroundService,
   sttService,
   ttsService,
+  outboxService,
+  notificationService,
+  diagnosticsService,
 } from '../services';
-import { COLORS, PLATFORM_FEATURES } from '../constants';
+import { netInfoReachability } from '../services/Reachability';
+import { extractText } from '../services/GatewayMessages';
+import {
+  parseVoiceCommand,
+  matchProfileName,
+  wakeWordsOf,
+  stripWakeWord,
+  findWakeWordBinding,
+} from '../services/VoiceCommands';
+import { reduceAgentEvent, progressCue } from '../services/AgentActivity';
+import { saveAttachment, deleteAttachments, pruneAttachments } from '../services/Attachments';
+import {
+  toPendingApproval,
+  describeApproval,
+  parseApprovalAnswer,
+  APPROVAL_GRAMMAR,
+} from '../services/Approvals';
+import {
+  COLORS,
+  PLATFORM_FEATURES,
+  DEEP_LINKS,
+  ACTIVITY_CONFIG,
+  ATTACHMENT_CONFIG,
+  RECORDING_STT_PROVIDERS,
+} from '../constants';
 import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import type { RootStackParamList } from '../navigation';
-import type { ChatEventPayload } from '../types';
+import type {
+  AppSettings,
+  ChatEventPayload,
+  OutboxAttachment,
+  ExecApprovalDecision,
+  PendingApproval,
+} from '../types';
 
 type Props = {
   navigation: NativeStackNavigationProp<RootStackParamList, 'Home'>;
 };
 
+const sttConfigOf = (settings: AppSettings) => ({
+  provider: settings.sttProvider,
+  customSTTUrl: settings.customSTTUrl,
+  voskModelPath: settings.voskModelPath, // Vosk needs the model path
+  openAI: {
+    url: settings.openAISTTUrl,
+    apiKey: settings.openAISTTApiKey,
+    model: settings.openAISTTModel,
+    language: settings.openAISTTLanguage,
+    prompt: settings.openAISTTPrompt,
+  },
+});
+
 export const HomeScreen: React.FC<Props> = ({ navigation }) => {
   const { 
     settings,
+    switchProfile,
     connectionState,
     setConnectionState,
+    setReconnectInfo,
+    setLatency,
+    activeRunId,
+    setActiveRunId,
+    setRunActivity,
     setListeningState,
     addMessage,
     updateMessage,
+    setMessageStatus,
+    removeMessage,
+    mergeHistory,
+    hasMoreHistory,
+    setHasMoreHistory,
     listeningState,
+    pendingApprovals,
+    addPendingApproval,
+    removePendingApproval,
     setError,
   } = useAppStore();
 
   // Initialize services on mount
   // Track streaming message for delta updates
   const streamingMessageRef = useRef<{ runId: string; messageId: string } | null>(null);
+  // Session the next utterance goes to, set by an extra wake word (null = active session)
+  const routedSessionRef = useRef<string | null>(null);
+  // Run we stopped ourselves (its late events are dropped)
+  const abortedRunRef = useRef<string | null>(null);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  const isLoadingOlderRef = useRef(false);
+  // Approval already read out, and whether we listen for "yes" / "no"
+  const askedApprovalRef = useRef<string | null>(null);
+  const [isListeningForAnswer, setIsListeningForAnswer] = useState(false);
+  const currentApproval = pendingApprovals[0] || null;
+  // Message opened from a notification
+  const [focusMessageId, setFocusMessageId] = useState<string | null>(null);
 
   useEffect(() => {
     const initializeServices = async () => {
       try {
+        // Pause reconnects while offline, retry as soon as the network is back
+        webSocketService.setReachabilitySource(netInfoReachability);
+
+        // Drop old voice notes and images, queued ones are still needed
+        const queued = await outboxService.load();
+        pruneAttachments(
+          ATTACHMENT_CONFIG.maxAgeMs,
+          queued.flatMap((item) => (item.attachments || []).map((attachment) => attachment.path)),
+        );
+
         // Connect WebSocket if we have settings
         if (settings.gatewayUrl && settings.gatewayToken) {
           setConnectionState('connecting');
           webSocketService.connect(settings.gatewayUrl, settings.gatewayToken);
         }
 
-        // Configure STT service (Vosk needs model path)
-        sttService.configure({
-          provider: settings.sttProvider,
-          customSTTUrl: settings.customSTTUrl,
-          voskModelPath: settings.voskModelPath,
-        });
+        // Configure STT service
+        sttService.configure(sttConfigOf(useAppStore.getState().settings));
 
         // Configure TTS service
         ttsService.configure({
@@ -72,9 +159,16 @@ export const HomeScreen: React.FC<Props> = ({ navigation }) => {
           elevenLabsVoiceId: settings.elevenLabsVoiceId,
         });
 
+        // Message notifications while in the background (Android)
+        if (PLATFORM_FEATURES.supportsMessageNotifications) {
+          await notificationService.initialize();
+        }
+
         // Start background service on Android
         if (PLATFORM_FEATURES.supportsBackgroundWakeWord) {
           await backgroundService.start();
+          // Never give up reconnecting while we run in the background
+          webSocketService.setKeepAlive(true);
         }
       } catch (error) {
         console.error('Failed to initialize services:', error);
@@ -85,6 +179,8 @@ export const HomeScreen: React.FC<Props> = ({ navigation }) => {
 
     // Cleanup on unmount
     return () => {
+      webSocketService.setKeepAlive(false);
+      webSocketService.setReachabilitySource(null);
       webSocketService.disconnect();
       wakeWordService.cleanup();
       backgroundService.stop();
@@ -92,23 +188,46 @@ export const HomeScreen: React.FC<Props> = ({ navigation }) => {
     };
   }, []);
 
-  // Reconnect when settings change
+  // Reconnect when settings change (e.g. another profile was picked)
   useEffect(() => {
     if (settings.gatewayUrl && settings.gatewayToken) {
-      webSocketService.disconnect();
       setConnectionState('connecting');
-      webSocketService.connect(settings.gatewayUrl, settings.gatewayToken);
+      webSocketService.switchGateway(settings.gatewayUrl, settings.gatewayToken);
     }
   }, [settings.gatewayUrl, settings.gatewayToken]);
 
-  // Reconfigure STT when settings change
+  // Follow the active session and load its transcript
+  useEffect(() => {
+    webSocketService.setSessionKey(settings.sessionKey);
+    webSocketService.loadRecentHistory();
+  }, [settings.sessionKey]);
+
+  // Chat history loaded after (re)connect
   useEffect(() => {
-    sttService.configure({
-      provider: settings.sttProvider,
-      customSTTUrl: settings.customSTTUrl,
-      voskModelPath: settings.voskModelPath,
+    const unsubscribe = webSocketService.onHistory((page) => {
+      if (page.sessionKey !== webSocketService.getSessionKey()) {
+        return;
+      }
+      mergeHistory(page.messages);
+      setHasMoreHistory(page.hasMore);
     });
-  }, [settings.sttProvider, settings.customSTTUrl, settings.voskModelPath]);
+
+    return unsubscribe;
+  }, [mergeHistory, setHasMoreHistory]);
+
+  // Reconfigure STT when settings change
+  useEffect(() => {
+    sttService.configure(sttConfigOf(useAppStore.getState().settings));
+  }, [
+    settings.sttProvider,
+    settings.customSTTUrl,
+    settings.voskModelPath,
+    settings.openAISTTUrl,
+    settings.openAISTTApiKey,
+    settings.openAISTTModel,
+    settings.openAISTTLanguage,
+    settings.openAISTTPrompt,
+  ]);
 
   // Reconfigure TTS when settings change
   useEffect(() => {
@@ -132,7 +251,191 @@ export const HomeScreen: React.FC<Props> = ({ navigation }) => {
     });
 
     return unsubscribe;
-  }, [settings.wakeWord, settings.voskModelPath]);
+  }, [settings.wakeWord, settings.wakeWordBindings, settings.voskModelPath]);
+
+  // Wake words edited while listening
+  useEffect(() => {
+    if (wakeWordService.getIsInitialized()) {
+      const wakeWords = wakeWordsOf({
+        wakeWord: settings.wakeWord,
+        wakeWordBindings: settings.wakeWordBindings,
+      });
+      wakeWordService.setWakeWords(wakeWords).catch((error) => {
+        console.error('[Home] Failed to update wake words:', error);
+      });
+    }
+  }, [settings.wakeWord, settings.wakeWordBindings]);
+
+  // Sensitivity changed in settings
+  useEffect(() => {
+    if (wakeWordService.getIsInitialized()) {
+      wakeWordService.setSensitivity(settings.voiceActivationSensitivity);
+    }
+  }, [settings.voiceActivationSensitivity]);
+
+  useEffect(() => {
+    wakeWordService.setSpeakThrough(settings.speakThrough);
+  }, [settings.speakThrough]);
+
+  // Speech level calibrated in settings, ends recordings on silence
+  useEffect(() => {
+    audioService.setSpeechLevel(settings.speechLevelDb);
+  }, [settings.speechLevelDb]);
+
+  // Outbox: show messages queued for this gateway (in a previous session
+  // or before switching profiles)
+  useEffect(() => {
+    const gatewayUrl = webSocketService.getGatewayUrl();
+    outboxService.load().then((items) => {
+      const { conversation } = useAppStore.getState();
+      items
+        .filter((item) => !item.gatewayUrl || item.gatewayUrl === gatewayUrl)
+        .filter((item) => !conversation.some((msg) => msg.id === item.id))
+        .forEach((item) => {
+          addMessage({
+            id: item.id,
+            type: 'user',
+            content: item.content,
+            audioUrl: item.attachments?.find((attachment) => attachment.type === 'audio')?.path,
+            imageUrls: item.attachments
+              ?.filter((attachment) => attachment.type === 'image')
+              .map((attachment) => attachment.path),
+            timestamp: item.timestamp,
+            status: item.lastError ? 'failed' : 'pending',
+          });
+        });
+    });
+  }, [settings.gatewayUrl, addMessage]);
+
+  // Outbox: track delivery
+  useEffect(() => {
+    const unsubscribeSent = outboxService.onSent((item) => {
+      setMessageStatus(item.id, 'sent');
+    });
+    const unsubscribeFailed = outboxService.onFailed((item, error) => {
+      console.warn('[Home] Message not delivered:', item.id, error);
+      setMessageStatus(item.id, 'failed');
+    });
+
+    return () => {
+      unsubscribeSent();
+      unsubscribeFailed();
+    };
+  }, [setMessageStatus]);
+
+  // Reconnect schedule (shown in StatusIndicator)
+  useEffect(() => {
+    const unsubscribe = webSocketService.onReconnect((info) => {
+      setReconnectInfo(info);
+      if (info) {
+        setConnectionState('connecting');
+      }
+    });
+
+    return unsubscribe;
+  }, [setReconnectInfo, setConnectionState]);
+
+  // Ping round trips (connection quality in StatusIndicator)
+  useEffect(() => {
+    const unsubscribe = webSocketService.onLatency(setLatency);
+    return unsubscribe;
+  }, [setLatency]);
+
+  // Reply in progress (abortable from the button, by voice or from the notification)
+  useEffect(() => {
+    const unsubscribe = webSocketService.onRun((runId) => {
+      setActiveRunId(runId);
+      backgroundService.setReplyRunning(!!runId);
+      if (!runId) {
+        setRunActivity(null);
+      }
+    });
+
+    return unsubscribe;
+  }, [setActiveRunId, setRunActivity]);
+
+  // Tool calls and thinking state of the running reply
+  useEffect(() => {
+    const unsubscribe = webSocketService.onAgent((payload) => {
+      setRunActivity(reduceAgentEvent(useAppStore.getState().runActivity, payload));
+    });
+
+    return unsubscribe;
+  }, [setRunActivity]);
+
+  // Say something when a reply takes long, so silence doesn't feel like a dropped request
+  useEffect(() => {
+    if (!activeRunId || !settings.progressCues) {
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      const state = useAppStore.getState();
+      if (
+        state.activeRunId !== activeRunId ||
+        state.listeningState === 'recording' ||
+        ttsService.getIsSpeaking()
+      ) {
+        return;
+      }
+      ttsService.speak(progressCue(state.runActivity)).catch((err) => {
+        console.error('[Home] Progress cue failed:', err);
+      });
+    }, ACTIVITY_CONFIG.progressCueAfterMs);
+
+    return () => clearTimeout(timer);
+  }, [activeRunId, settings.progressCues]);
+
+  // Mark the reply of a run as stopped. Without a streamed reply yet,
+  // the prompt itself is marked so it's clear no answer is coming.
+  const markRunAborted = useCallback((runId: string | null) => {
+    const streaming = streamingMessageRef.current;
+    if (streaming && (!runId || streaming.runId === runId)) {
+      setMessageStatus(streaming.messageId, 'aborted');
+      streamingMessageRef.current = null;
+      return;
+    }
+
+    const { conversation } = useAppStore.getState();
+    const lastMessage = conversation[conversation.length - 1];
+    if (lastMessage?.type === 'user') {
+      setMessageStatus(lastMessage.id, 'aborted');
+    }
+  }, [setMessageStatus]);
+
+  // Stop the running reply and anything being read out
+  const handleAbort = useCallback(async () => {
+    console.log('[Home] Aborting reply');
+    audioService.clearQueue();
+    ttsService.stop();
+
+    const runId = webSocketService.getActiveRunId() || streamingMessageRef.current?.runId || null;
+    if (!runId) {
+      // Nothing running on the gateway, stopping speech was all there was to do
+      return;
+    }
+
+    abortedRunRef.current = runId;
+    markRunAborted(runId);
+
+    try {
+      await webSocketService.abortRun();
+    } catch (error) {
+      console.error('[Home] Failed to abort reply:', error);
+      setError('Failed to stop the reply');
+    }
+  }, [markRunAborted, setError]);
+
+  // Notification tapped while a reply runs (heyclaw://abort)
+  useEffect(() => {
+    const subscription = Linking.addEventListener('url', ({ url }) => {
+      if (url.startsWith(DEEP_LINKS.abort)) {
+        handleAbort();
+      }
+    });
+
+    return () => subscription.remove();
+  }, [handleAbort]);
 
   // WebSocket error handler
   useEffect(() => {
@@ -150,38 +453,35 @@ export const HomeScreen: React.FC<Props> = ({ navigation }) => {
 
   // WebSocket chat handler (responses from assistant)
   useEffect(() => {
-    const unsubscribe = webSocketService.onChat((payload: any) => {
+    const unsubscribe = webSocketService.onChat((payload: ChatEventPayload) => {
       console.log("[Home] Chat received:", payload.state, payload.runId);
       
-      // Extract text from gateway format: payload.message.content[0].text
-      let text = "";
-      let role = "";
-      let timestamp = Date.now();
-      
-      if (payload.message) {
-        role = payload.message.role || "";
-        timestamp = payload.message.timestamp || Date.now();
-        if (payload.message.content && Array.isArray(payload.message.content)) {
-          const textContent = payload.message.content.find((c: any) => c.type === "text");
-          if (textContent) {
-            text = textContent.text || "";
-          }
-        }
-      } else if (payload.text) {
-        text = payload.text;
-        role = payload.role || "";
-        timestamp = payload.timestamp || Date.now();
+      const runId = payload.runId || "unknown";
+      const state = payload.state || "final";
+
+      if (payload.runId && payload.runId === abortedRunRef.current) {
+        // Already stopped and marked on our side
+        return;
       }
+      if (state === "aborted") {
+        // Stopped by the gateway or another client
+        markRunAborted(payload.runId || null);
+        return;
+      }
+
+      // Extract text from gateway format: payload.message.content[].text
+      // (older gateways send a flat payload.text)
+      const text = payload.message ? extractText(payload.message) : payload.text || "";
+      const role = payload.message ? payload.message.role : payload.role;
+      const timestamp = payload.message?.timestamp || payload.timestamp || Date.now();
       
       if (!text || role !== "assistant") return;
       
-      const runId = payload.runId || "unknown";
-      const state = payload.state || "final";
-      
       if (state === "delta") {
         // Streaming update
-        if (streamingMessageRef.current?.runId === runId) {
-          updateMessage(streamingMessageRef.current.messageId, text);
+        const streaming = streamingMessageRef.current;
+        if (streaming?.runId === runId) {
+          updateMessage(streaming.messageId, text);
         } else {
           const messageId = `msg-${Date.now()}`;
           streamingMessageRef.current = { runId, messageId };
@@ -193,23 +493,37 @@ export const HomeScreen: React.FC<Props> = ({ navigation }) => {
           });
         }
       } else if (state === "final") {
-        if (streamingMessageRef.current?.runId === runId) {
-          updateMessage(streamingMessageRef.current.messageId, text);
+        const streaming = streamingMessageRef.current;
+        let messageId: string;
+        if (streaming?.runId === runId) {
+          messageId = streaming.messageId;
+          updateMessage(messageId, text);
           streamingMessageRef.current = null;
         } else {
+          messageId = `msg-${Date.now()}`;
           addMessage({
-            id: `msg-${Date.now()}`,
+            id: messageId,
             type: "assistant",
             content: text,
             timestamp,
           });
         }
+
+        // Nothing on screen to see it while in the background
+        if (AppState.currentState !== "active" && useAppStore.getState().settings.messageNotifications) {
+          notificationService.showMessage(
+            { id: messageId, type: "assistant", content: text, timestamp },
+            { proactive: !webSocketService.isOwnRun(runId) },
+          );
+        }
         
         // Auto-play TTS only on final
         if (settings.autoPlayResponses && text) {
-          const audioContent = payload.message?.content?.find((c: any) => c.type === "audio");
-          if (audioContent && (audioContent.url || audioContent.base64)) {
-            audioService.queueAudio(audioContent.url || audioContent.base64);
+          const content = payload.message?.content;
+          const audioContent = Array.isArray(content) ? content.find((c) => c.type === "audio") : undefined;
+          const audioSource = audioContent?.url || audioContent?.base64;
+          if (audioSource) {
+            audioService.queueAudio(audioSource);
           } else {
             ttsService.speak(text).catch(err => {
               console.error("[Home] TTS failed:", err);
@@ -220,7 +534,7 @@ export const HomeScreen: React.FC<Props> = ({ navigation }) => {
     });
 
     return unsubscribe;
-  }, [settings.autoPlayResponses, addMessage, updateMessage]);
+  }, [settings.autoPlayResponses, addMessage, updateMessage, markRunAborted]);
 
 
   // Start wake word detection using Vosk
@@ -234,48 +548,106 @@ export const HomeScreen: React.FC<Props> = ({ navigation }) => {
       }
 
       // Initialize Vosk wake word service
-      await wakeWordService.initialize({
+      const wakeWords = wakeWordsOf({
         wakeWord: settings.wakeWord,
+        wakeWordBindings: settings.wakeWordBindings,
+      });
+      await wakeWordService.initialize({
+        wakeWords,
         modelPath: settings.voskModelPath,
+        sensitivity: useAppStore.getState().settings.voiceActivationSensitivity,
+        speakThrough: useAppStore.getState().settings.speakThrough,
       });
       
       await wakeWordService.startListening();
       setListeningState('wake_word');
-      console.log('[Home] Wake word detection started:', settings.wakeWord);
+      console.log('[Home] Wake word detection started:', wakeWords.join(', '));
     } catch (error) {
       console.error('Failed to start wake word detection:', error);
       setListeningState('idle');
       setError('Failed to initialize Vosk. Check model path.');
     }
-  }, [settings.wakeWord, settings.voskModelPath, setListeningState, setError]);
+  }, [settings.wakeWord, settings.wakeWordBindings, settings.voskModelPath, setListeningState, setError]);
 
-  // Wake word detected handler
-  useEffect(() => {
-    const unsubscribe = wakeWordService.onDetection(() => {
-      handleWakeWordDetected();
+  // Read the last reply again ("repeat" wake word action)
+  const repeatLastReply = useCallback(() => {
+    const { conversation } = useAppStore.getState();
+    const lastReply = [...conversation].reverse().find((item) => item.type === 'assistant');
+    ttsService.speak(lastReply?.content || 'There is no reply yet.').catch((err) => {
+      console.error('[Home] TTS failed:', err);
     });
-
-    return unsubscribe;
   }, []);
 
-  // Handle wake word detection
-  const handleWakeWordDetected = useCallback(async () => {
-    console.log('[Home] Wake word detected!');
+  // Voice notes and custom / OpenAI-compatible STT record the clip with
+  // AudioService, Vosk and device STT recognize straight from the microphone
+  const recordsAudio =
+    RECORDING_STT_PROVIDERS.includes(settings.sttProvider) || settings.voiceNotes !== 'off';
+
+  // Handle wake word detection. Extra wake words run their action, or pick
+  // the profile / session the next utterance goes to (no word = button press).
+  const handleWakeWordDetected = useCallback(async (wakeWord?: string) => {
+    console.log('[Home] Wake word detected!', wakeWord || '(button)');
+    const current = useAppStore.getState().settings;
+    const target = wakeWord ? findWakeWordBinding(wakeWord, current)?.target : undefined;
+
+    if (target?.type === 'action') {
+      // Nothing to record, keep listening for wake words
+      if (target.action === 'abort') {
+        handleAbort();
+      } else {
+        repeatLastReply();
+      }
+      return;
+    }
+    if (target?.type === 'profile' && target.profileId !== current.activeProfileId) {
+      const profile = current.profiles.find((item) => item.id === target.profileId);
+      if (profile) {
+        console.log('[Home] Switching profile by wake word:', profile.name);
+        switchProfile(profile.id);
+      }
+    }
+    routedSessionRef.current = target?.type === 'session' ? target.sessionKey : null;
+
     setListeningState('recording');
     
     try {
-      // Stop wake word detection while recording
-      await wakeWordService.stopListening();
-      
       // TODO: Play activation sound
-      
-      // Start full STT based on provider
-      if (settings.sttProvider === 'custom') {
-        // For custom STT, record audio and send to endpoint
-        await audioService.startRecording();
+
+      // Custom STT recordings start with the audio from before (not voice notes, they're AAC)
+      const preRollMs =
+        RECORDING_STT_PROVIDERS.includes(current.sttProvider) && current.voiceNotes === 'off'
+          ? current.preRollMs
+          : 0;
+
+      if (!recordsAudio && current.sttProvider === 'vosk') {
+        // Vosk STT takes over the running microphone, so the words right
+        // after the wake word aren't clipped (gap logged by the engine)
+        await wakeWordService.handOver(() => sttService.startListening());
+      } else if (preRollMs > 0 && audioService.canPreRoll()) {
+        // The recording takes over the running microphone too
+        await wakeWordService.handOver(() => audioService.startRecording({ preRollMs }));
       } else {
-        // For Vosk or device STT, start listening directly (streaming recognition)
-        await sttService.startListening();
+        // The recorder or device STT needs the microphone to itself
+        const stoppedAt = Date.now();
+        const wasListening = wakeWordService.getIsListening();
+        await wakeWordService.stopListening();
+
+        if (recordsAudio) {
+          // For custom STT and voice notes, record audio first
+          await audioService.startRecording();
+        } else {
+          // For device STT, start listening directly (streaming recognition)
+          await sttService.startListening();
+        }
+
+        if (wasListening) {
+          diagnosticsService.recordHandoff({
+            at: stoppedAt,
+            mode: 'restart',
+            gapMs: Date.now() - stoppedAt,
+            detail: recordsAudio ? 'recording' : 'device STT',
+          });
+        }
       }
     } catch (error) {
       console.error('Failed to start recording:', error);
@@ -283,13 +655,22 @@ export const HomeScreen: React.FC<Props> = ({ navigation }) => {
       // Resume wake word detection
       wakeWordService.startListening();
     }
-  }, [setListeningState, settings.sttProvider]);
+  }, [setListeningState, recordsAudio, handleAbort, repeatLastReply, switchProfile]);
+
+  // Wake word detected handler
+  useEffect(() => {
+    const unsubscribe = wakeWordService.onDetection((wakeWord) => {
+      handleWakeWordDetected(wakeWord);
+    });
+
+    return unsubscribe;
+  }, [handleWakeWordDetected]);
 
   // Recording complete handler (for custom STT mode)
   useEffect(() => {
-    const unsubscribe = audioService.onRecordingComplete((audioBase64, durationMs) => {
+    const unsubscribe = audioService.onRecordingComplete((audioBase64, durationMs, path) => {
       console.log('Recording complete:', durationMs, 'ms');
-      handleRecordingComplete(audioBase64, durationMs);
+      handleRecordingComplete(audioBase64, durationMs, path);
     });
 
     return unsubscribe;
@@ -308,13 +689,43 @@ export const HomeScreen: React.FC<Props> = ({ navigation }) => {
     return unsubscribe;
   }, []);
 
-  // Handle recording complete - transcribe via custom STT endpoint
-  const handleRecordingComplete = async (audioBase64: string, durationMs: number) => {
+  // Handle recording complete - send as voice note, or transcribe via custom STT endpoint
+  const handleRecordingComplete = async (audioBase64: string, durationMs: number, path: string) => {
     setListeningState('processing');
+    const { voiceNotes, sttProvider } = useAppStore.getState().settings;
+
+    if (voiceNotes !== 'off') {
+      let attachment: OutboxAttachment;
+      try {
+        attachment = await saveAttachment(
+          `voice-${Date.now()}`,
+          'audio',
+          ATTACHMENT_CONFIG.voiceNoteMimeType,
+          ATTACHMENT_CONFIG.voiceNoteExtension,
+          audioBase64,
+        );
+      } catch (error) {
+        console.error('Failed to store voice note:', error);
+        setError('Failed to store voice note');
+        resumeWakeWordDetection();
+        return;
+      }
+
+      // The gateway transcribes the clip itself, a local transcript is optional
+      let transcript = '';
+      if (voiceNotes === 'audio_transcript' && RECORDING_STT_PROVIDERS.includes(sttProvider)) {
+        transcript = await sttService.transcribeAudio(attachment.path).catch((error) => {
+          console.warn('[Home] Voice note transcription failed, sending audio only:', error);
+          return '';
+        });
+      }
+      await handleTranscriptionComplete(transcript.trim(), { attachment, durationMs });
+      return;
+    }
     
     try {
       // Use custom STT to transcribe audio
-      const transcribedText = await sttService.transcribeAudio(audioBase64);
+      const transcribedText = await sttService.transcribeAudio(path);
       
       if (!transcribedText.trim()) {
         console.log('[Home] Empty transcription, ignoring');
@@ -331,25 +742,82 @@ export const HomeScreen: React.FC<Props> = ({ navigation }) => {
     }
   };
 
-  // Handle completed transcription (from either Vosk, device, or custom STT)
-  const handleTranscriptionComplete = async (text: string) => {
+  // Handle completed transcription (from either Vosk, device, or custom STT),
+  // or a voice note with an optional transcript
+  const handleTranscriptionComplete = async (
+    transcript: string,
+    voiceNote?: { attachment: OutboxAttachment; durationMs: number },
+  ) => {
+    // Speak-through: STT may have caught the end of the wake word
+    const text = stripWakeWord(transcript, wakeWordsOf(useAppStore.getState().settings));
+    if (!text && !voiceNote) {
+      resumeWakeWordDetection();
+      return;
+    }
+    const command = parseVoiceCommand(text);
+    // A voice note that turns out to be a command is not sent
+    const dropVoiceNote = () => deleteAttachments(voiceNote && [voiceNote.attachment]);
+
+    // "stop" / "cancel" stop the running reply instead of being sent
+    if (command?.type === 'abort') {
+      dropVoiceNote();
+      await handleAbort();
+      resumeWakeWordDetection();
+      return;
+    }
+
+    // "switch to <profile>" - anything not naming a profile goes to the agent
+    if (command?.type === 'switchProfile') {
+      const { profiles } = useAppStore.getState().settings;
+      const profile = matchProfileName(command.name, profiles);
+      if (profile) {
+        console.log('[Home] Switching profile by voice:', profile.name);
+        dropVoiceNote();
+        switchProfile(profile.id);
+        ttsService.speak(`Switched to ${profile.name}`).catch((err) => {
+          console.error('[Home] TTS failed:', err);
+        });
+        resumeWakeWordDetection();
+        return;
+      }
+    }
+
     setListeningState('processing');
     
     try {
       // Add user message to conversation
-      addMessage({
+      const message = {
         id: `msg-${Date.now()}`,
-        type: 'user',
         content: text,
         timestamp: Date.now(),
-      });
+      };
+      // Images picked before speaking go with this message
+      const { pendingImages, clearPendingImages } = useAppStore.getState();
+      const attachments = [...(voiceNote ? [voiceNote.attachment] : []), ...pendingImages];
+      // An extra wake word may have picked another session
+      const sessionKey = routedSessionRef.current || webSocketService.getSessionKey();
+      routedSessionRef.current = null;
 
-      // Send to OpenClaw via chat.send
-      if (webSocketService.getIsConnected()) {
-        await webSocketService.sendChatMessage(text);
-      } else {
-        Alert.alert('Not Connected', 'Please check your gateway settings');
-      }
+      // Queue in the outbox and send to OpenClaw via chat.send.
+      // If we're offline it stays queued and is replayed on reconnect.
+      const queued = await outboxService.enqueue({
+        ...message,
+        ...(attachments.length > 0 ? { attachments } : {}),
+        sessionKey,
+        gatewayUrl: webSocketService.getGatewayUrl(),
+      });
+      addMessage({
+        ...message,
+        type: 'user',
+        status: 'pending',
+        idempotencyKey: queued.idempotencyKey,
+        ...(voiceNote
+          ? { audioUrl: voiceNote.attachment.path, audioDurationMs: voiceNote.durationMs }
+          : {}),
+        ...(pendingImages.length > 0 ? { imageUrls: pendingImages.map((image) => image.path) } : {}),
+      });
+      clearPendingImages();
+      await webSocketService.flushOutbox();
     } catch (error) {
       console.error('Failed to send message:', error);
       setError('Failed to send voice message');
@@ -371,6 +839,145 @@ export const HomeScreen: React.FC<Props> = ({ navigation }) => {
     }
   }, [setListeningState]);
 
+  // Exec approvals: requests for this session, and approvals settled
+  // elsewhere (another operator or the gateway's own expiry)
+  useEffect(() => {
+    const unsubscribeRequested = webSocketService.onApproval((payload) => {
+      console.log('[Home] Approval requested:', payload.id, payload.request.command);
+      addPendingApproval(toPendingApproval(payload));
+    });
+    const unsubscribeResolved = webSocketService.onApprovalResolved(({ id }) => {
+      removePendingApproval(id);
+    });
+
+    return () => {
+      unsubscribeRequested();
+      unsubscribeResolved();
+    };
+  }, [addPendingApproval, removePendingApproval]);
+
+  // Send the decision, the next approval (if any) is asked right after
+  const decideApproval = useCallback(async (id: string, decision: ExecApprovalDecision) => {
+    if (!useAppStore.getState().pendingApprovals.some((approval) => approval.id === id)) {
+      return; // Already answered
+    }
+    removePendingApproval(id);
+    try {
+      await webSocketService.resolveApproval(id, decision);
+    } catch (error) {
+      console.error('[Home] Failed to resolve approval:', error);
+      setError('Failed to send approval decision');
+    }
+  }, [removePendingApproval, setError]);
+
+  // Read the approval out, then listen for "yes" / "no" (tap only without a Vosk model)
+  const askApproval = useCallback(async (approval: PendingApproval) => {
+    try {
+      // Don't let the question be heard as the answer
+      await wakeWordService.stopListening();
+      await ttsService.speak(describeApproval(approval));
+    } catch (error) {
+      console.error('[Home] Failed to read out approval:', error);
+    }
+
+    const { pendingApprovals: pending } = useAppStore.getState();
+    if (!pending.some((item) => item.id === approval.id)) {
+      // Answered while it was read out, the next one (if any) is asked next
+      if (pending.length === 0) {
+        resumeWakeWordDetection();
+      }
+      return;
+    }
+    if (!wakeWordService.getIsInitialized()) {
+      return;
+    }
+    try {
+      await wakeWordService.listenForPhrases(APPROVAL_GRAMMAR);
+      setIsListeningForAnswer(true);
+    } catch (error) {
+      console.error('[Home] Failed to listen for approval answer:', error);
+      resumeWakeWordDetection();
+    }
+  }, [resumeWakeWordDetection]);
+
+  // Ask once per approval, without talking over a recording
+  useEffect(() => {
+    if (!currentApproval || askedApprovalRef.current === currentApproval.id) {
+      return;
+    }
+    if (listeningState === 'recording' || listeningState === 'processing') {
+      return;
+    }
+    askedApprovalRef.current = currentApproval.id;
+    askApproval(currentApproval);
+  }, [currentApproval, listeningState, askApproval]);
+
+  // Spoken answers
+  useEffect(() => {
+    const unsubscribe = wakeWordService.onPhrase((text) => {
+      const approval = useAppStore.getState().pendingApprovals[0];
+      const decision = parseApprovalAnswer(text);
+      if (!approval || !decision) {
+        return;
+      }
+      decideApproval(approval.id, decision);
+      ttsService.speak(decision === 'deny' ? 'Denied.' : 'Approved.').catch((err) => {
+        console.error('[Home] TTS failed:', err);
+      });
+    });
+
+    return unsubscribe;
+  }, [decideApproval]);
+
+  // Nobody answered in time: deny
+  useEffect(() => {
+    const timers = pendingApprovals.map((approval) =>
+      setTimeout(() => {
+        console.log('[Home] Approval timed out:', approval.id);
+        decideApproval(approval.id, 'deny');
+        ttsService.speak('No answer, command denied.').catch((err) => {
+          console.error('[Home] TTS failed:', err);
+        });
+      }, Math.max(0, approval.expiresAt - Date.now()))
+    );
+
+    return () => timers.forEach(clearTimeout);
+  }, [pendingApprovals, decideApproval]);
+
+  // All answered: back to the wake word
+  useEffect(() => {
+    if (currentApproval || !isListeningForAnswer) {
+      return;
+    }
+    setIsListeningForAnswer(false);
+    wakeWordService.stopPhrases()
+      .then(resumeWakeWordDetection)
+      .catch((error) => console.error('[Home] Failed to stop listening for answers:', error));
+  }, [currentApproval, isListeningForAnswer, resumeWakeWordDetection]);
+
+  // Message notifications: open the message, "Reply by voice" starts recording
+  useEffect(() => {
+    const unsubscribe = notificationService.onOpen(({ messageId, action }) => {
+      setFocusMessageId(messageId);
+      if (action === 'reply' && useAppStore.getState().listeningState !== 'recording') {
+        handleWakeWordDetected();
+      }
+    });
+
+    return unsubscribe;
+  }, [handleWakeWordDetected]);
+
+  // Back in the app: the notifications have served their purpose
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        notificationService.clearMessages();
+      }
+    });
+
+    return () => subscription.remove();
+  }, []);
+
   // Manual button press - toggle recording or send test message
   const handleButtonPress = useCallback(async () => {
     if (!webSocketService.getIsConnected()) {
@@ -387,7 +994,7 @@ export const HomeScreen: React.FC<Props> = ({ navigation }) => {
 
     if (listeningState === 'recording') {
       // Stop recording/listening
-      if (settings.sttProvider === 'custom') {
+      if (recordsAudio) {
         await audioService.stopRecording();
       } else {
         await sttService.stopListening();
@@ -396,25 +1003,69 @@ export const HomeScreen: React.FC<Props> = ({ navigation }) => {
       // Start recording manually (simulates wake word)
       handleWakeWordDetected();
     }
-  }, [listeningState, handleWakeWordDetected, navigation, settings.sttProvider]);
+  }, [listeningState, handleWakeWordDetected, navigation, recordsAudio]);
 
-  // Long press - cancel recording
+  // Long press - cancel recording, or stop the running reply
   const handleButtonLongPress = useCallback(async () => {
     if (listeningState === 'recording') {
-      if (settings.sttProvider === 'custom') {
+      if (recordsAudio) {
         await audioService.cancelRecording();
       } else {
         await sttService.cancel();
       }
       resumeWakeWordDetection();
+    } else if (listeningState === 'processing' || activeRunId || ttsService.getIsSpeaking()) {
+      handleAbort();
     }
-  }, [listeningState, settings.sttProvider, resumeWakeWordDetection]);
+  }, [listeningState, activeRunId, recordsAudio, resumeWakeWordDetection, handleAbort]);
 
   // Play audio from conversation
   const handlePlayAudio = useCallback((audioUrl: string) => {
     audioService.playAudio(audioUrl);
   }, []);
 
+  // Page in older history when the user scrolls to the top
+  const handleLoadOlder = useCallback(async () => {
+    const oldest = useAppStore.getState().conversation[0];
+    if (!oldest || !hasMoreHistory || isLoadingOlderRef.current || !webSocketService.getIsConnected()) {
+      return;
+    }
+
+    isLoadingOlderRef.current = true;
+    setIsLoadingOlder(true);
+    try {
+      const page = await webSocketService.fetchHistory({ before: oldest.timestamp });
+      if (page.sessionKey === webSocketService.getSessionKey()) {
+        mergeHistory(page.messages);
+        setHasMoreHistory(page.hasMore && page.messages.length > 0);
+      }
+    } catch (error) {
+      console.error('[Home] Failed to load older history:', error);
+    } finally {
+      isLoadingOlderRef.current = false;
+      setIsLoadingOlder(false);
+    }
+  }, [hasMoreHistory, mergeHistory, setHasMoreHistory]);
+
+  // Retry a queued message (replays the whole outbox in order)
+  const handleRetryMessage = useCallback(async (id: string) => {
+    setMessageStatus(id, 'pending');
+    await outboxService.retry(id);
+    if (!webSocketService.getIsConnected()) {
+      Alert.alert('Not Connected', 'The message will be sent once the gateway is reachable');
+      return;
+    }
+    webSocketService.flushOutbox();
+  }, [setMessageStatus]);
+
+  // Discard a queued message
+  const handleDiscardMessage = useCallback(async (id: string) => {
+    const item = outboxService.getItems().find((queued) => queued.id === id);
+    await outboxService.remove(id);
+    await deleteAttachments(item?.attachments);
+    removeMessage(id);
+  }, [removeMessage]);
+
   // Get status text
   const getStatusText = (): string => {
     if (connectionState === 'disconnected') {
@@ -423,15 +1074,21 @@ export const HomeScreen: React.FC<Props> = ({ navigation }) => {
     if (connectionState === 'connecting') {
       return 'Connecting...';
     }
+    if (currentApproval) {
+      return isListeningForAnswer ? 'Approval needed - say "yes" or "no"' : 'Approval needed - tap to answer';
+    }
     if (!settings.voskModelPath) {
       return '⚠️ Download Vosk model in Settings';
     }
     if (listeningState === 'recording') {
-      return 'Listening... tap to stop';
+      return settings.voiceNotes !== 'off' ? 'Recording voice note... tap to send' : 'Listening... tap to stop';
     }
     if (listeningState === 'processing') {
       return 'Processing...';
     }
+    if (activeRunId) {
+      return 'Replying... say "stop" or hold to cancel';
+    }
     return `Say "${settings.wakeWord}" or tap`;
   };
 
@@ -440,6 +1097,7 @@ export const HomeScreen: React.FC<Props> = ({ navigation }) => {
       {/* Header */}
       <View style={styles.header}>
         <Text style={styles.title}>HeyClaw</Text>
+        <ProfileSwitcher />
         <TouchableOpacity
           style={styles.settingsButton}
           onPress={() => navigation.navigate('Settings')}
@@ -456,9 +1114,30 @@ export const HomeScreen: React.FC<Props> = ({ navigation }) => {
 
       {/* Conversation */}
       <View style={styles.conversationContainer}>
-        <ConversationList onPlayAudio={handlePlayAudio} />
+        <ConversationList
+          onPlayAudio={handlePlayAudio}
+          onRetryMessage={handleRetryMessage}
+          onDiscardMessage={handleDiscardMessage}
+          onLoadOlder={handleLoadOlder}
+          isLoadingOlder={isLoadingOlder}
+          focusMessageId={focusMessageId}
+          onFocusHandled={() => setFocusMessageId(null)}
+        />
       </View>
 
+      {/* Command waiting for approval */}
+      {currentApproval && (
+        <ApprovalCard
+          approval={currentApproval}
+          queued={pendingApprovals.length - 1}
+          isListening={isListeningForAnswer}
+          onDecide={decideApproval}
+        />
+      )}
+
+      {/* Images for the next message */}
+      <ImageAttachments />
+
       {/* Listening Button */}
       <View style={styles.buttonContainer}>
         <ListeningButton
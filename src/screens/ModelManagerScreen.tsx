@@ -26,6 +26,7 @@ import {
   type InstalledModel,
   type DownloadProgress,
 } from '../services/ModelDownloadService';
+import { voskEngine } from '../services/VoskEngine';
 import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import type { RootStackParamList } from '../navigation';
 
@@ -211,6 +212,11 @@ export const ModelManagerScreen: React.FC<Props> = ({ navigation: _navigation })
           style: 'destructive',
           onPress: async () => {
             try {
+              // Free the model before its files go away
+              if (isCurrentlyActive) {
+                await voskEngine.unload();
+              }
+
               await modelDownloadService.deleteModel(model.id);
               
               // If this was the active model, clear the setting
@@ -231,7 +237,15 @@ export const ModelManagerScreen: React.FC<Props> = ({ navigation: _navigation })
   };
 
   // Set model as active
-  const handleSetActive = (model: InstalledModel) => {
+  const handleSetActive = async (model: InstalledModel) => {
+    try {
+      // Wake word and STT share the loaded model, swap it in place
+      await voskEngine.switchModel(model.path);
+    } catch (error: any) {
+      Alert.alert('Error', `Failed to load ${model.name}: ${error.message}`);
+      return;
+    }
+
     updateSettings({ voskModelPath: model.path });
     Alert.alert(
       'Model Activated',
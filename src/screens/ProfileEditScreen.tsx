@@ -0,0 +1,359 @@
+/**
+ * Profile Edit Screen
+ *
+ * Create or edit a gateway profile: connection, session and optional
+ * wake word / STT / TTS overrides.
+ */
+
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { useAppStore } from '../store';
+import {
+  COLORS,
+  DEFAULT_SESSION_KEY,
+  SESSION_KEY_PATTERN,
+  STT_PROVIDERS,
+  TTS_PROVIDERS,
+  VOICE_NOTE_MODES,
+} from '../constants';
+import type { GatewayProfile, STTProvider, TTSProvider, VoiceNoteMode } from '../types';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import type { RouteProp } from '@react-navigation/native';
+import type { RootStackParamList } from '../navigation';
+
+type Props = {
+  navigation: NativeStackNavigationProp<RootStackParamList, 'ProfileEdit'>;
+  route: RouteProp<RootStackParamList, 'ProfileEdit'>;
+};
+
+export const ProfileEditScreen: React.FC<Props> = ({ navigation, route }) => {
+  const { settings, saveProfile, deleteProfile } = useAppStore();
+  const existing = settings.profiles.find((p) => p.id === route.params?.profileId);
+
+  // New profiles start from the current connection
+  const [name, setName] = useState(existing?.name || '');
+  const [gatewayUrl, setGatewayUrl] = useState(existing?.gatewayUrl ?? settings.gatewayUrl);
+  const [gatewayToken, setGatewayToken] = useState(existing?.gatewayToken ?? settings.gatewayToken);
+  const [sessionKey, setSessionKey] = useState(
+    existing?.sessionKey || settings.sessionKey || DEFAULT_SESSION_KEY
+  );
+  const [showToken, setShowToken] = useState(false);
+
+  // Overrides (empty/undefined = use the global setting)
+  const [wakeWord, setWakeWord] = useState(existing?.wakeWord || '');
+  const [sttProvider, setSttProvider] = useState<STTProvider | undefined>(existing?.sttProvider);
+  const [ttsProvider, setTtsProvider] = useState<TTSProvider | undefined>(existing?.ttsProvider);
+  const [voiceNotes, setVoiceNotes] = useState<VoiceNoteMode | undefined>(existing?.voiceNotes);
+
+  const handleSave = () => {
+    const trimmedName = name.trim();
+    const trimmedKey = sessionKey.trim();
+
+    if (!trimmedName || !gatewayUrl.trim()) {
+      Alert.alert('Missing Fields', 'A profile needs a name and a gateway address');
+      return;
+    }
+    if (
+      settings.profiles.some(
+        (p) => p.id !== existing?.id && p.name.toLowerCase() === trimmedName.toLowerCase()
+      )
+    ) {
+      Alert.alert('Duplicate Name', `There already is a profile called "${trimmedName}"`);
+      return;
+    }
+    if (!SESSION_KEY_PATTERN.test(trimmedKey)) {
+      Alert.alert(
+        'Invalid Session Key',
+        'Session keys look like "agent:<agent-id>:<name>", e.g. agent:voice:main',
+      );
+      return;
+    }
+
+    const profile: GatewayProfile = {
+      id: existing?.id || `profile-${Date.now()}`,
+      name: trimmedName,
+      gatewayUrl: gatewayUrl.trim(),
+      gatewayToken: gatewayToken.trim(),
+      sessionKey: trimmedKey,
+      ...(wakeWord.trim() ? { wakeWord: wakeWord.toLowerCase().trim() } : {}),
+      ...(sttProvider ? { sttProvider } : {}),
+      ...(ttsProvider ? { ttsProvider } : {}),
+      ...(voiceNotes ? { voiceNotes } : {}),
+    };
+
+    saveProfile(profile);
+    navigation.goBack();
+  };
+
+  const handleDelete = () => {
+    if (!existing) {
+      return;
+    }
+    Alert.alert(
+      'Delete Profile',
+      `Delete "${existing.name}"?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => {
+            deleteProfile(existing.id);
+            navigation.goBack();
+          },
+        },
+      ]
+    );
+  };
+
+  const renderOptions = <T extends string>(
+    options: { label: string; value: T }[],
+    selected: T | undefined,
+    onSelect: (value: T | undefined) => void,
+  ) => (
+    <View style={styles.optionGrid}>
+      {[{ label: 'Default', value: undefined }, ...options].map((option) => {
+        const active = option.value === selected;
+        return (
+          <TouchableOpacity
+            key={option.value || 'default'}
+            style={[styles.optionButton, active && styles.optionButtonActive]}
+            onPress={() => onSelect(option.value)}
+          >
+            <Text style={[styles.optionText, active && styles.optionTextActive]}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.content}>
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>🔌 Connection</Text>
+
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>Name</Text>
+            <TextInput
+              style={styles.input}
+              value={name}
+              onChangeText={setName}
+              placeholder="Home, Lab, Staging..."
+              placeholderTextColor={COLORS.textSecondary}
+            />
+            <Text style={styles.hint}>
+              Say "switch to {name.trim() || 'lab'}" to use this profile hands-free
+            </Text>
+          </View>
+
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>Gateway Address</Text>
+            <TextInput
+              style={styles.input}
+              value={gatewayUrl}
+              onChangeText={setGatewayUrl}
+              placeholder="192.168.1.100:18789"
+              placeholderTextColor={COLORS.textSecondary}
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="url"
+            />
+          </View>
+
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>Gateway Token</Text>
+            <View style={styles.tokenContainer}>
+              <TextInput
+                style={[styles.input, styles.tokenInput]}
+                value={gatewayToken}
+                onChangeText={setGatewayToken}
+                placeholder="Enter your gateway token"
+                placeholderTextColor={COLORS.textSecondary}
+                secureTextEntry={!showToken}
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+              <TouchableOpacity
+                style={styles.toggleButton}
+                onPress={() => setShowToken(!showToken)}
+              >
+                <Text style={styles.toggleText}>{showToken ? '🙈' : '👁️'}</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>Session Key</Text>
+            <TextInput
+              style={styles.input}
+              value={sessionKey}
+              onChangeText={setSessionKey}
+              placeholder={DEFAULT_SESSION_KEY}
+              placeholderTextColor={COLORS.textSecondary}
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>🎛️ Voice Overrides</Text>
+          <Text style={styles.sectionDescription}>
+            Optional - "Default" uses your global settings
+          </Text>
+
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>Wake Word</Text>
+            <TextInput
+              style={styles.input}
+              value={wakeWord}
+              onChangeText={setWakeWord}
+              placeholder={`Default (${settings.profileDefaults?.wakeWord || settings.wakeWord})`}
+              placeholderTextColor={COLORS.textSecondary}
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+          </View>
+
+          <Text style={styles.label}>Speech-to-Text</Text>
+          {renderOptions(STT_PROVIDERS, sttProvider, setSttProvider)}
+
+          <Text style={styles.label}>Text-to-Speech</Text>
+          {renderOptions(TTS_PROVIDERS, ttsProvider, setTtsProvider)}
+
+          <Text style={styles.label}>Voice Notes</Text>
+          {renderOptions(VOICE_NOTE_MODES, voiceNotes, setVoiceNotes)}
+        </View>
+
+        <TouchableOpacity style={styles.saveButton} onPress={handleSave}>
+          <Text style={styles.saveButtonText}>Save Profile</Text>
+        </TouchableOpacity>
+
+        {existing && (
+          <TouchableOpacity style={styles.dangerButton} onPress={handleDelete}>
+            <Text style={styles.dangerButtonText}>Delete Profile</Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  content: {
+    padding: 16,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: COLORS.text,
+    marginBottom: 8,
+  },
+  sectionDescription: {
+    fontSize: 14,
+    color: COLORS.textSecondary,
+    marginBottom: 16,
+  },
+  inputGroup: {
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 14,
+    color: COLORS.textSecondary,
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: COLORS.surface,
+    borderRadius: 8,
+    padding: 12,
+    color: COLORS.text,
+    fontSize: 16,
+  },
+  hint: {
+    fontSize: 12,
+    color: COLORS.textSecondary,
+    marginTop: 4,
+    fontStyle: 'italic',
+  },
+  tokenContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  tokenInput: {
+    flex: 1,
+  },
+  toggleButton: {
+    padding: 12,
+    marginLeft: 8,
+  },
+  toggleText: {
+    fontSize: 20,
+  },
+  optionGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  optionButton: {
+    backgroundColor: COLORS.surface,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  optionButtonActive: {
+    borderColor: COLORS.primary,
+  },
+  optionText: {
+    color: COLORS.textSecondary,
+    fontSize: 14,
+  },
+  optionTextActive: {
+    color: COLORS.text,
+    fontWeight: '600',
+  },
+  saveButton: {
+    backgroundColor: COLORS.primary,
+    borderRadius: 8,
+    padding: 16,
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    color: COLORS.text,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  dangerButton: {
+    backgroundColor: COLORS.error,
+    borderRadius: 8,
+    padding: 14,
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  dangerButtonText: {
+    color: COLORS.text,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
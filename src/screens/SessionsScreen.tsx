@@ -0,0 +1,279 @@
+/**
+ * Sessions Screen
+ *
+ * Lists the sessions exposed by the gateway and lets the user pick one
+ * or create a new one (e.g. a dedicated "voice" agent session).
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+  RefreshControl,
+  ActivityIndicator,
+} from 'react-native';
+import { COLORS, DEFAULT_SESSION_KEY, SESSION_KEY_PATTERN } from '../constants';
+import { useAppStore } from '../store';
+import { webSocketService } from '../services';
+import type { SessionInfo } from '../types';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import type { RootStackParamList } from '../navigation';
+
+type Props = {
+  navigation: NativeStackNavigationProp<RootStackParamList, 'Sessions'>;
+};
+
+export const SessionsScreen: React.FC<Props> = ({ navigation }) => {
+  const { settings, updateSettings, clearConversation, connectionState } = useAppStore();
+
+  const [sessions, setSessions] = useState<SessionInfo[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [newSessionKey, setNewSessionKey] = useState('');
+
+  // Load sessions from the gateway
+  const loadSessions = useCallback(async () => {
+    if (!webSocketService.getIsConnected()) {
+      setLoadError('Not connected to gateway');
+      setLoading(false);
+      setRefreshing(false);
+      return;
+    }
+
+    try {
+      const list = await webSocketService.listSessions();
+      setSessions(list);
+      setLoadError(null);
+    } catch (error: any) {
+      console.error('[Sessions] Error loading sessions:', error);
+      setLoadError(error.message || 'Failed to load sessions');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions, connectionState]);
+
+  const onRefresh = useCallback(() => {
+    setRefreshing(true);
+    loadSessions();
+  }, [loadSessions]);
+
+  // Switch to a session
+  const handleSelect = (sessionKey: string) => {
+    if (sessionKey !== settings.sessionKey) {
+      // Messages from the previous session would be misleading here
+      clearConversation();
+      updateSettings({ sessionKey });
+    }
+    navigation.goBack();
+  };
+
+  // Create a new session (the gateway creates it on the first message)
+  const handleCreate = () => {
+    const key = newSessionKey.trim();
+    if (!key) {
+      return;
+    }
+    if (!SESSION_KEY_PATTERN.test(key)) {
+      Alert.alert(
+        'Invalid Session Key',
+        'Session keys look like "agent:<agent-id>:<name>", e.g. agent:voice:main',
+      );
+      return;
+    }
+    setNewSessionKey('');
+    handleSelect(key);
+  };
+
+  const renderSessionCard = (session: SessionInfo) => {
+    const active = session.key === settings.sessionKey;
+
+    return (
+      <TouchableOpacity
+        key={session.key}
+        style={[styles.sessionCard, active && styles.sessionCardActive]}
+        onPress={() => handleSelect(session.key)}
+      >
+        <View style={styles.sessionInfo}>
+          <Text style={styles.sessionName}>{session.label || session.key}</Text>
+          {!!session.label && <Text style={styles.sessionKey}>{session.key}</Text>}
+          {!!session.updatedAt && (
+            <Text style={styles.sessionMeta}>
+              Last active {new Date(session.updatedAt).toLocaleString()}
+            </Text>
+          )}
+        </View>
+        {active && <Text style={styles.activeText}>● Active</Text>}
+      </TouchableOpacity>
+    );
+  };
+
+  // Always offer the active and the main session, even if the gateway doesn't list them
+  const listed = [...sessions];
+  [settings.sessionKey, DEFAULT_SESSION_KEY].forEach((key) => {
+    if (key && !listed.some((s) => s.key === key)) {
+      listed.unshift({ key });
+    }
+  });
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView
+        contentContainerStyle={styles.content}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={onRefresh}
+            tintColor={COLORS.primary}
+            colors={[COLORS.primary]}
+          />
+        }
+      >
+        <View style={styles.header}>
+          <Text style={styles.title}>💬 Sessions</Text>
+          <Text style={styles.subtitle}>
+            HeyClaw only shows and speaks messages from the active session.
+          </Text>
+        </View>
+
+        {loading ? (
+          <ActivityIndicator size="large" color={COLORS.primary} />
+        ) : (
+          <View style={styles.section}>
+            {loadError && <Text style={styles.errorText}>⚠️ {loadError}</Text>}
+            {listed.map((session) => renderSessionCard(session))}
+          </View>
+        )}
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>New Session</Text>
+          <TextInput
+            style={styles.input}
+            value={newSessionKey}
+            onChangeText={setNewSessionKey}
+            placeholder="agent:voice:main"
+            placeholderTextColor={COLORS.textSecondary}
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+          <Text style={styles.hint}>
+            The session is created on the gateway with your first message
+          </Text>
+          <TouchableOpacity style={styles.createButton} onPress={handleCreate}>
+            <Text style={styles.createButtonText}>Use New Session</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  content: {
+    padding: 16,
+  },
+  header: {
+    marginBottom: 20,
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: COLORS.text,
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 15,
+    color: COLORS.textSecondary,
+    lineHeight: 22,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: COLORS.text,
+    marginBottom: 12,
+  },
+  sessionCard: {
+    backgroundColor: COLORS.surface,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 2,
+    borderColor: 'transparent',
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  sessionCardActive: {
+    borderColor: COLORS.primary,
+  },
+  sessionInfo: {
+    flex: 1,
+  },
+  sessionName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.text,
+  },
+  sessionKey: {
+    fontSize: 13,
+    color: COLORS.textSecondary,
+    marginTop: 2,
+  },
+  sessionMeta: {
+    fontSize: 12,
+    color: COLORS.textSecondary,
+    marginTop: 4,
+  },
+  activeText: {
+    fontSize: 13,
+    color: COLORS.primary,
+    fontWeight: '600',
+  },
+  errorText: {
+    fontSize: 14,
+    color: COLORS.warning,
+    marginBottom: 12,
+  },
+  input: {
+    backgroundColor: COLORS.surface,
+    borderRadius: 8,
+    padding: 12,
+    color: COLORS.text,
+    fontSize: 16,
+  },
+  hint: {
+    fontSize: 12,
+    color: COLORS.textSecondary,
+    marginTop: 4,
+    fontStyle: 'italic',
+  },
+  createButton: {
+    backgroundColor: COLORS.primary,
+    borderRadius: 8,
+    padding: 14,
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  createButtonText: {
+    color: COLORS.text,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -3,7 +3,7 @@
  * Configure gateway connection, wake word, STT/TTS providers
  */
 
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import {
   View,
   Text,
@@ -17,7 +17,10 @@ import {
   Platform,
 } from 'react-native';
 import { useAppStore } from '../store';
-import { COLORS, SUGGESTED_WAKE_WORDS, PLATFORM_FEATURES, STT_PROVIDERS } from '../constants';
+import { GatewayPairing, WakeWordBindings } from '../components';
+import { audioService, wakeWordService, sttService } from '../services';
+import type { PairingInfo } from '../services/GatewayPairing';
+import { COLORS, SUGGESTED_WAKE_WORDS, PLATFORM_FEATURES, STT_PROVIDERS, TTS_PROVIDERS, VOICE_NOTE_MODES, ACTIVITY_CONFIG, SENSITIVITY_LEVELS, PRE_ROLL_OPTIONS, RECORDING_CONFIG, RECORDING_STT_PROVIDERS, OPENAI_STT_CONFIG } from '../constants';
 import type { TTSProvider, STTProvider } from '../types';
 import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import type { RootStackParamList } from '../navigation';
@@ -26,14 +29,16 @@ type Props = {
   navigation: NativeStackNavigationProp<RootStackParamList, 'Settings'>;
 };
 
-const TTS_PROVIDERS: { label: string; value: TTSProvider; description: string }[] = [
-  { label: '📱 Device (Default)', value: 'device', description: 'On-device TTS, works offline' },
-  { label: '🌐 Custom Endpoint', value: 'custom', description: 'Self-hosted Piper or XTTS' },
-  { label: '🎙️ ElevenLabs', value: 'elevenlabs', description: 'Cloud TTS, requires API key' },
-];
-
 export const SettingsScreen: React.FC<Props> = ({ navigation }) => {
-  const { settings, updateSettings, clearConversation } = useAppStore();
+  const { settings, updateSettings, clearConversation, switchProfile } = useAppStore();
+  const activeProfile = settings.profiles.find((p) => p.id === settings.activeProfileId);
+  // Closest step, the stored value may be anywhere between 0 and 1
+  const activeSensitivity = SENSITIVITY_LEVELS.reduce((closest, level) =>
+    Math.abs(level.value - settings.voiceActivationSensitivity) <
+    Math.abs(closest.value - settings.voiceActivationSensitivity)
+      ? level
+      : closest
+  );
   
   const [gatewayUrl, setGatewayUrl] = useState(settings.gatewayUrl);
   const [gatewayToken, setGatewayToken] = useState(settings.gatewayToken);
@@ -46,6 +51,13 @@ export const SettingsScreen: React.FC<Props> = ({ navigation }) => {
   // STT state
   const [sttProvider, setSttProvider] = useState<STTProvider>(settings.sttProvider || 'vosk');
   const [customSTTUrl, setCustomSTTUrl] = useState(settings.customSTTUrl || '');
+  const [openAISTTUrl, setOpenAISTTUrl] = useState(settings.openAISTTUrl || '');
+  const [openAISTTApiKey, setOpenAISTTApiKey] = useState(settings.openAISTTApiKey || '');
+  const [showOpenAISTTKey, setShowOpenAISTTKey] = useState(false);
+  const [openAISTTModel, setOpenAISTTModel] = useState(settings.openAISTTModel || '');
+  const [openAISTTLanguage, setOpenAISTTLanguage] = useState(settings.openAISTTLanguage || '');
+  const [openAISTTPrompt, setOpenAISTTPrompt] = useState(settings.openAISTTPrompt || '');
+  const [testingSTT, setTestingSTT] = useState(false);
   
   // TTS state
   const [ttsProvider, setTtsProvider] = useState<TTSProvider>(settings.ttsProvider || 'device');
@@ -53,6 +65,17 @@ export const SettingsScreen: React.FC<Props> = ({ navigation }) => {
   const [elevenLabsApiKey, setElevenLabsApiKey] = useState(settings.elevenLabsApiKey || '');
   const [elevenLabsVoiceId, setElevenLabsVoiceId] = useState(settings.elevenLabsVoiceId || '');
   const [showElevenLabsKey, setShowElevenLabsKey] = useState(false);
+  const [calibrating, setCalibrating] = useState(false);
+
+  // Show the values of a profile picked while this screen is open
+  useEffect(() => {
+    const current = useAppStore.getState().settings;
+    setGatewayUrl(current.gatewayUrl);
+    setGatewayToken(current.gatewayToken);
+    setCustomWakeWord(current.wakeWord);
+    setSttProvider(current.sttProvider);
+    setTtsProvider(current.ttsProvider);
+  }, [settings.activeProfileId]);
 
   const handleSave = () => {
     updateSettings({
@@ -61,6 +84,11 @@ export const SettingsScreen: React.FC<Props> = ({ navigation }) => {
       wakeWord: customWakeWord.toLowerCase().trim(),
       sttProvider,
       customSTTUrl,
+      openAISTTUrl: openAISTTUrl.trim(),
+      openAISTTApiKey: openAISTTApiKey.trim(),
+      openAISTTModel: openAISTTModel.trim() || OPENAI_STT_CONFIG.defaultModel,
+      openAISTTLanguage: openAISTTLanguage.trim(),
+      openAISTTPrompt: openAISTTPrompt.trim(),
       // voskModelPath is managed by ModelManagerScreen
       ttsProvider,
       customTTSUrl,
@@ -70,11 +98,64 @@ export const SettingsScreen: React.FC<Props> = ({ navigation }) => {
     Alert.alert('Saved', 'Settings have been saved');
   };
 
+  // Pairing already tested the connection, save right away
+  const handlePaired = (info: PairingInfo) => {
+    setGatewayUrl(info.gatewayUrl);
+    setGatewayToken(info.token);
+    updateSettings({ gatewayUrl: info.gatewayUrl, gatewayToken: info.token });
+  };
+
   const handleWakeWordSelect = (wakeWord: string) => {
     setCustomWakeWord(wakeWord);
     updateSettings({ wakeWord: wakeWord.toLowerCase() });
   };
 
+  const handleCalibrate = async () => {
+    setCalibrating(true);
+    // The wake word detection has the microphone, lend it for the measurement
+    const wasListening = wakeWordService.getIsListening();
+    try {
+      await wakeWordService.stopListening();
+      const speechLevelDb = await audioService.calibrateSpeechLevel();
+      updateSettings({ speechLevelDb });
+    } catch (error) {
+      console.error('[Settings] Calibration failed:', error);
+      Alert.alert('Calibration failed', 'Could not measure the background noise');
+    } finally {
+      if (wasListening) {
+        await wakeWordService.startListening().catch(() => {});
+      }
+      setCalibrating(false);
+    }
+  };
+
+  // Uploads the bundled sample clip with the values entered, saved or not
+  const handleTestSTT = async () => {
+    if (!openAISTTUrl.trim()) {
+      Alert.alert('No server', 'Enter the server URL first');
+      return;
+    }
+    setTestingSTT(true);
+    try {
+      const text = await sttService.testOpenAIEndpoint({
+        url: openAISTTUrl,
+        apiKey: openAISTTApiKey,
+        model: openAISTTModel,
+        language: openAISTTLanguage,
+        prompt: openAISTTPrompt,
+      });
+      Alert.alert(
+        'Endpoint works',
+        text ? `The sample clip came back as "${text}"` : 'The sample clip was transcribed (it has no words)',
+      );
+    } catch (error) {
+      console.error('[Settings] STT endpoint test failed:', error);
+      Alert.alert('Endpoint test failed', error instanceof Error ? error.message : String(error));
+    } finally {
+      setTestingSTT(false);
+    }
+  };
+
   const handleClearConversation = () => {
     Alert.alert(
       'Clear Conversation',
@@ -99,6 +180,9 @@ export const SettingsScreen: React.FC<Props> = ({ navigation }) => {
           <Text style={styles.sectionDescription}>
             Connect to your OpenClaw gateway
           </Text>
+
+          <GatewayPairing onPaired={handlePaired} />
+          <Text style={styles.label}>Or enter address and token manually:</Text>
           
           <View style={styles.inputGroup}>
             <Text style={styles.label}>Gateway Address</Text>
@@ -142,11 +226,85 @@ export const SettingsScreen: React.FC<Props> = ({ navigation }) => {
             </Text>
           </View>
 
+          {activeProfile && (
+            <Text style={styles.hint}>
+              Changes are saved to the "{activeProfile.name}" profile
+            </Text>
+          )}
+
           <TouchableOpacity style={styles.saveButton} onPress={handleSave}>
             <Text style={styles.saveButtonText}>Save Settings</Text>
           </TouchableOpacity>
         </View>
 
+        {/* Profiles */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>🗂️ Profiles</Text>
+          <Text style={styles.sectionDescription}>
+            Named gateways (home, lab, staging...) to switch between from the home screen
+          </Text>
+
+          {settings.profiles.map((profile) => {
+            const active = profile.id === settings.activeProfileId;
+            return (
+              <TouchableOpacity
+                key={profile.id}
+                style={[styles.profileCard, active && styles.profileCardActive]}
+                onPress={() => navigation.navigate('ProfileEdit', { profileId: profile.id })}
+              >
+                <View style={styles.profileInfo}>
+                  <Text style={styles.profileName}>{profile.name}</Text>
+                  <Text style={styles.profileMeta} numberOfLines={1}>
+                    {profile.gatewayUrl} • {profile.sessionKey}
+                  </Text>
+                </View>
+                {active ? (
+                  <Text style={styles.profileActiveText}>● Active</Text>
+                ) : (
+                  <TouchableOpacity
+                    style={styles.useProfileButton}
+                    onPress={() => switchProfile(profile.id)}
+                  >
+                    <Text style={styles.useProfileText}>Use</Text>
+                  </TouchableOpacity>
+                )}
+              </TouchableOpacity>
+            );
+          })}
+
+          <TouchableOpacity
+            style={styles.modelManagerButton}
+            onPress={() => navigation.navigate('ProfileEdit')}
+          >
+            <Text style={styles.modelManagerButtonText}>➕ Add Profile</Text>
+          </TouchableOpacity>
+          <Text style={styles.hint}>
+            New profiles start from the current connection
+          </Text>
+        </View>
+
+        {/* Session */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>💬 Session</Text>
+          <Text style={styles.sectionDescription}>
+            Which agent session HeyClaw talks to
+          </Text>
+
+          <View style={styles.activeModelCard}>
+            <View style={styles.activeModelInfo}>
+              <Text style={styles.activeModelLabel}>Active Session:</Text>
+              <Text style={styles.activeModelName}>{settings.sessionKey}</Text>
+            </View>
+          </View>
+
+          <TouchableOpacity
+            style={styles.modelManagerButton}
+            onPress={() => navigation.navigate('Sessions')}
+          >
+            <Text style={styles.modelManagerButtonText}>💬 Choose Session</Text>
+          </TouchableOpacity>
+        </View>
+
         {/* Wake Word */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>🎤 Wake Word</Text>
@@ -193,6 +351,47 @@ export const SettingsScreen: React.FC<Props> = ({ navigation }) => {
             ))}
           </View>
 
+          <Text style={styles.label}>Sensitivity</Text>
+          <View style={styles.sensitivityGrid}>
+            {SENSITIVITY_LEVELS.map((level) => (
+              <TouchableOpacity
+                key={level.value}
+                style={[
+                  styles.wakeWordButton,
+                  activeSensitivity.value === level.value && styles.wakeWordButtonActive,
+                ]}
+                onPress={() => updateSettings({ voiceActivationSensitivity: level.value })}
+              >
+                <Text
+                  style={[
+                    styles.wakeWordText,
+                    activeSensitivity.value === level.value && styles.wakeWordTextActive,
+                  ]}
+                >
+                  {level.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <Text style={styles.hint}>{activeSensitivity.description}</Text>
+
+          <View style={styles.settingRow}>
+            <View style={styles.settingInfo}>
+              <Text style={styles.settingLabel}>Speak through</Text>
+              <Text style={styles.settingDescription}>
+                Say the command right after the wake word, e.g. "computer, what's on my calendar today"
+              </Text>
+            </View>
+            <Switch
+              value={settings.speakThrough}
+              onValueChange={(value) => updateSettings({ speakThrough: value })}
+              trackColor={{ false: COLORS.surfaceLight, true: COLORS.primary }}
+              thumbColor={COLORS.text}
+            />
+          </View>
+
+          <WakeWordBindings />
+
           <View style={styles.infoBox}>
             <Text style={styles.infoText}>
               💡 Wake word detection is 100% offline using Vosk - no API keys or cloud needed!
@@ -287,6 +486,134 @@ export const SettingsScreen: React.FC<Props> = ({ navigation }) => {
             </View>
           )}
 
+          {sttProvider === 'openai' && (
+            <>
+              <View style={styles.inputGroup}>
+                <Text style={styles.label}>Server URL</Text>
+                <TextInput
+                  style={styles.input}
+                  value={openAISTTUrl}
+                  onChangeText={setOpenAISTTUrl}
+                  placeholder="http://192.168.1.10:8000"
+                  placeholderTextColor={COLORS.textSecondary}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  keyboardType="url"
+                />
+                <Text style={styles.hint}>
+                  Recordings are posted to {OPENAI_STT_CONFIG.path} on this server
+                </Text>
+              </View>
+              <View style={styles.inputGroup}>
+                <Text style={styles.label}>API Key</Text>
+                <View style={styles.tokenContainer}>
+                  <TextInput
+                    style={[styles.input, styles.tokenInput]}
+                    value={openAISTTApiKey}
+                    onChangeText={setOpenAISTTApiKey}
+                    placeholder="Optional, sent as Bearer token"
+                    placeholderTextColor={COLORS.textSecondary}
+                    secureTextEntry={!showOpenAISTTKey}
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                  />
+                  <TouchableOpacity
+                    style={styles.toggleButton}
+                    onPress={() => setShowOpenAISTTKey(!showOpenAISTTKey)}
+                  >
+                    <Text style={styles.toggleText}>{showOpenAISTTKey ? '🙈' : '👁️'}</Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+              <View style={styles.inputGroup}>
+                <Text style={styles.label}>Model</Text>
+                <TextInput
+                  style={styles.input}
+                  value={openAISTTModel}
+                  onChangeText={setOpenAISTTModel}
+                  placeholder={OPENAI_STT_CONFIG.defaultModel}
+                  placeholderTextColor={COLORS.textSecondary}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                />
+                <Text style={styles.hint}>
+                  e.g. Systran/faster-whisper-small for faster-whisper-server
+                </Text>
+              </View>
+              <View style={styles.inputGroup}>
+                <Text style={styles.label}>Language</Text>
+                <TextInput
+                  style={styles.input}
+                  value={openAISTTLanguage}
+                  onChangeText={setOpenAISTTLanguage}
+                  placeholder="Detected by the server"
+                  placeholderTextColor={COLORS.textSecondary}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                />
+                <Text style={styles.hint}>
+                  Two-letter code like en or de, faster and more reliable than detection
+                </Text>
+              </View>
+              <View style={styles.inputGroup}>
+                <Text style={styles.label}>Prompt</Text>
+                <TextInput
+                  style={styles.input}
+                  value={openAISTTPrompt}
+                  onChangeText={setOpenAISTTPrompt}
+                  placeholder="Optional, e.g. HeyClaw, OpenClaw, Kubernetes"
+                  placeholderTextColor={COLORS.textSecondary}
+                  autoCorrect={false}
+                />
+                <Text style={styles.hint}>
+                  Names and terms the transcript should spell right
+                </Text>
+              </View>
+              <TouchableOpacity
+                style={styles.modelManagerButton}
+                onPress={handleTestSTT}
+                disabled={testingSTT}
+              >
+                <Text style={styles.modelManagerButtonText}>
+                  {testingSTT ? '⏳ Testing...' : '🧪 Test Endpoint'}
+                </Text>
+              </TouchableOpacity>
+              <Text style={styles.hint}>
+                Uploads a short sample clip with the values above, saved or not
+              </Text>
+            </>
+          )}
+
+          {RECORDING_STT_PROVIDERS.includes(sttProvider) && (
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Pre-roll</Text>
+              <View style={styles.sensitivityGrid}>
+                {PRE_ROLL_OPTIONS.map((option) => (
+                  <TouchableOpacity
+                    key={option.value}
+                    style={[
+                      styles.wakeWordButton,
+                      settings.preRollMs === option.value && styles.wakeWordButtonActive,
+                    ]}
+                    onPress={() => updateSettings({ preRollMs: option.value })}
+                  >
+                    <Text
+                      style={[
+                        styles.wakeWordText,
+                        settings.preRollMs === option.value && styles.wakeWordTextActive,
+                      ]}
+                    >
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <Text style={styles.hint}>
+                Audio from just before the recording starts is added, so the start of the sentence isn't lost (Android, not with voice notes)
+              </Text>
+            </View>
+          )}
+
           {sttProvider === 'device' && (
             <View style={styles.infoBox}>
               <Text style={styles.infoText}>
@@ -294,6 +621,58 @@ export const SettingsScreen: React.FC<Props> = ({ navigation }) => {
               </Text>
             </View>
           )}
+
+          <Text style={styles.label}>Voice Notes</Text>
+          <View style={styles.providerGrid}>
+            {VOICE_NOTE_MODES.map((mode) => (
+              <TouchableOpacity
+                key={mode.value}
+                style={[
+                  styles.providerButton,
+                  settings.voiceNotes === mode.value && styles.providerButtonActive,
+                ]}
+                onPress={() => updateSettings({ voiceNotes: mode.value })}
+              >
+                <Text
+                  style={[
+                    styles.providerLabel,
+                    settings.voiceNotes === mode.value && styles.providerLabelActive,
+                  ]}
+                >
+                  {mode.label}
+                </Text>
+                <Text style={styles.providerDesc}>{mode.description}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          {settings.voiceNotes === 'audio_transcript' && !RECORDING_STT_PROVIDERS.includes(sttProvider) && (
+            <Text style={styles.hint}>
+              The transcript needs Custom Whisper or OpenAI-compatible - Vosk and device recognition can't listen
+              while a voice note is recorded, so only the audio is sent
+            </Text>
+          )}
+
+          {(RECORDING_STT_PROVIDERS.includes(sttProvider) || settings.voiceNotes !== 'off') && (
+            <>
+              <Text style={styles.label}>End of Speech</Text>
+              <Text style={styles.hint}>
+                Recordings stop after {RECORDING_CONFIG.silenceThreshold / 1000} s of silence.
+                Louder than {settings.speechLevelDb} dB counts as speech.
+              </Text>
+              <TouchableOpacity
+                style={styles.modelManagerButton}
+                onPress={handleCalibrate}
+                disabled={calibrating}
+              >
+                <Text style={styles.modelManagerButtonText}>
+                  {calibrating ? '🤫 Listening...' : '🎚️ Calibrate to Background Noise'}
+                </Text>
+              </TouchableOpacity>
+              <Text style={styles.hint}>
+                Stay quiet for {RECORDING_CONFIG.calibrationMs / 1000} seconds, e.g. when recordings stop too late in a noisy place
+              </Text>
+            </>
+          )}
         </View>
 
         {/* Text-to-Speech */}
@@ -414,6 +793,38 @@ export const SettingsScreen: React.FC<Props> = ({ navigation }) => {
             />
           </View>
 
+          <View style={styles.settingRow}>
+            <View style={styles.settingInfo}>
+              <Text style={styles.settingLabel}>Spoken progress cues</Text>
+              <Text style={styles.settingDescription}>
+                Say "still working" when a reply takes more than {ACTIVITY_CONFIG.progressCueAfterMs / 1000} seconds
+              </Text>
+            </View>
+            <Switch
+              value={settings.progressCues}
+              onValueChange={(value) => updateSettings({ progressCues: value })}
+              trackColor={{ false: COLORS.surfaceLight, true: COLORS.primary }}
+              thumbColor={COLORS.text}
+            />
+          </View>
+
+          {PLATFORM_FEATURES.supportsMessageNotifications && (
+            <View style={styles.settingRow}>
+              <View style={styles.settingInfo}>
+                <Text style={styles.settingLabel}>Message notifications</Text>
+                <Text style={styles.settingDescription}>
+                  Show replies and agent messages as notifications while HeyClaw is in the background
+                </Text>
+              </View>
+              <Switch
+                value={settings.messageNotifications}
+                onValueChange={(value) => updateSettings({ messageNotifications: value })}
+                trackColor={{ false: COLORS.surfaceLight, true: COLORS.primary }}
+                thumbColor={COLORS.text}
+              />
+            </View>
+          )}
+
           <View style={styles.settingRow}>
             <View style={styles.settingInfo}>
               <Text style={styles.settingLabel}>Haptic feedback</Text>
@@ -470,6 +881,9 @@ export const SettingsScreen: React.FC<Props> = ({ navigation }) => {
                 <Text style={styles.featureItem}>
                   {PLATFORM_FEATURES.supportsAutoStart ? '✅' : '❌'} Auto-start on boot
                 </Text>
+                <Text style={styles.featureItem}>
+                  {PLATFORM_FEATURES.supportsMessageNotifications ? '✅' : '❌'} Message notifications
+                </Text>
               </View>
 
               {Platform.OS === 'ios' && (
@@ -478,6 +892,16 @@ export const SettingsScreen: React.FC<Props> = ({ navigation }) => {
                 </Text>
               )}
 
+              <TouchableOpacity
+                style={styles.modelManagerButton}
+                onPress={() => navigation.navigate('Diagnostics')}
+              >
+                <Text style={styles.modelManagerButtonText}>🩺 Connection Diagnostics</Text>
+              </TouchableOpacity>
+              <Text style={styles.hint}>
+                Raw gateway frames, errors and a report to copy when something doesn't work
+              </Text>
+
               <View style={styles.infoBox}>
                 <Text style={styles.infoText}>
                   🎉 No API keys required! HeyClaw uses Vosk for fully offline wake word detection and speech recognition.
@@ -605,6 +1029,49 @@ const styles = StyleSheet.create({
     fontSize: 13,
     marginBottom: 4,
   },
+  profileCard: {
+    backgroundColor: COLORS.surface,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: 'transparent',
+  },
+  profileCardActive: {
+    borderColor: COLORS.primary,
+  },
+  profileInfo: {
+    flex: 1,
+  },
+  profileActiveText: {
+    fontSize: 13,
+    color: COLORS.primary,
+    fontWeight: '600',
+  },
+  profileName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.text,
+  },
+  profileMeta: {
+    fontSize: 12,
+    color: COLORS.textSecondary,
+    marginTop: 2,
+  },
+  useProfileButton: {
+    backgroundColor: COLORS.surfaceLight,
+    borderRadius: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginLeft: 8,
+  },
+  useProfileText: {
+    color: COLORS.text,
+    fontSize: 14,
+    fontWeight: '600',
+  },
   activeModelCard: {
     backgroundColor: COLORS.surface,
     borderRadius: 8,
@@ -668,6 +1135,10 @@ const styles = StyleSheet.create({
     gap: 8,
     marginBottom: 16,
   },
+  sensitivityGrid: {
+    flexDirection: 'row',
+    gap: 8,
+  },
   wakeWordButton: {
     backgroundColor: COLORS.surface,
     paddingHorizontal: 16,
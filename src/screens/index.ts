@@ -5,3 +5,6 @@
 export { HomeScreen } from './HomeScreen';
 export { SettingsScreen } from './SettingsScreen';
 export { ModelManagerScreen } from './ModelManagerScreen';
+export { SessionsScreen } from './SessionsScreen';
+export { ProfileEditScreen } from './ProfileEditScreen';
+export { DiagnosticsScreen } from './DiagnosticsScreen';
@@ -0,0 +1,106 @@
+/**
+ * Agent activity
+ *
+ * Folds the gateway's `agent` events (run lifecycle and tool calls) into
+ * a short, human readable list of what the agent is doing right now,
+ * e.g. "Searching the web" or "Running tool calendar".
+ */
+
+import { ACTIVITY_CONFIG } from '../constants';
+import type { AgentEventPayload, RunActivity, ActivityStep } from '../types';
+
+// Friendly labels for common OpenClaw tools
+const TOOL_LABELS: Record<string, string> = {
+  web_search: 'Searching the web',
+  web_fetch: 'Reading a web page',
+  browser: 'Using the browser',
+  exec: 'Running a command',
+  bash: 'Running a command',
+  process: 'Checking a running command',
+  read: 'Reading a file',
+  write: 'Writing a file',
+  edit: 'Editing a file',
+  apply_patch: 'Editing files',
+  memory_search: 'Searching memory',
+  memory_get: 'Looking something up in memory',
+  image: 'Looking at an image',
+  message: 'Sending a message',
+  cron: 'Scheduling a task',
+  sessions_spawn: 'Starting a sub-agent',
+  sessions_send: 'Asking another agent',
+  nodes: 'Talking to a device',
+  canvas: 'Drawing on the canvas',
+};
+
+/**
+ * Describe a tool call for the user
+ */
+export function describeTool(name?: string): string {
+  if (!name) {
+    return 'Using a tool';
+  }
+  return TOOL_LABELS[name] || `Running tool ${name}`;
+}
+
+/**
+ * Apply an agent event to the activity of the current run.
+ * Returns null once the run is over.
+ */
+export function reduceAgentEvent(
+  activity: RunActivity | null,
+  payload: AgentEventPayload,
+): RunActivity | null {
+  const runId = payload.runId || activity?.runId || 'unknown';
+  const at = payload.ts || Date.now();
+  const phase = payload.data?.phase;
+
+  // A new run replaces whatever we showed before
+  let current: RunActivity =
+    activity && activity.runId === runId ? activity : { runId, startedAt: at, steps: [] };
+
+  if (payload.stream === 'lifecycle') {
+    if (phase === 'end' || phase === 'error') {
+      return null;
+    }
+    return current;
+  }
+
+  if (payload.stream !== 'tool') {
+    // Assistant text etc. is shown through chat events
+    return activity;
+  }
+
+  const id = payload.data?.toolCallId || `${runId}-${payload.data?.name || 'tool'}`;
+  const existing = current.steps.find((step) => step.id === id);
+
+  if (phase === 'start' && !existing) {
+    const step: ActivityStep = {
+      id,
+      label: describeTool(payload.data?.name),
+      status: 'running',
+      startedAt: at,
+    };
+    current = {
+      ...current,
+      steps: [...current.steps, step].slice(-ACTIVITY_CONFIG.maxSteps),
+    };
+  } else if (phase === 'result' && existing) {
+    const failed = payload.data?.isError || !!payload.data?.error;
+    current = {
+      ...current,
+      steps: current.steps.map((step) =>
+        step.id === id ? { ...step, status: failed ? 'error' : 'done' } : step
+      ),
+    };
+  }
+
+  return current;
+}
+
+/**
+ * Short spoken cue for a run that is taking long
+ */
+export function progressCue(activity: RunActivity | null): string {
+  const running = activity?.steps.filter((step) => step.status === 'running').pop();
+  return running ? `Still working. ${running.label}.` : 'Still working on it.';
+}
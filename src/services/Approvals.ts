@@ -0,0 +1,69 @@
+/**
+ * Exec approvals
+ *
+ * Turns the gateway's `exec.approval.requested` events into the approval
+ * card's state, words the spoken question and maps a spoken answer
+ * ("yes", "no", ...) onto a decision.
+ */
+
+import { APPROVAL_CONFIG } from '../constants';
+import type { ExecApprovalDecision, ExecApprovalRequestedPayload, PendingApproval } from '../types';
+
+// Longer commands are cut short when read out, the card shows them in full
+const MAX_SPOKEN_COMMAND = 120;
+
+const ANSWERS: Record<string, ExecApprovalDecision> = {
+  yes: 'allow-once',
+  approve: 'allow-once',
+  allow: 'allow-once',
+  no: 'deny',
+  deny: 'deny',
+};
+
+// Words the recognizer listens for while an approval is asked
+export const APPROVAL_GRAMMAR = Object.keys(ANSWERS);
+
+/**
+ * Approval as shown on the card. It expires after our timeout,
+ * or earlier if the gateway gives up on it sooner.
+ */
+export function toPendingApproval(
+  payload: ExecApprovalRequestedPayload,
+  now: number = Date.now(),
+): PendingApproval {
+  const timeoutAt = now + APPROVAL_CONFIG.timeoutMs;
+  return {
+    id: payload.id,
+    command: payload.request.command,
+    cwd: payload.request.cwd,
+    host: payload.request.host,
+    agentId: payload.request.agentId,
+    receivedAt: now,
+    expiresAt: payload.expiresAtMs ? Math.min(payload.expiresAtMs, timeoutAt) : timeoutAt,
+  };
+}
+
+/**
+ * The question read out when an approval comes in
+ */
+export function describeApproval(approval: PendingApproval): string {
+  const command =
+    approval.command.length > MAX_SPOKEN_COMMAND
+      ? `${approval.command.slice(0, MAX_SPOKEN_COMMAND)}, and more`
+      : approval.command;
+  const where = approval.host ? ` on ${approval.host}` : '';
+  return `Approval needed. The agent wants to run${where}: ${command}. Say yes to approve or no to deny.`;
+}
+
+/**
+ * Decision for a spoken answer, null if it wasn't one
+ */
+export function parseApprovalAnswer(text: string): ExecApprovalDecision | null {
+  const words = text.toLowerCase().split(/\s+/);
+  for (const word of words) {
+    if (ANSWERS[word]) {
+      return ANSWERS[word];
+    }
+  }
+  return null;
+}
@@ -0,0 +1,100 @@
+/**
+ * Attachments
+ *
+ * Media sent with a chat message (voice notes, images) is written to disk
+ * when the message is queued and only read back into base64 when it is
+ * actually sent, so the persisted outbox stays small.
+ */
+
+import RNFS from 'react-native-fs';
+import { ATTACHMENT_CONFIG } from '../constants';
+import type { ChatAttachment, OutboxAttachment } from '../types';
+
+// Stored attachment that can't be read back (deleted or unreadable file)
+export class AttachmentError extends Error {
+  constructor(message: string, public readonly path: string) {
+    super(message);
+    this.name = 'AttachmentError';
+  }
+}
+
+const attachmentsDir = () => `${RNFS.DocumentDirectoryPath}/${ATTACHMENT_CONFIG.directory}`;
+
+/**
+ * Write base64 media to the attachments directory
+ */
+export async function saveAttachment(
+  name: string,
+  type: OutboxAttachment['type'],
+  mimeType: string,
+  extension: string,
+  base64: string,
+): Promise<OutboxAttachment> {
+  const dir = attachmentsDir();
+  if (!(await RNFS.exists(dir))) {
+    await RNFS.mkdir(dir);
+  }
+
+  const fileName = `${name}.${extension}`;
+  const path = `${dir}/${fileName}`;
+  await RNFS.writeFile(path, base64, 'base64');
+  return { type, mimeType, fileName, path };
+}
+
+/**
+ * Read a stored attachment for chat.send
+ */
+export async function loadAttachment(attachment: OutboxAttachment): Promise<ChatAttachment> {
+  let content: string;
+  try {
+    content = await RNFS.readFile(attachment.path, 'base64');
+  } catch (error) {
+    throw new AttachmentError(
+      `Cannot read attachment ${attachment.fileName}: ${(error as Error).message}`,
+      attachment.path,
+    );
+  }
+  return {
+    type: attachment.type,
+    mimeType: attachment.mimeType,
+    fileName: attachment.fileName,
+    content,
+  };
+}
+
+/**
+ * URI for <Image> and players, which need file:// for local paths
+ */
+export function toFileUri(path: string): string {
+  return path.startsWith('/') ? `file://${path}` : path;
+}
+
+/**
+ * Delete the files of attachments that will never be sent
+ */
+export async function deleteAttachments(attachments: OutboxAttachment[] = []): Promise<void> {
+  await Promise.all(attachments.map((attachment) => RNFS.unlink(attachment.path).catch(() => {})));
+}
+
+/**
+ * Remove attachments older than maxAgeMs, except the ones still queued
+ */
+export async function pruneAttachments(maxAgeMs: number, keep: string[] = []): Promise<void> {
+  const dir = attachmentsDir();
+  try {
+    if (!(await RNFS.exists(dir))) {
+      return;
+    }
+    const cutoff = Date.now() - maxAgeMs;
+    const files = await RNFS.readDir(dir);
+    const stale = files.filter(
+      (file) => file.isFile() && !keep.includes(file.path) && (file.mtime?.getTime() ?? 0) < cutoff
+    );
+    await Promise.all(stale.map((file) => RNFS.unlink(file.path).catch(() => {})));
+    if (stale.length > 0) {
+      console.log('[Attachments] Removed', stale.length, 'old attachment(s)');
+    }
+  } catch (error) {
+    console.warn('[Attachments] Failed to prune attachments:', error);
+  }
+}
@@ -1,5 +1,10 @@
 /**
  * Audio Recording and Playback Service
+ *
+ * Recordings start when asked, or - with pre-roll - from the microphone the
+ * wake word detection already has open (VoskEngine capture, Android), so
+ * they begin with the audio from before the start. They end by themselves
+ * once the user stopped talking (see VoiceActivity).
  */
 
 import AudioRecorderPlayer, {
@@ -11,8 +16,16 @@ import AudioRecorderPlayer, {
 import RNFS from 'react-native-fs';
 import { Platform } from 'react-native';
 import { AUDIO_CONFIG, RECORDING_CONFIG } from '../constants';
-
-type RecordingCompleteHandler = (audioBase64: string, durationMs: number) => void;
+import { voskEngine } from './VoskEngine';
+import {
+  calibrateSpeechLevel,
+  initialVoiceActivity,
+  updateVoiceActivity,
+} from './VoiceActivity';
+import type { AudioLevel, VoiceActivityState } from './VoiceActivity';
+
+// The file is kept until the next recording, e.g. for the upload to a custom STT endpoint
+type RecordingCompleteHandler = (audioBase64: string, durationMs: number, path: string) => void;
 type PlaybackCompleteHandler = () => void;
 
 class AudioService {
@@ -21,7 +34,11 @@ class AudioService {
   private isPlaying: boolean = false;
   private recordingPath: string = '';
   private recordingStartTime: number = 0;
-  private silenceStartTime: number = 0;
+  private isCapturing: boolean = false; // Recording through VoskEngine
+  private maxDurationTimeout: ReturnType<typeof setTimeout> | null = null;
+  private speechLevelDb: number = RECORDING_CONFIG.defaultSpeechLevelDb;
+  private voiceActivity: VoiceActivityState = initialVoiceActivity();
+  private lastLevelAt: number = 0;
   private recordingHandlers: Set<RecordingCompleteHandler> = new Set();
   private playbackHandlers: Set<PlaybackCompleteHandler> = new Set();
   private audioQueue: string[] = [];
@@ -32,17 +49,46 @@ class AudioService {
   }
 
   /**
-   * Start recording audio
+   * Level above which the recording counts as speech (dBFS, see calibrateSpeechLevel())
+   */
+  setSpeechLevel(speechLevelDb: number): void {
+    this.speechLevelDb = speechLevelDb;
+  }
+
+  /**
+   * Whether a recording can start with pre-roll: the wake word detection
+   * has the microphone open and the native module can record from it
+   */
+  canPreRoll(): boolean {
+    return voskEngine.canCapture();
+  }
+
+  /**
+   * Start recording audio. With `preRollMs` (see canPreRoll()) the
+   * recording takes over the wake word detection's microphone and starts
+   * with up to that much audio from before.
    */
-  async startRecording(): Promise<void> {
+  async startRecording(options: { preRollMs?: number } = {}): Promise<void> {
     if (this.isRecording) {
       console.warn('[Audio] Already recording');
       return;
     }
 
+    // The last recording isn't needed any more
+    if (this.recordingPath) {
+      await RNFS.unlink(this.recordingPath).catch(() => {});
+      this.recordingPath = '';
+    }
+
+    if (options.preRollMs !== undefined && this.canPreRoll()) {
+      await this.startCapture(options.preRollMs);
+      return;
+    }
+
+    // AAC in MP4 on both platforms, the name tells transcription servers
     const path = Platform.select({
       ios: 'heyclaw_recording.m4a',
-      android: `${RNFS.CachesDirectoryPath}/heyclaw_recording.wav`,
+      android: `${RNFS.CachesDirectoryPath}/heyclaw_recording.m4a`,
     })!;
 
     this.recordingPath = path;
@@ -56,11 +102,11 @@ class AudioService {
         AVFormatIDKeyIOS: AVEncodingOption.aac,
       };
 
-      await this.audioRecorderPlayer.startRecorder(path, audioSet);
+      await this.audioRecorderPlayer.startRecorder(path, audioSet, true);
 
       this.isRecording = true;
       this.recordingStartTime = Date.now();
-      this.silenceStartTime = 0;
+      this.resetVoiceActivity();
 
       // Monitor recording for silence detection
       this.audioRecorderPlayer.addRecordBackListener((e) => {
@@ -68,6 +114,12 @@ class AudioService {
         const duration = Date.now() - this.recordingStartTime;
         if (duration >= RECORDING_CONFIG.maxDuration) {
           this.stopRecording();
+          return;
+        }
+        if (e.currentMetering !== undefined) {
+          const now = Date.now();
+          this.handleLevel({ db: e.currentMetering, durationMs: now - this.lastLevelAt });
+          this.lastLevelAt = now;
         }
       });
 
@@ -78,6 +130,89 @@ class AudioService {
     }
   }
 
+  /**
+   * Record from VoskEngine, which has the microphone open
+   */
+  private async startCapture(preRollMs: number): Promise<void> {
+    const path = `${RNFS.CachesDirectoryPath}/heyclaw_capture.wav`;
+    this.resetVoiceActivity();
+    await voskEngine.startCapture(path, preRollMs, (level) => this.handleLevel(level));
+
+    this.recordingPath = path;
+    this.isRecording = true;
+    this.isCapturing = true;
+    this.recordingStartTime = Date.now();
+    this.maxDurationTimeout = setTimeout(() => this.stopRecording(), RECORDING_CONFIG.maxDuration);
+    console.log('[Audio] Recording started with pre-roll:', preRollMs, 'ms');
+  }
+
+  private resetVoiceActivity(): void {
+    this.voiceActivity = initialVoiceActivity();
+    this.lastLevelAt = Date.now();
+  }
+
+  /**
+   * Stop the recording once the user stopped talking
+   */
+  private handleLevel(level: AudioLevel): void {
+    const { state, event } = updateVoiceActivity(this.voiceActivity, level, {
+      speechLevelDb: this.speechLevelDb,
+    });
+    this.voiceActivity = state;
+
+    if (event === 'speech') {
+      console.log('[Audio] Speech detected');
+    } else if (event === 'end-of-speech' && this.isRecording) {
+      console.log('[Audio] End of speech, stopping');
+      this.stopRecording().catch(() => {});
+    }
+  }
+
+  /**
+   * Listen to the room for RECORDING_CONFIG.calibrationMs and return the
+   * speech level for it. Nobody should talk meanwhile.
+   */
+  async calibrateSpeechLevel(): Promise<number> {
+    if (this.isRecording) {
+      throw new Error('Recording in progress');
+    }
+
+    const path = Platform.select({
+      ios: 'heyclaw_calibration.m4a',
+      android: `${RNFS.CachesDirectoryPath}/heyclaw_calibration.m4a`,
+    })!;
+    const levels: number[] = [];
+
+    await this.audioRecorderPlayer.startRecorder(
+      path,
+      { AudioSourceAndroid: AudioSourceAndroidType.VOICE_RECOGNITION },
+      true,
+    );
+    try {
+      this.audioRecorderPlayer.addRecordBackListener((e: { currentMetering?: number }) => {
+        if (e.currentMetering !== undefined) {
+          levels.push(e.currentMetering);
+        }
+      });
+      await new Promise<void>((resolve) => setTimeout(resolve, RECORDING_CONFIG.calibrationMs));
+    } finally {
+      await this.audioRecorderPlayer.stopRecorder().catch(() => {});
+      this.audioRecorderPlayer.removeRecordBackListener();
+      await RNFS.unlink(path).catch(() => {});
+    }
+
+    const speechLevelDb = calibrateSpeechLevel(levels);
+    console.log('[Audio] Calibrated speech level:', speechLevelDb, 'dB from', levels.length, 'levels');
+    return speechLevelDb;
+  }
+
+  private clearMaxDurationTimeout(): void {
+    if (this.maxDurationTimeout) {
+      clearTimeout(this.maxDurationTimeout);
+      this.maxDurationTimeout = null;
+    }
+  }
+
   /**
    * Stop recording and return audio data
    */
@@ -87,14 +222,28 @@ class AudioService {
     }
 
     try {
-      const result = await this.audioRecorderPlayer.stopRecorder();
-      this.audioRecorderPlayer.removeRecordBackListener();
-      this.isRecording = false;
-
-      const durationMs = Date.now() - this.recordingStartTime;
+      // Pre-roll counts for the duration sent on, not for the minimum
+      let durationMs = Date.now() - this.recordingStartTime;
+      const recordedMs = durationMs;
+
+      if (this.isCapturing) {
+        this.isCapturing = false;
+        this.clearMaxDurationTimeout();
+        const capture = await voskEngine.stopCapture();
+        this.isRecording = false;
+        if (!capture) {
+          console.log('[Audio] Recording was taken over, discarding');
+          return;
+        }
+        durationMs = capture.durationMs;
+      } else {
+        await this.audioRecorderPlayer.stopRecorder();
+        this.audioRecorderPlayer.removeRecordBackListener();
+        this.isRecording = false;
+      }
 
       // Check minimum duration
-      if (durationMs < RECORDING_CONFIG.minDuration) {
+      if (recordedMs < RECORDING_CONFIG.minDuration) {
         console.log('[Audio] Recording too short, discarding');
         return;
       }
@@ -105,10 +254,7 @@ class AudioService {
       console.log('[Audio] Recording stopped, duration:', durationMs, 'ms');
       
       // Notify handlers
-      this.notifyRecordingHandlers(audioBase64, durationMs);
-
-      // Clean up temp file
-      await RNFS.unlink(this.recordingPath).catch(() => {});
+      this.notifyRecordingHandlers(audioBase64, durationMs, this.recordingPath);
     } catch (error) {
       console.error('[Audio] Failed to stop recording:', error);
       this.isRecording = false;
@@ -125,8 +271,14 @@ class AudioService {
     }
 
     try {
-      await this.audioRecorderPlayer.stopRecorder();
-      this.audioRecorderPlayer.removeRecordBackListener();
+      if (this.isCapturing) {
+        this.isCapturing = false;
+        this.clearMaxDurationTimeout();
+        await voskEngine.stopCapture();
+      } else {
+        await this.audioRecorderPlayer.stopRecorder();
+        this.audioRecorderPlayer.removeRecordBackListener();
+      }
       this.isRecording = false;
       
       // Clean up temp file
@@ -154,8 +306,8 @@ class AudioService {
 
       let path: string;
       
-      // Check if it's base64 data
-      if (source.startsWith('data:') || !source.startsWith('http')) {
+      // Check if it's base64 data (not a URL or a local file)
+      if (source.startsWith('data:') || !/^(https?:|file:|\/)/.test(source)) {
         // Save base64 to temp file
         const base64Data = source.replace(/^data:audio\/\w+;base64,/, '');
         path = `${RNFS.CachesDirectoryPath}/heyclaw_playback_${Date.now()}.mp3`;
@@ -269,10 +421,10 @@ class AudioService {
     return () => this.playbackHandlers.delete(handler);
   }
 
-  private notifyRecordingHandlers(audioBase64: string, durationMs: number): void {
+  private notifyRecordingHandlers(audioBase64: string, durationMs: number, path: string): void {
     this.recordingHandlers.forEach((handler) => {
       try {
-        handler(audioBase64, durationMs);
+        handler(audioBase64, durationMs, path);
       } catch (error) {
         console.error('[Audio] Recording handler error:', error);
       }
@@ -5,10 +5,23 @@
 
 import { Platform } from 'react-native';
 import BackgroundActions from 'react-native-background-actions';
-import { NOTIFICATION_CONFIG } from '../constants';
+import { NOTIFICATION_CONFIG, DEEP_LINKS } from '../constants';
 
 const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
 
+const IDLE_NOTIFICATION = {
+  taskTitle: 'HeyClaw is listening',
+  taskDesc: 'Waiting for wake word...',
+  linkingURI: DEEP_LINKS.home,
+};
+
+// Tapping the notification while a reply runs stops it
+const REPLYING_NOTIFICATION = {
+  taskTitle: 'HeyClaw is replying',
+  taskDesc: 'Tap to stop the reply',
+  linkingURI: DEEP_LINKS.abort,
+};
+
 interface BackgroundTaskOptions {
   onTick?: () => void;
 }
@@ -55,14 +68,14 @@ class BackgroundService {
 
     const taskOptions = {
       taskName: 'HeyClaw',
-      taskTitle: 'HeyClaw is listening',
-      taskDesc: 'Waiting for wake word...',
+      taskTitle: IDLE_NOTIFICATION.taskTitle,
+      taskDesc: IDLE_NOTIFICATION.taskDesc,
       taskIcon: {
         name: 'ic_launcher',
         type: 'mipmap',
       },
       color: '#6366f1',
-      linkingURI: 'heyclaw://home',
+      linkingURI: IDLE_NOTIFICATION.linkingURI,
       parameters: {
         delay: 5000, // Check every 5 seconds
       },
@@ -118,6 +131,23 @@ class BackgroundService {
     }
   }
 
+  /**
+   * Switch the notification between idle and "tap to stop the reply"
+   */
+  async setReplyRunning(running: boolean): Promise<void> {
+    if (!this.isRunning) {
+      return;
+    }
+
+    try {
+      await BackgroundActions.updateNotification(
+        running ? REPLYING_NOTIFICATION : IDLE_NOTIFICATION
+      );
+    } catch (error) {
+      console.error('[Background] Failed to update notification:', error);
+    }
+  }
+
   /**
    * Check if service is running
    */
@@ -0,0 +1,280 @@
+/**
+ * Diagnostics Service
+ *
+ * Keeps a ring buffer of the protocol frames sent and received by
+ * WebSocketService, the connection lifecycle (reconnects, closes, errors)
+ * and the gateway's connect result, plus the microphone handoffs from wake
+ * word detection to STT and the audio lost in them, for the Diagnostics
+ * screen and the report users can send us. Tokens and other secrets are
+ * redacted before anything is stored.
+ */
+
+import { DIAGNOSTICS_CONFIG } from '../constants';
+import type {
+  AudioHandoff,
+  ConnectResult,
+  ConnectionState,
+  DiagnosticEvent,
+  DiagnosticFrame,
+} from '../types';
+
+type ChangeHandler = () => void;
+
+// Live values shown next to the log, collected by the screen
+export interface DiagnosticsStatus {
+  connectionState: ConnectionState;
+  gatewayUrl: string;
+  sessionKey: string;
+  latencyMs: number | null;
+  pendingRequests: number;
+  activeRunId: string | null;
+}
+
+/**
+ * Replace secrets and huge strings anywhere in a parsed frame
+ */
+const redactValue = (value: unknown, key: string = ''): unknown => {
+  if (typeof value === 'string') {
+    if (DIAGNOSTICS_CONFIG.secretKeys.test(key)) {
+      return '[redacted]';
+    }
+    return value.length > DIAGNOSTICS_CONFIG.maxStringLength
+      ? `[${value.length} chars]`
+      : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item, key));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([childKey, child]) => [childKey, redactValue(child, childKey)])
+    );
+  }
+  return value;
+};
+
+/**
+ * Redact a raw frame. Frames that aren't JSON only get token=... removed.
+ */
+export function redactFrame(raw: string): string {
+  let redacted: string;
+  try {
+    redacted = JSON.stringify(redactValue(JSON.parse(raw)));
+  } catch {
+    redacted = redactUrl(raw);
+  }
+  return redacted.length > DIAGNOSTICS_CONFIG.maxFrameLength
+    ? `${redacted.slice(0, DIAGNOSTICS_CONFIG.maxFrameLength)}… (${redacted.length} chars)`
+    : redacted;
+}
+
+/**
+ * Remove token parameters from a URL (or any text)
+ */
+export function redactUrl(text: string): string {
+  return text.replace(/(token=)[^&#\s"]+/gi, '$1[redacted]');
+}
+
+/**
+ * One-line description of a frame, e.g. "res ok" or "event chat (delta)"
+ */
+const summarize = (raw: string): string => {
+  try {
+    const frame = JSON.parse(raw);
+    switch (frame?.type) {
+      case 'req':
+        return `req ${frame.method}`;
+      case 'res':
+        return frame.ok === false || frame.error
+          ? `res error: ${frame.error?.message || 'failed'}`
+          : 'res ok';
+      case 'event': {
+        const state = frame.payload?.state || frame.payload?.stream;
+        return `event ${frame.event}${state ? ` (${state})` : ''}`;
+      }
+      default:
+        return `unknown type ${String(frame?.type)}`;
+    }
+  } catch {
+    return 'not JSON';
+  }
+};
+
+const formatTime = (at: number): string => new Date(at).toISOString().slice(11, 23);
+
+/**
+ * E.g. "continuous, 0 ms gap, 800 ms replayed" or "restart (device STT), 420 ms gap"
+ */
+export function formatHandoff(handoff: AudioHandoff): string {
+  const mode = handoff.detail ? `${handoff.mode} (${handoff.detail})` : handoff.mode;
+  const replayed = handoff.replayedMs !== undefined ? `, ${handoff.replayedMs} ms replayed` : '';
+  return `${mode}, ${handoff.gapMs} ms gap${replayed}`;
+}
+
+class DiagnosticsService {
+  private frames: DiagnosticFrame[] = [];
+  private events: DiagnosticEvent[] = [];
+  private handoffs: AudioHandoff[] = [];
+  private frameId: number = 0;
+  private connectResult: ConnectResult | null = null;
+  private connectedAt: number | null = null;
+  private reconnectAttempts: number = 0; // Since the last successful connect
+  private changeHandlers: Set<ChangeHandler> = new Set();
+  private notifyTimeout: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Record a frame sent or received on the gateway socket
+   */
+  recordFrame(direction: DiagnosticFrame['direction'], raw: string): void {
+    this.frames.push({
+      id: ++this.frameId,
+      at: Date.now(),
+      direction,
+      summary: summarize(raw),
+      raw: redactFrame(raw),
+    });
+    if (this.frames.length > DIAGNOSTICS_CONFIG.maxFrames) {
+      this.frames.shift();
+    }
+    this.scheduleNotify();
+  }
+
+  /**
+   * Record a connection lifecycle event
+   */
+  recordEvent(kind: DiagnosticEvent['kind'], detail: string): void {
+    if (kind === 'reconnect') {
+      this.reconnectAttempts++;
+    }
+    this.events.push({ at: Date.now(), kind, detail: redactUrl(detail) });
+    if (this.events.length > DIAGNOSTICS_CONFIG.maxEvents) {
+      this.events.shift();
+    }
+    this.scheduleNotify();
+  }
+
+  /**
+   * Record a microphone handoff from wake word detection to STT
+   */
+  recordHandoff(handoff: AudioHandoff): void {
+    console.log(`[Diagnostics] Audio handoff (${handoff.mode}): ${handoff.gapMs} ms gap`);
+    this.handoffs.push(handoff);
+    if (this.handoffs.length > DIAGNOSTICS_CONFIG.maxHandoffs) {
+      this.handoffs.shift();
+    }
+    this.scheduleNotify();
+  }
+
+  /**
+   * Remember the hello returned by the connect handshake
+   */
+  recordConnect(result: ConnectResult): void {
+    this.connectResult = result;
+    this.connectedAt = Date.now();
+    this.reconnectAttempts = 0;
+    const version = result.server?.version ? `OpenClaw ${result.server.version}` : 'unknown version';
+    this.recordEvent('open', `Authenticated (${version}, protocol ${result.protocol ?? '?'})`);
+  }
+
+  getFrames(): DiagnosticFrame[] {
+    return [...this.frames];
+  }
+
+  getEvents(): DiagnosticEvent[] {
+    return [...this.events];
+  }
+
+  getHandoffs(): AudioHandoff[] {
+    return [...this.handoffs];
+  }
+
+  getErrors(): DiagnosticEvent[] {
+    return this.events.filter((event) => event.kind === 'error');
+  }
+
+  getConnectResult(): ConnectResult | null {
+    return this.connectResult;
+  }
+
+  getConnectedAt(): number | null {
+    return this.connectedAt;
+  }
+
+  getReconnectAttempts(): number {
+    return this.reconnectAttempts;
+  }
+
+  /**
+   * Forget the log (the connect result is kept)
+   */
+  clear(): void {
+    this.frames = [];
+    this.events = [];
+    this.handoffs = [];
+    this.scheduleNotify();
+  }
+
+  /**
+   * Plain text report for support
+   */
+  buildReport(status: DiagnosticsStatus): string {
+    const hello = this.connectResult;
+    const lines = [
+      'HeyClaw diagnostics report',
+      `Created: ${new Date().toISOString()}`,
+      '',
+      '== Connection',
+      `State: ${status.connectionState}`,
+      `Gateway: ${redactUrl(status.gatewayUrl) || '(not configured)'}`,
+      `Session: ${status.sessionKey}`,
+      `Connected since: ${this.connectedAt ? new Date(this.connectedAt).toISOString() : '-'}`,
+      `Latency: ${status.latencyMs !== null ? `${status.latencyMs} ms` : '-'}`,
+      `Pending requests: ${status.pendingRequests}`,
+      `Active run: ${status.activeRunId || '-'}`,
+      `Reconnect attempts: ${this.reconnectAttempts}`,
+      '',
+      '== Connect result',
+      hello ? JSON.stringify(redactValue(hello), null, 2) : '(none)',
+      '',
+      '== Audio handoffs',
+      ...this.handoffs.map((handoff) => `${formatTime(handoff.at)} ${formatHandoff(handoff)}`),
+      '',
+      '== Events',
+      ...this.events.map((event) => `${formatTime(event.at)} ${event.kind}: ${event.detail}`),
+      '',
+      `== Frames (last ${this.frames.length})`,
+      ...this.frames.map(
+        (frame) =>
+          `${formatTime(frame.at)} ${frame.direction === 'in' ? '<-' : '->'} ${frame.summary}\n    ${frame.raw}`
+      ),
+    ];
+    return lines.join('\n');
+  }
+
+  /**
+   * Register a handler for log changes (batched)
+   */
+  onChange(handler: ChangeHandler): () => void {
+    this.changeHandlers.add(handler);
+    return () => this.changeHandlers.delete(handler);
+  }
+
+  private scheduleNotify(): void {
+    if (this.notifyTimeout || this.changeHandlers.size === 0) {
+      return;
+    }
+    this.notifyTimeout = setTimeout(() => {
+      this.notifyTimeout = null;
+      this.changeHandlers.forEach((handler) => {
+        try {
+          handler();
+        } catch (error) {
+          console.error('[Diagnostics] Change handler error:', error);
+        }
+      });
+    }, DIAGNOSTICS_CONFIG.notifyDelayMs);
+  }
+}
+
+// Singleton instance
+export const diagnosticsService = new DiagnosticsService();
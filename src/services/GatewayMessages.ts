@@ -0,0 +1,55 @@
+/**
+ * Gateway message helpers
+ *
+ * The gateway stores transcript messages as
+ * { role, content: [{ type: 'text', text }], timestamp }
+ * (older builds send plain string content). These helpers turn them
+ * into conversation items for the UI.
+ */
+
+import type { ConversationItem, GatewayChatMessage } from '../types';
+
+/**
+ * Get the text of a gateway message
+ */
+export function extractText(message: GatewayChatMessage): string {
+  const { content } = message;
+
+  if (typeof content === 'string') {
+    return content;
+  }
+  if (!Array.isArray(content)) {
+    return '';
+  }
+
+  return content
+    .filter((part) => part.type === 'text' && part.text)
+    .map((part) => part.text)
+    .join('\n');
+}
+
+/**
+ * Convert a gateway message into a conversation item
+ * (null for tool calls, system messages and empty messages)
+ */
+export function toConversationItem(
+  message: GatewayChatMessage,
+  fallbackId: string,
+): ConversationItem | null {
+  if (message.role !== 'user' && message.role !== 'assistant') {
+    return null;
+  }
+
+  const content = extractText(message).trim();
+  if (!content) {
+    return null;
+  }
+
+  return {
+    id: message.id || fallbackId,
+    type: message.role,
+    content,
+    timestamp: message.timestamp || Date.now(),
+    ...(message.id ? { serverId: message.id } : {}),
+  };
+}
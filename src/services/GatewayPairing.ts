@@ -0,0 +1,254 @@
+/**
+ * Gateway Pairing
+ *
+ * Turns the OpenClaw Control UI URL (http://192.168.1.100:18789/?token=abc123)
+ * into a gateway address and token (keeping the path prefix of a Control UI
+ * behind a reverse proxy, e.g. https://host/openclaw/?token=abc123), reads
+ * it from a QR code image, and runs a trial connect handshake before
+ * anything gets saved.
+ */
+
+import RNQRGenerator from 'rn-qr-generator';
+import {
+  parseFrame,
+  buildConnectParams,
+  validateMethodResult,
+} from './GatewayProtocol';
+import type { ConnectResult, OpenClawRequest } from '../types';
+
+export type PairingErrorCode =
+  | 'invalid_url' // Not a URL we can read
+  | 'unsupported_scheme' // Not http(s) / ws(s)
+  | 'missing_token' // URL without ?token=
+  | 'no_qr_code' // Image without a readable QR code
+  | 'auth_failed' // Gateway rejected the token
+  | 'unreachable' // Socket could not be opened
+  | 'protocol' // Handshake answer we don't understand
+  | 'timeout'; // No handshake response in time
+
+export class PairingError extends Error {
+  constructor(public readonly code: PairingErrorCode, message: string) {
+    super(message);
+    this.name = 'PairingError';
+  }
+
+  // Problem with what the user entered, as opposed to the gateway itself
+  get isParseError(): boolean {
+    return ['invalid_url', 'unsupported_scheme', 'missing_token', 'no_qr_code'].includes(this.code);
+  }
+}
+
+export interface PairingInfo {
+  gatewayUrl: string; // ws:// or wss:// URL, ready for settings
+  token: string;
+  host: string;
+  port?: number;
+  secure: boolean;
+}
+
+// scheme://host[:port][/path][?query][#fragment] - hosts may be IPv6 literals
+const URL_PATTERN = /^([a-z][a-z0-9+.-]*):\/\/(\[[0-9a-f:.]+\]|[^/?#:\s]+)(?::(\d+))?(\/[^?#\s]*)?(?:\?([^#\s]*))?(?:#(\S*))?$/i;
+
+const SCHEMES: Record<string, { ws: string; secure: boolean }> = {
+  http: { ws: 'ws', secure: false },
+  ws: { ws: 'ws', secure: false },
+  https: { ws: 'wss', secure: true },
+  wss: { ws: 'wss', secure: true },
+};
+
+// Control UI page at the end of the path, the gateway listens below it
+const CONTROL_UI_ROUTE =
+  /\/(?:index\.html|chat|overview|channels|instances|sessions|cron|skills|nodes|config|debug|logs)\/?$/i;
+
+const PROBE_TIMEOUT_MS = 10000;
+
+/**
+ * Read a parameter from a query string or fragment
+ */
+const getParam = (query: string | undefined, name: string): string | null => {
+  if (!query) {
+    return null;
+  }
+  for (const pair of query.split('&')) {
+    const [key, ...rest] = pair.split('=');
+    if (key === name) {
+      try {
+        return decodeURIComponent(rest.join('=').replace(/\+/g, ' '));
+      } catch {
+        return rest.join('=');
+      }
+    }
+  }
+  return null;
+};
+
+/**
+ * Parse a Control UI URL (pasted or scanned) into gateway address and token.
+ * A bare "host:port?token=..." is read as http.
+ */
+export function parseControlUiUrl(input: string): PairingInfo {
+  const text = input.trim();
+  if (!text) {
+    throw new PairingError('invalid_url', 'Paste the full Control UI URL, e.g. http://192.168.1.100:18789/?token=abc123');
+  }
+
+  const withScheme = /^[a-z][a-z0-9+.-]*:\/\//i.test(text) ? text : `http://${text}`;
+  const match = withScheme.match(URL_PATTERN);
+  if (!match) {
+    throw new PairingError('invalid_url', `"${text}" is not a valid URL`);
+  }
+
+  const [, rawScheme, host, rawPort, path = '', query, fragment] = match;
+  const scheme = SCHEMES[rawScheme.toLowerCase()];
+  if (!scheme) {
+    throw new PairingError(
+      'unsupported_scheme',
+      `Unsupported URL scheme "${rawScheme}:" - expected http or https`,
+    );
+  }
+
+  let port: number | undefined;
+  if (rawPort) {
+    port = Number(rawPort);
+    if (!Number.isInteger(port) || port < 1 || port > 65535) {
+      throw new PairingError('invalid_url', `Invalid port ${rawPort}`);
+    }
+  }
+
+  // The Control UI may carry the token in the fragment instead of the query
+  const token = (getParam(query, 'token') ?? getParam(fragment, 'token') ?? '').trim();
+  if (!token) {
+    throw new PairingError(
+      'missing_token',
+      'The URL has no token. Copy the Control UI URL including "?token=..."',
+    );
+  }
+
+  // Path prefix of a reverse proxy, without the page and trailing slashes
+  const basePath = path.replace(CONTROL_UI_ROUTE, '').replace(/\/+$/, '');
+
+  return {
+    gatewayUrl: `${scheme.ws}://${host}${port ? `:${port}` : ''}${basePath}`,
+    token,
+    host,
+    port,
+    secure: scheme.secure,
+  };
+}
+
+/**
+ * Read the Control UI URL from a QR code image (e.g. a screenshot)
+ */
+export async function readQrCodeImage(uri: string): Promise<PairingInfo> {
+  let values: string[] = [];
+  try {
+    const result = await RNQRGenerator.detect({ uri });
+    values = result.values || [];
+  } catch (error) {
+    console.warn('[Pairing] QR detection failed:', error);
+  }
+
+  if (values.length === 0) {
+    throw new PairingError('no_qr_code', 'No QR code found in the selected image');
+  }
+
+  return parseControlUiUrl(values[0]);
+}
+
+/**
+ * Run a trial connect handshake on a throwaway socket.
+ * Resolves with the gateway's hello, the live connection is not touched.
+ */
+export function probeGateway(
+  info: Pick<PairingInfo, 'gatewayUrl' | 'token'>,
+  timeoutMs: number = PROBE_TIMEOUT_MS,
+): Promise<ConnectResult> {
+  return new Promise((resolve, reject) => {
+    const requestId = `hc-probe-${Date.now()}`;
+    let settled = false;
+    let ws: WebSocket;
+
+    const finish = (error: PairingError | null, result?: ConnectResult) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      clearTimeout(timeout);
+      ws.onopen = null;
+      ws.onmessage = null;
+      ws.onclose = null;
+      ws.onerror = null;
+      ws.close();
+      if (error) {
+        console.warn('[Pairing] Probe failed:', error.code, error.message);
+        reject(error);
+      } else {
+        console.log('[Pairing] Probe succeeded:', result);
+        resolve(result || {});
+      }
+    };
+
+    const timeout = setTimeout(() => {
+      finish(new PairingError('timeout', `No answer from ${info.gatewayUrl} - is the gateway running?`));
+    }, timeoutMs);
+
+    try {
+      ws = new WebSocket(info.gatewayUrl);
+    } catch (error) {
+      clearTimeout(timeout);
+      reject(new PairingError('unreachable', `Cannot open ${info.gatewayUrl}: ${(error as Error).message}`));
+      return;
+    }
+
+    ws.onopen = () => {
+      const request: OpenClawRequest<'connect'> = {
+        type: 'req',
+        id: requestId,
+        method: 'connect',
+        params: buildConnectParams(info.token),
+      };
+      ws.send(JSON.stringify(request));
+    };
+
+    ws.onmessage = (event) => {
+      let frame;
+      try {
+        frame = parseFrame(String(event.data));
+      } catch {
+        return; // Not for us
+      }
+      if (frame.type !== 'res' || frame.id !== requestId) {
+        return; // e.g. connect.challenge events
+      }
+
+      if (frame.error || frame.ok === false) {
+        finish(
+          new PairingError(
+            'auth_failed',
+            `The gateway rejected the token: ${frame.error?.message || 'unauthorized'}`,
+          ),
+        );
+        return;
+      }
+
+      try {
+        finish(null, validateMethodResult('connect', frame.payload ?? frame.result));
+      } catch (error) {
+        finish(new PairingError('protocol', `Unexpected handshake response: ${(error as Error).message}`));
+      }
+    };
+
+    ws.onerror = () => {
+      finish(new PairingError('unreachable', `Cannot reach ${info.gatewayUrl} - check address and network`));
+    };
+
+    ws.onclose = (event) => {
+      // 1008 = policy violation, used by the gateway for bad credentials
+      if (event.code === 1008 || /auth|token|unauthori[sz]ed/i.test(event.reason || '')) {
+        finish(new PairingError('auth_failed', `The gateway rejected the token: ${event.reason || 'unauthorized'}`));
+      } else {
+        finish(new PairingError('unreachable', `Connection closed by ${info.gatewayUrl} (${event.code})`));
+      }
+    };
+  });
+}
@@ -0,0 +1,305 @@
+/**
+ * OpenClaw Gateway protocol helpers
+ *
+ * Runtime checks for incoming frames, event payloads and RPC results,
+ * matching the method/event registries in types/index.ts. Anything that
+ * doesn't fit is rejected with a ProtocolError naming the offending field,
+ * so handlers only ever see payloads of the declared shape.
+ *
+ * Validators check the fields we read and pass unknown extra fields through.
+ * Also builds the connect handshake shared by the live connection and
+ * pairing probes.
+ */
+
+import type {
+  OpenClawMessage,
+  OpenClawMethod,
+  OpenClawEventName,
+  OpenClawEvents,
+  MethodResult,
+  GatewayChatMessage,
+  ConnectParams,
+} from '../types';
+
+// Protocol version
+const PROTOCOL_VERSION = 3;
+
+// App info
+const CLIENT_INFO = {
+  id: 'openclaw-android',
+  displayName: 'HeyClaw',
+  version: '1.0.0',
+  platform: 'android',
+  mode: 'cli',
+};
+
+export class ProtocolError extends Error {
+  constructor(message: string, public readonly frame?: unknown) {
+    super(message);
+    this.name = 'ProtocolError';
+  }
+}
+
+/**
+ * Error response to a request: the gateway got it and refused it, so
+ * sending it again as is won't help (unlike a dropped connection)
+ */
+export class GatewayError extends Error {
+  constructor(message: string, public readonly code?: number | string) {
+    super(message);
+    this.name = 'GatewayError';
+  }
+}
+
+// ============================================================================
+// Validator building blocks
+// ============================================================================
+
+type Validator<T> = (value: unknown, path: string) => T;
+
+const describe = (value: unknown): string =>
+  value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+const fail = (path: string, expected: string, value: unknown): never => {
+  throw new ProtocolError(`${path}: expected ${expected}, got ${describe(value)}`);
+};
+
+const str: Validator<string> = (value, path) =>
+  typeof value === 'string' ? value : fail(path, 'string', value);
+
+const num: Validator<number> = (value, path) =>
+  typeof value === 'number' && !Number.isNaN(value) ? value : fail(path, 'number', value);
+
+const bool: Validator<boolean> = (value, path) =>
+  typeof value === 'boolean' ? value : fail(path, 'boolean', value);
+
+const oneOf =
+  <T extends string>(...allowed: T[]): Validator<T> =>
+  (value, path) =>
+    allowed.includes(value as T) ? (value as T) : fail(path, allowed.join(' | '), value);
+
+const optional =
+  <T>(validator: Validator<T>): Validator<T | undefined> =>
+  (value, path) =>
+    value === undefined || value === null ? undefined : validator(value, path);
+
+const arrayOf =
+  <T>(validator: Validator<T>): Validator<T[]> =>
+  (value, path) =>
+    Array.isArray(value)
+      ? value.map((item, index) => validator(item, `${path}[${index}]`))
+      : fail(path, 'array', value);
+
+const either =
+  <A, B>(first: Validator<A>, second: Validator<B>): Validator<A | B> =>
+  (value, path) => {
+    try {
+      return first(value, path);
+    } catch {
+      return second(value, path);
+    }
+  };
+
+const object =
+  <T>(shape: { [K in keyof T]-?: Validator<T[K]> }): Validator<T> =>
+  (value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return fail(path, 'object', value);
+    }
+    const record = value as Record<string, unknown>;
+    for (const key of Object.keys(shape) as Array<keyof T & string>) {
+      shape[key](record[key], `${path}.${key}`);
+    }
+    return value as T;
+  };
+
+const anyObject: Validator<Record<string, unknown>> = object<Record<string, unknown>>({});
+
+// ============================================================================
+// Schemas
+// ============================================================================
+
+const gatewayChatMessage: Validator<GatewayChatMessage> = object<GatewayChatMessage>({
+  id: optional(str),
+  role: optional(str),
+  content: optional(
+    either(
+      str,
+      arrayOf(
+        object({
+          type: str,
+          text: optional(str),
+          url: optional(str),
+          base64: optional(str),
+        })
+      )
+    )
+  ),
+  timestamp: optional(num),
+});
+
+const EVENT_VALIDATORS: { [E in OpenClawEventName]: Validator<OpenClawEvents[E]> } = {
+  chat: object<OpenClawEvents['chat']>({
+    runId: optional(str),
+    sessionKey: optional(str),
+    seq: optional(num),
+    state: optional(oneOf('delta', 'final', 'aborted', 'error')),
+    message: optional(gatewayChatMessage),
+    errorMessage: optional(str),
+    text: optional(str),
+    role: optional(str),
+    timestamp: optional(num),
+  }),
+  agent: object<OpenClawEvents['agent']>({
+    runId: optional(str),
+    sessionKey: optional(str),
+    seq: optional(num),
+    stream: optional(str),
+    ts: optional(num),
+    data: optional(
+      object({
+        phase: optional(str),
+        name: optional(str),
+        toolCallId: optional(str),
+        isError: optional(bool),
+        error: optional(str),
+      })
+    ),
+  }),
+  pong: (value, path) =>
+    object<OpenClawEvents['pong']>({ ts: optional(num) })(value ?? {}, path),
+  'exec.approval.requested': object<OpenClawEvents['exec.approval.requested']>({
+    id: str,
+    request: object({
+      command: str,
+      cwd: optional(str),
+      host: optional(str),
+      agentId: optional(str),
+      sessionKey: optional(str),
+    }),
+    createdAtMs: optional(num),
+    expiresAtMs: optional(num),
+  }),
+  'exec.approval.resolved': object<OpenClawEvents['exec.approval.resolved']>({
+    id: str,
+    decision: optional(str),
+    resolvedBy: optional(str),
+  }),
+};
+
+const RESULT_VALIDATORS: { [M in OpenClawMethod]: Validator<MethodResult<M>> } = {
+  connect: (value, path) => anyObject(value ?? {}, path) as MethodResult<'connect'>,
+  'chat.send': (value, path) =>
+    object<MethodResult<'chat.send'>>({
+      runId: optional(str),
+      status: optional(str),
+    })(value ?? {}, path),
+  'chat.abort': (value, path) =>
+    object<MethodResult<'chat.abort'>>({ aborted: optional(bool) })(value ?? {}, path),
+  'chat.history': object<MethodResult<'chat.history'>>({
+    sessionKey: optional(str),
+    messages: arrayOf(gatewayChatMessage),
+  }),
+  'sessions.list': object<MethodResult<'sessions.list'>>({
+    sessions: arrayOf(
+      object({
+        key: str,
+        label: optional(str),
+        displayName: optional(str),
+        updatedAt: optional(num),
+      })
+    ),
+  }),
+  'exec.approval.resolve': (value, path) =>
+    object<MethodResult<'exec.approval.resolve'>>({ ok: optional(bool) })(value ?? {}, path),
+};
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Params of the connect handshake
+ */
+export function buildConnectParams(token: string): ConnectParams {
+  return {
+    minProtocol: PROTOCOL_VERSION,
+    maxProtocol: PROTOCOL_VERSION,
+    auth: {
+      token,
+    },
+    client: CLIENT_INFO,
+    role: 'operator',
+    scopes: ['operator.read', 'operator.write', 'operator.approvals'],
+  };
+}
+
+/**
+ * Parse a raw socket message into a protocol frame
+ */
+export function parseFrame(raw: string): OpenClawMessage {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    throw new ProtocolError('Frame is not valid JSON', raw);
+  }
+
+  try {
+    const frame = anyObject(data, 'frame');
+    switch (frame.type) {
+      case 'res':
+        str(frame.id, 'frame.id');
+        break;
+      case 'event':
+        str(frame.event, 'frame.event');
+        break;
+      case 'req':
+        str(frame.id, 'frame.id');
+        str(frame.method, 'frame.method');
+        break;
+      default:
+        fail('frame.type', "'req' | 'res' | 'event'", frame.type);
+    }
+    return frame as unknown as OpenClawMessage;
+  } catch (error) {
+    throw new ProtocolError((error as Error).message, data);
+  }
+}
+
+/**
+ * Whether we know how to handle an event
+ */
+export function isKnownEvent(event: string): event is OpenClawEventName {
+  return Object.prototype.hasOwnProperty.call(EVENT_VALIDATORS, event);
+}
+
+/**
+ * Validate the payload of a known event
+ */
+export function validateEventPayload<E extends OpenClawEventName>(
+  event: E,
+  payload: unknown,
+): OpenClawEvents[E] {
+  const validator = EVENT_VALIDATORS[event] as Validator<OpenClawEvents[E]>;
+  try {
+    return validator(payload, `${event} payload`);
+  } catch (error) {
+    throw new ProtocolError((error as Error).message, payload);
+  }
+}
+
+/**
+ * Validate the result of an RPC method
+ */
+export function validateMethodResult<M extends OpenClawMethod>(
+  method: M,
+  result: unknown,
+): MethodResult<M> {
+  const validator = RESULT_VALIDATORS[method] as Validator<MethodResult<M>>;
+  try {
+    return validator(result, `${method} result`);
+  } catch (error) {
+    throw new ProtocolError((error as Error).message, result);
+  }
+}
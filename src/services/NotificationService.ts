@@ -0,0 +1,171 @@
+/**
+ * Notification Service for Android
+ * Posts assistant messages that arrive while HeyClaw is in the background,
+ * separate from the BackgroundService foreground notification. Tapping one
+ * opens the message, "Reply by voice" opens the app and starts recording.
+ */
+
+import { Platform } from 'react-native';
+import notifee, { AndroidImportance, AndroidStyle, EventType } from '@notifee/react-native';
+import type { Event } from '@notifee/react-native';
+import { NOTIFICATION_CONFIG } from '../constants';
+import type { ConversationItem, NotificationOpen } from '../types';
+
+type OpenHandler = (open: NotificationOpen) => void;
+
+interface MessageNotificationOptions {
+  proactive: boolean; // Not a reply to something we asked
+}
+
+class NotificationService {
+  private isInitialized: boolean = false;
+  private postedIds: Set<string> = new Set();
+  private openHandlers: Set<OpenHandler> = new Set();
+  private pendingOpen: NotificationOpen | null = null; // Tapped before anyone listened
+
+  /**
+   * Create the channel, ask for permission and pick up the notification
+   * the app was launched from (Android only)
+   */
+  async initialize(): Promise<void> {
+    if (Platform.OS !== 'android' || this.isInitialized) {
+      return;
+    }
+
+    try {
+      await notifee.requestPermission();
+      await notifee.createChannel({
+        id: NOTIFICATION_CONFIG.messageChannelId,
+        name: NOTIFICATION_CONFIG.messageChannelName,
+        description: NOTIFICATION_CONFIG.messageChannelDescription,
+        importance: AndroidImportance.HIGH,
+      });
+      notifee.onForegroundEvent((event) => this.handleEvent(event));
+
+      // Opened from a notification while the app wasn't running
+      const initial = await notifee.getInitialNotification();
+      if (initial) {
+        this.handlePress(initial.notification.data, initial.pressAction.id);
+      }
+
+      this.isInitialized = true;
+      console.log('[Notifications] Initialized');
+    } catch (error) {
+      console.error('[Notifications] Failed to initialize:', error);
+    }
+  }
+
+  /**
+   * Post an assistant message. Posting the same message again updates it.
+   */
+  async showMessage(item: ConversationItem, options: MessageNotificationOptions): Promise<void> {
+    if (!this.isInitialized) {
+      return;
+    }
+
+    try {
+      await notifee.displayNotification({
+        id: item.id,
+        title: options.proactive ? 'Message from your agent' : 'HeyClaw replied',
+        body: item.content,
+        data: { messageId: item.id },
+        android: {
+          channelId: NOTIFICATION_CONFIG.messageChannelId,
+          smallIcon: 'ic_launcher',
+          color: '#6366f1',
+          timestamp: item.timestamp,
+          showTimestamp: true,
+          style: { type: AndroidStyle.BIGTEXT, text: item.content },
+          pressAction: { id: 'default', launchActivity: 'default' },
+          actions: [
+            {
+              title: '🎤 Reply by voice',
+              pressAction: { id: NOTIFICATION_CONFIG.replyActionId, launchActivity: 'default' },
+            },
+          ],
+        },
+      });
+      this.postedIds.add(item.id);
+    } catch (error) {
+      console.error('[Notifications] Failed to post message:', error);
+    }
+  }
+
+  /**
+   * Remove the message notifications we posted (e.g. once the app is open)
+   */
+  async clearMessages(): Promise<void> {
+    if (this.postedIds.size === 0) {
+      return;
+    }
+
+    const ids = [...this.postedIds];
+    this.postedIds.clear();
+    try {
+      await notifee.cancelDisplayedNotifications(ids);
+    } catch (error) {
+      console.error('[Notifications] Failed to clear messages:', error);
+    }
+  }
+
+  /**
+   * Handle a notification event. Also called for background events
+   * (registered in index.js).
+   */
+  handleEvent({ type, detail }: Event): void {
+    if (type === EventType.PRESS || type === EventType.ACTION_PRESS) {
+      this.handlePress(detail.notification?.data, detail.pressAction?.id);
+    } else if (type === EventType.DISMISSED && detail.notification?.id) {
+      this.postedIds.delete(detail.notification.id);
+    }
+  }
+
+  private handlePress(data: Record<string, unknown> | undefined, pressActionId?: string): void {
+    const messageId = data?.messageId;
+    if (typeof messageId !== 'string') {
+      return;
+    }
+
+    const open: NotificationOpen = {
+      messageId,
+      action: pressActionId === NOTIFICATION_CONFIG.replyActionId ? 'reply' : 'open',
+    };
+    console.log('[Notifications] Opened:', open.action, open.messageId);
+
+    this.postedIds.delete(messageId);
+    notifee.cancelNotification(messageId).catch(() => {});
+
+    if (this.openHandlers.size === 0) {
+      this.pendingOpen = open;
+      return;
+    }
+    this.notifyOpenHandlers(open);
+  }
+
+  /**
+   * Register a handler for tapped notifications. A tap that happened
+   * before the first handler was registered is delivered right away.
+   */
+  onOpen(handler: OpenHandler): () => void {
+    this.openHandlers.add(handler);
+    if (this.pendingOpen) {
+      const open = this.pendingOpen;
+      this.pendingOpen = null;
+      this.notifyOpenHandlers(open);
+    }
+    return () => this.openHandlers.delete(handler);
+  }
+
+  private notifyOpenHandlers(open: NotificationOpen): void {
+    this.openHandlers.forEach((handler) => {
+      try {
+        handler(open);
+      } catch (error) {
+        console.error('[Notifications] Open handler error:', error);
+      }
+    });
+  }
+}
+
+// Singleton instance
+export const notificationService = new NotificationService();
@@ -0,0 +1,205 @@
+/**
+ * Outbox Service
+ *
+ * Durable queue for outgoing chat messages, persisted in AsyncStorage.
+ * Every transcript is stored together with its idempotency key and sent
+ * in order once the gateway connection is up. Because the key is reused
+ * on every replay, the gateway can drop duplicates of a message that was
+ * already delivered before the socket went away. A message the gateway
+ * refuses, or one whose attachment is gone, is set aside until retried,
+ * so it doesn't hold up the rest.
+ * Attachments are only referenced by their file (see Attachments).
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { STORAGE_KEYS } from '../constants';
+import { GatewayError } from './GatewayProtocol';
+import { AttachmentError } from './Attachments';
+import type { OutboxItem } from '../types';
+
+type SendFunction = (item: OutboxItem) => Promise<unknown>;
+type ItemFilter = (item: OutboxItem) => boolean;
+type SentHandler = (item: OutboxItem) => void;
+type FailedHandler = (item: OutboxItem, error: string) => void;
+
+export class OutboxService {
+  private items: OutboxItem[] = [];
+  private loadPromise: Promise<void> | null = null;
+  private isFlushing: boolean = false;
+  private sentHandlers: Set<SentHandler> = new Set();
+  private failedHandlers: Set<FailedHandler> = new Set();
+
+  /**
+   * Load queued messages from storage (only reads once)
+   */
+  async load(): Promise<OutboxItem[]> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.readFromStorage();
+    }
+    await this.loadPromise;
+    return this.getItems();
+  }
+
+  private async readFromStorage(): Promise<void> {
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_KEYS.outbox);
+      const parsed: OutboxItem[] = stored ? JSON.parse(stored) : [];
+      // Keep anything enqueued before the load finished
+      const known = new Set(parsed.map((item) => item.id));
+      this.items = [...parsed, ...this.items.filter((item) => !known.has(item.id))];
+      console.log('[Outbox] Loaded', this.items.length, 'queued message(s)');
+    } catch (error) {
+      console.error('[Outbox] Failed to load queue:', error);
+    }
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEYS.outbox, JSON.stringify(this.items));
+    } catch (error) {
+      console.error('[Outbox] Failed to persist queue:', error);
+    }
+  }
+
+  /**
+   * Add a message to the end of the queue
+   */
+  async enqueue(message: {
+    id: string;
+    content: string;
+    attachments?: OutboxItem['attachments'];
+    sessionKey: string;
+    gatewayUrl?: string;
+    timestamp: number;
+  }): Promise<OutboxItem> {
+    await this.load();
+
+    const item: OutboxItem = {
+      ...message,
+      idempotencyKey: `hc-${message.id}-${Math.random().toString(36).slice(2, 10)}`,
+      attempts: 0,
+    };
+
+    this.items.push(item);
+    await this.persist();
+    console.log('[Outbox] Queued message:', item.id);
+    return item;
+  }
+
+  /**
+   * Remove a message from the queue (sent or discarded)
+   */
+  async remove(id: string): Promise<void> {
+    await this.load();
+
+    const before = this.items.length;
+    this.items = this.items.filter((item) => item.id !== id);
+    if (this.items.length !== before) {
+      await this.persist();
+    }
+  }
+
+  /**
+   * Put a message refused by the gateway back in line for the next flush
+   */
+  async retry(id: string): Promise<void> {
+    await this.load();
+
+    const item = this.items.find((queued) => queued.id === id);
+    if (item?.rejected) {
+      item.rejected = false;
+      await this.persist();
+    }
+  }
+
+  /**
+   * Send queued messages in order, stopping at the first failed send
+   * so later messages never overtake an earlier one. A message the gateway
+   * refuses (GatewayError) is marked rejected and skipped instead.
+   * Messages rejected by `filter` (e.g. for another gateway) stay queued.
+   */
+  async flush(send: SendFunction, filter: ItemFilter = () => true): Promise<void> {
+    await this.load();
+
+    if (this.isFlushing) {
+      return;
+    }
+
+    this.isFlushing = true;
+    try {
+      let item: OutboxItem | undefined;
+      while ((item = this.items.find((queued) => !queued.rejected && filter(queued)))) {
+        item.attempts++;
+
+        try {
+          await send(item);
+        } catch (error) {
+          const message = (error as Error).message || 'Failed to send message';
+          item.lastError = message;
+          // Sending it again won't help
+          item.rejected = error instanceof GatewayError || error instanceof AttachmentError;
+          await this.persist();
+          this.notifyFailedHandlers(item, message);
+          if (item.rejected) {
+            console.warn('[Outbox] Message cannot be sent, skipping it:', item.id, message);
+            continue;
+          }
+          console.warn('[Outbox] Send failed, keeping message queued:', item.id, message);
+          return;
+        }
+
+        await this.remove(item.id);
+        console.log('[Outbox] Delivered message:', item.id);
+        this.notifySentHandlers(item);
+      }
+    } finally {
+      this.isFlushing = false;
+    }
+  }
+
+  /**
+   * Get a snapshot of the queued messages
+   */
+  getItems(): OutboxItem[] {
+    return this.items.map((item) => ({ ...item }));
+  }
+
+  /**
+   * Register a handler for successfully delivered messages
+   */
+  onSent(handler: SentHandler): () => void {
+    this.sentHandlers.add(handler);
+    return () => this.sentHandlers.delete(handler);
+  }
+
+  /**
+   * Register a handler for failed delivery attempts
+   */
+  onFailed(handler: FailedHandler): () => void {
+    this.failedHandlers.add(handler);
+    return () => this.failedHandlers.delete(handler);
+  }
+
+  private notifySentHandlers(item: OutboxItem): void {
+    this.sentHandlers.forEach((handler) => {
+      try {
+        handler({ ...item });
+      } catch (error) {
+        console.error('[Outbox] Sent handler error:', error);
+      }
+    });
+  }
+
+  private notifyFailedHandlers(item: OutboxItem, error: string): void {
+    this.failedHandlers.forEach((handler) => {
+      try {
+        handler({ ...item }, error);
+      } catch (e) {
+        console.error('[Outbox] Failed handler error:', e);
+      }
+    });
+  }
+}
+
+// Singleton instance
+export const outboxService = new OutboxService();
@@ -0,0 +1,17 @@
+/**
+ * Network reachability backed by NetInfo
+ *
+ * Passed to WebSocketService.setReachabilitySource() so reconnects pause while
+ * the phone is offline and fire immediately once a network is back.
+ */
+
+import NetInfo from '@react-native-community/netinfo';
+import type { ReachabilitySource } from '../types';
+
+export const netInfoReachability: ReachabilitySource = {
+  subscribe: (listener) =>
+    NetInfo.addEventListener((state) => {
+      // Only require a network link: the gateway is often on a LAN without internet
+      listener(!!state.isConnected);
+    }),
+};
@@ -0,0 +1,45 @@
+/**
+ * Reconnect Strategy
+ *
+ * Capped exponential backoff with jitter for gateway reconnects:
+ * base * 2^(attempt - 1), limited to maxDelay, then randomized by +/- jitter.
+ */
+
+interface ReconnectStrategyConfig {
+  baseDelay: number;
+  maxDelay: number;
+  jitter: number; // 0.0 - 1.0
+}
+
+export class ReconnectStrategy {
+  private attempts: number = 0;
+
+  constructor(
+    private config: ReconnectStrategyConfig,
+    private random: () => number = Math.random,
+  ) {}
+
+  /**
+   * Register a new attempt and return how long to wait before making it
+   */
+  nextDelay(): number {
+    this.attempts++;
+
+    const { baseDelay, maxDelay, jitter } = this.config;
+    const exponential = Math.min(baseDelay * Math.pow(2, this.attempts - 1), maxDelay);
+    const spread = exponential * jitter * (this.random() * 2 - 1);
+
+    return Math.max(0, Math.round(exponential + spread));
+  }
+
+  /**
+   * Start over from the base delay (after a successful connect)
+   */
+  reset(): void {
+    this.attempts = 0;
+  }
+
+  getAttempts(): number {
+    return this.attempts;
+  }
+}
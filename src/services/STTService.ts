@@ -2,9 +2,12 @@
  * Speech-to-Text Service
  * 
  * Supports multiple modes:
- * 1. Vosk (default): Offline, open source, no API keys
+ * 1. Vosk (default): Offline, open source, no API keys. Shares the loaded
+ *    model with wake word detection (see VoskEngine).
  * 2. Device: Uses react-native-voice (Google/Apple cloud)
  * 3. Custom endpoint: Self-hosted Whisper or compatible API
+ * 4. OpenAI-compatible: Servers implementing /v1/audio/transcriptions
+ *    (faster-whisper-server, LocalAI, whisper.cpp server)
  */
 
 import Voice, {
@@ -13,10 +16,13 @@ import Voice, {
   SpeechStartEvent,
   SpeechEndEvent,
 } from '@react-native-voice/voice';
-import Vosk from 'react-native-vosk';
+import { voskEngine } from './VoskEngine';
+import type { VoskRecognizer } from './VoskEngine';
 import RNFS from 'react-native-fs';
 import { Platform } from 'react-native';
-import type { STTProvider } from '../types';
+import { OPENAI_STT_CONFIG, RECORDING_STT_PROVIDERS } from '../constants';
+import { TRANSCRIPTION_SAMPLE } from './TranscriptionSample';
+import type { OpenAISTTConfig, STTProvider } from '../types';
 
 type TranscriptionHandler = (text: string, isFinal: boolean) => void;
 type ErrorHandler = (error: string) => void;
@@ -27,6 +33,55 @@ interface STTConfig {
   customSTTUrl: string;
   voskModelPath: string;
   language?: string;
+  openAI: OpenAISTTConfig;
+}
+
+/**
+ * Transcription endpoint for a server URL, which may already include
+ * /v1 or the whole path
+ */
+function openAITranscriptionUrl(url: string): string {
+  const base = url.trim().replace(/\/+$/, '');
+  if (base.endsWith('/audio/transcriptions')) {
+    return base;
+  }
+  if (base.endsWith('/v1')) {
+    return `${base}/audio/transcriptions`;
+  }
+  return `${base}${OPENAI_STT_CONFIG.path}`;
+}
+
+/**
+ * Error message from a failed request: OpenAI's { error: { message } },
+ * FastAPI's { detail } or the plain body
+ */
+async function responseError(response: Response): Promise<string> {
+  const body = await response.text().catch(() => '');
+  try {
+    const json = JSON.parse(body);
+    const message = json.error?.message ?? json.error ?? json.detail ?? json.message;
+    if (typeof message === 'string') {
+      return message;
+    }
+  } catch {
+    // Not JSON
+  }
+  return body.slice(0, 200) || response.statusText;
+}
+
+/**
+ * Multipart file entry for a recording
+ */
+function audioFile(audioPath: string, name = 'audio') {
+  const ext = audioPath.split('.').pop()?.toLowerCase() || 'wav';
+  const mimeType = ext === 'wav' ? 'audio/wav' : 
+                   ext === 'm4a' ? 'audio/m4a' :
+                   ext === 'mp3' ? 'audio/mp3' : 'audio/wav';
+  return {
+    uri: Platform.OS === 'android' ? `file://${audioPath}` : audioPath,
+    type: mimeType,
+    name: `${name}.${ext}`,
+  } as any;
 }
 
 class STTService {
@@ -35,10 +90,18 @@ class STTService {
     customSTTUrl: '',
     voskModelPath: '',
     language: 'en-US',
+    openAI: {
+      url: '',
+      apiKey: '',
+      model: OPENAI_STT_CONFIG.defaultModel,
+      language: '',
+      prompt: '',
+    },
   };
 
-  private vosk: Vosk | null = null;
+  private vosk: VoskRecognizer | null = null;
   private voskInitialized: boolean = false;
+  private voskModelPath: string | null = null; // Model the recognizer holds
   private isListening: boolean = false;
   private transcriptionHandlers: Set<TranscriptionHandler> = new Set();
   private errorHandlers: Set<ErrorHandler> = new Set();
@@ -66,9 +129,11 @@ class STTService {
     this.config = { ...this.config, ...config };
     console.log('[STT] Configured provider:', this.config.provider);
 
-    // Initialize Vosk if needed
+    // Initialize Vosk if needed, hand the model back when it's not
     if (this.config.provider === 'vosk' && this.config.voskModelPath) {
       await this.initializeVosk();
+    } else {
+      await this.releaseVosk();
     }
   }
 
@@ -76,25 +141,31 @@ class STTService {
    * Initialize Vosk for STT
    */
   private async initializeVosk(): Promise<void> {
-    if (this.voskInitialized) {
+    const modelPath = this.config.voskModelPath;
+    if (this.voskInitialized && this.voskModelPath === modelPath) {
       return;
     }
 
-    if (!this.config.voskModelPath) {
+    if (!modelPath) {
       console.warn('[STT] Vosk model path not set');
       return;
     }
 
     try {
-      this.vosk = new Vosk();
-      await this.vosk.loadModel(this.config.voskModelPath);
-      
-      // Set up callbacks
-      this.vosk.onResult(this.onVoskResult.bind(this));
-      this.vosk.onPartialResult(this.onVoskPartialResult.bind(this));
-      this.vosk.onFinalResult(this.onVoskFinalResult.bind(this));
-      this.vosk.onError(this.onVoskError.bind(this));
+      if (!this.vosk) {
+        this.vosk = voskEngine.createRecognizer();
+
+        // Set up callbacks
+        this.vosk.onResult(this.onVoskResult.bind(this));
+        this.vosk.onPartialResult(this.onVoskPartialResult.bind(this));
+        this.vosk.onFinalResult(this.onVoskFinalResult.bind(this));
+        this.vosk.onError(this.onVoskError.bind(this));
+      }
+
+      // Shared with wake word detection, another model path switches both
+      await this.vosk.loadModel(modelPath);
       
+      this.voskModelPath = modelPath;
       this.voskInitialized = true;
       console.log('[STT] Vosk initialized');
     } catch (error) {
@@ -103,6 +174,20 @@ class STTService {
     }
   }
 
+  /**
+   * Hand back the shared Vosk model (other provider picked)
+   */
+  private async releaseVosk(): Promise<void> {
+    if (!this.vosk) {
+      return;
+    }
+    const vosk = this.vosk;
+    this.vosk = null;
+    this.voskInitialized = false;
+    this.voskModelPath = null;
+    await vosk.unload();
+  }
+
   /**
    * Start listening for speech
    */
@@ -114,8 +199,8 @@ class STTService {
 
     const { provider } = this.config;
 
-    if (provider === 'custom') {
-      console.log('[STT] Custom STT mode - use transcribeAudio() instead');
+    if (RECORDING_STT_PROVIDERS.includes(provider)) {
+      console.log('[STT] Recording STT mode - use transcribeAudio() instead');
       return;
     }
 
@@ -301,43 +386,19 @@ class STTService {
   // ============================================================================
 
   /**
-   * Transcribe audio using custom endpoint (Whisper, etc.)
+   * Transcribe audio using the custom or OpenAI-compatible endpoint
    */
   async transcribeAudio(audioPath: string): Promise<string> {
-    if (this.config.provider !== 'custom' || !this.config.customSTTUrl) {
+    const { provider, customSTTUrl, openAI } = this.config;
+    if (provider === 'openai' ? !openAI.url : provider !== 'custom' || !customSTTUrl) {
       throw new Error('Custom STT not configured');
     }
 
     try {
-      console.log('[STT] Transcribing via custom endpoint');
-
-      const ext = audioPath.split('.').pop()?.toLowerCase() || 'wav';
-      const mimeType = ext === 'wav' ? 'audio/wav' : 
-                       ext === 'm4a' ? 'audio/m4a' :
-                       ext === 'mp3' ? 'audio/mp3' : 'audio/wav';
-
-      const formData = new FormData();
-      formData.append('audio', {
-        uri: Platform.OS === 'android' ? `file://${audioPath}` : audioPath,
-        type: mimeType,
-        name: `audio.${ext}`,
-      } as any);
-
-      const response = await fetch(this.config.customSTTUrl, {
-        method: 'POST',
-        body: formData,
-        headers: {
-          'Accept': 'application/json',
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error(`STT request failed: ${response.status}`);
-      }
-
-      const result = await response.json();
-      const text = result.text || result.transcription || result.transcript || '';
-      
+      const text =
+        provider === 'openai'
+          ? await this.transcribeOpenAI(audioPath, openAI)
+          : await this.transcribeCustom(audioPath);
       console.log('[STT] Transcription:', text.substring(0, 50) + '...');
       return text;
     } catch (error) {
@@ -347,6 +408,75 @@ class STTService {
     }
   }
 
+  /**
+   * Upload the bundled sample clip to an OpenAI-compatible endpoint (e.g.
+   * settings not saved yet). Resolves with the transcript, rejects with
+   * the server's error.
+   */
+  async testOpenAIEndpoint(config: OpenAISTTConfig): Promise<string> {
+    const path = `${RNFS.CachesDirectoryPath}/${TRANSCRIPTION_SAMPLE.name}`;
+    await RNFS.writeFile(path, TRANSCRIPTION_SAMPLE.base64, 'base64');
+    try {
+      return await this.transcribeOpenAI(path, config);
+    } finally {
+      RNFS.unlink(path).catch(() => {});
+    }
+  }
+
+  private async transcribeCustom(audioPath: string): Promise<string> {
+    console.log('[STT] Transcribing via custom endpoint');
+
+    const formData = new FormData();
+    formData.append('audio', audioFile(audioPath));
+
+    const response = await fetch(this.config.customSTTUrl, {
+      method: 'POST',
+      body: formData,
+      headers: {
+        'Accept': 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`STT request failed: ${response.status}`);
+    }
+
+    const result = await response.json();
+    return result.text || result.transcription || result.transcript || '';
+  }
+
+  private async transcribeOpenAI(audioPath: string, config: OpenAISTTConfig): Promise<string> {
+    const url = openAITranscriptionUrl(config.url);
+    console.log('[STT] Transcribing via', url);
+
+    const formData = new FormData();
+    formData.append('file', audioFile(audioPath));
+    formData.append('model', config.model.trim() || OPENAI_STT_CONFIG.defaultModel);
+    formData.append('response_format', OPENAI_STT_CONFIG.responseFormat);
+    if (config.language.trim()) {
+      formData.append('language', config.language.trim());
+    }
+    if (config.prompt.trim()) {
+      formData.append('prompt', config.prompt.trim());
+    }
+
+    const headers: Record<string, string> = { 'Accept': 'application/json' };
+    if (config.apiKey.trim()) {
+      headers.Authorization = `Bearer ${config.apiKey.trim()}`;
+    }
+
+    const response = await fetch(url, { method: 'POST', body: formData, headers });
+    if (!response.ok) {
+      throw new Error(`STT request failed: ${response.status} ${await responseError(response)}`);
+    }
+
+    const result = await response.json();
+    if (typeof result.text !== 'string') {
+      throw new Error('STT response has no text');
+    }
+    return result.text.trim();
+  }
+
   // ============================================================================
   // Handler registration
   // ============================================================================
@@ -429,10 +559,7 @@ class STTService {
   async destroy(): Promise<void> {
     try {
       await Voice.destroy();
-      if (this.vosk) {
-        await this.vosk.stop();
-        this.vosk = null;
-      }
+      await this.releaseVosk();
       this.transcriptionHandlers.clear();
       this.errorHandlers.clear();
       this.stateHandlers.clear();
@@ -0,0 +1,146 @@
+/**
+ * Sample clip for testing a transcription endpoint: 0.6 s of a synthetic
+ * "ah" (16-bit mono WAV, 8 kHz). It has no words, the test only shows the
+ * server takes the upload, the credentials and the model.
+ */
+
+export const TRANSCRIPTION_SAMPLE = {
+  name: 'heyclaw_sample.wav',
+  mimeType: 'audio/wav',
+  base64: [
+  'UklGRqQlAABXQVZFZm10IBAAAAABAAEAQB8AAIA+AAACABAAZGF0YYAlAAAAACQAUAB2AHUAGQDk/9b/m/+F/53/m//v/4kA',
+  '1ADbAJ8AAgCD/3j/mf/e/yUAJQAPAB8APwBdAGYAHwCz/23/cP/S/1sAqwCZADYArP9r/4T/rP/a/93/qv/Y/4kAFgFuAQsB',
+  'S/+R/e78Af2C/hwBGwJpAkkDZgIwAeAA7fxU9yr2mvWo+BcExAqYCokK6gXZ/5r+tf3V+178GP2f/eQAEwTXBGcESAIC/3b9',
+  'yP2U/ur/tQBrAD4AmQACAV4BKAHs/6v+GP6O/gAAegH8AWsBFQC5/nX+1/5M/7b/ff8e/x0A2QHxAnADXwHI/Kr54/jk+aL+',
+  'ugOkBO0F8wbnA28CRgBB9W/s4+sZ6+H36Q6ZFecU3RLZBgH+Ov1F+vP39PmW+hP9CwRSCL8IHgcgAsf8ePt0/DP+jAAzAYMA',
+  'jwBJAfMBaQJoARL/R/3W/EL+6gD0AiIDuAFK/4z9qv1Y/iP/jv/g/tL+JAGgAxgF+QTp/9P4afX+9Ef4CwHMBmEHNQqOCYoE',
+  'owMs/JHpmOEM4WHjAADpHJQfVR9aFwcEI/wh+6b11fTY92n40/7MCKoMTwxtCBsAC/rW+ZL7mP55AWsBkQAcAScCEQNBA/QA',
+  'rf24++z7uf51AoEE6wNbAe/9bPwT/Q3+Jf81/yD+Iv/hAroFZAdRBXX8AvQb8a7x+PgmBaAJ3wqhDocKJwXAA//yydts15rV',
+  'Z+JOEHEqTimjKJMWav/E+oP3tfDP8oz1g/cnA0IOzBAlD8kHpPx79574Tfu1/00CWwHGAOgBLwNIBJcDw//q+zT6oPsAAGcE',
+  '4AUsBD8ASfyL+6r8/f0u/43+hv1RACAFHAhqCb0DSPfs7u7stO9f/NYJMQx8DxISGQpGBrUAmORVzizNbcuq6yolmTWlM2gu',
+  'xxAh+0P5I/Kc7H7xEfMJ+ZUJpBOSFK0Q9gSB+IL10ffb+0IBvQIqAUUB6AJkBGgFJQPt/fX5APkp/AMCeAbXBr0DdP6w+vb6',
+  'cPwm/gz/mf1+/WoCpwe6CnEK0P8F8fbpJ+kE8CcC/w0mD+YUgxM/CWQHPvis0rnCyMGcxgAAiTmIPr49yS3bB3/4l/YX7J/q',
+  'dvCc8cj9hRCtF+YWmg8yABH1vfTy93P9qAKMAgQB+QHPA2cFtgWrAfX7lvj4+M/9MwSsB6QGSQKG/AL6H/vD/JX+sv7s/JX+',
+  'rwRGCewLiwhU+uPsW+hc6ez0FAgLD+wQrhZDEO0HvwUl7OvIhMIBwH7TbhhYP2w9NDxSISP/VPic88Lp4ezn8MjzhgRfFOoX',
+  'fBUBC0X7C/Ss9XT5mP8vA98BEAGdAlkE1AXfBK3/f/o4+Cb6AADaBcgHgQVTACH7LPqn+2P98P4h/tH8aACMBlQK9Qu7BP/0',
+  'hOoW6KHrevs4DBkPHxM+FmQMrAfdAK7ezMOUwqjAkueCLP8/fD0VN9sTQfoT+L3vUukU7/Xw7PcUC6QWpRcdE6wFdfcU9Lr2',
+  'UftrARQDTgFrAT0D4QT+BXoDt/1c+VT4zfsxAggHagcLBFX+SvqZ+jH8B/78/nT9WP2NAg4IQwvvCs7/ZvAa6VPoe+84AmQO',
+  'ig9hFekTaQmBByX4N9JCwnjBd8YAAIk5iD6+Pckt2wd/+Jf2F+yf6nbwnPHI/YUQrRfmFpoPMgAR9b308vdz/agCjAIEAfkB',
+  'zwNnBbYFqwH1+5b4+PjP/TMErAekBkkChvwC+h/7w/yV/rL+7PyV/q8ERgnsC4sIVPrj7FvoXOns9BQICw/sEK4WQxDtB78F',
+  'JezryITCAcB+024YWD9sPTQ8UiEj/1T4nPPC6eHs5/DI84YEXxTqF3wVAQtF+wv0rPV0+Zj/LwPfARABnQJZBNQF3wSt/3/6',
+  'OPgm+gAA2gXIB4EFUwAh+yz6p/tj/fD+If7R/GgAjAZUCvULuwT/9ITqFuih63r7OAwZDx8TPhZkDKwH3QCu3szDlMKowJLn',
+  'giz/P3w9FTfbE0H6E/i971LpFO/18Oz3FAukFqUXHROsBXX3FPS69lH7awEUA04BawE9A+EE/gV6A7f9XPlU+M37MQIIB2oH',
+  'CwRV/kr6mfox/Af+/P50/Vj9jQIOCEML7wrO/2bwGulT6HvvOAJkDooPYRXpE2kJgQcl+DfSQsJ4wXfGAACJOYg+vj3JLdsH',
+  'f/iX9hfsn+p28JzxyP2FEK0X5haaDzIAEfW99PL3c/2oAowCBAH5Ac8DZwW2BasB9fuW+Pj4z/0zBKwHpAZJAob8Avof+8P8',
+  'lf6y/uz8lf6vBEYJ7AuLCFT64+xb6Fzp7PQUCAsP7BCuFkMQ7Qe/BSXs68iEwgHAftNuGFg/bD00PFIhI/9U+Jzzwunh7Ofw',
+  'yPOGBF8U6hd8FQELRfsL9Kz1dPmY/y8D3wEQAZ0CWQTUBd8Erf9/+jj4JvoAANoFyAeBBVMAIfss+qf7Y/3w/iH+0fxoAIwG',
+  'VAr1C7sE//SE6hbooet6+zgMGQ8fEz4WZAysB90Art7Mw5TCqMCS54Is/z98PRU32xNB+hP4ve9S6RTv9fDs9xQLpBalFx0T',
+  'rAV19xT0uvZR+2sBFANOAWsBPQPhBP4FegO3/Vz5VPjN+zECCAdqBwsEVf5K+pn6MfwH/vz+dP1Y/Y0CDghDC+8Kzv9m8Brp',
+  'U+h77zgCZA6KD2EV6RNpCYEHJfg30kLCeMF3xgAAiTmIPr49yS3bB3/4l/YX7J/qdvCc8cj9hRCtF+YWmg8yABH1vfTy93P9',
+  'qAKMAgQB+QHPA2cFtgWrAfX7lvj4+M/9MwSsB6QGSQKG/AL6H/vD/JX+sv7s/JX+rwRGCewLiwhU+uPsW+hc6ez0FAgLD+wQ',
+  'rhZDEO0HvwUl7OvIhMIBwH7TbhhYP2w9NDxSISP/VPic88Lp4ezn8MjzhgRfFOoXfBUBC0X7C/Ss9XT5mP8vA98BEAGdAlkE',
+  '1AXfBK3/f/o4+Cb6AADaBcgHgQVTACH7LPqn+2P98P4h/tH8aACMBlQK9Qu7BP/0hOoW6KHrevs4DBkPHxM+FmQMrAfdAK7e',
+  'zMOUwqjAkueCLP8/fD0VN9sTQfoT+L3vUukU7/Xw7PcUC6QWpRcdE6wFdfcU9Lr2UftrARQDTgFrAT0D4QT+BXoDt/1c+VT4',
+  'zfsxAggHagcLBFX+SvqZ+jH8B/78/nT9WP2NAg4IQwvvCs7/ZvAa6VPoe+84AmQOig9hFekTaQmBByX4N9JCwnjBd8YAAIk5',
+  'iD6+Pckt2wd/+Jf2F+yf6nbwnPHI/YUQrRfmFpoPMgAR9b308vdz/agCjAIEAfkBzwNnBbYFqwH1+5b4+PjP/TMErAekBkkC',
+  'hvwC+h/7w/yV/rL+7PyV/q8ERgnsC4sIVPrj7FvoXOns9BQICw/sEK4WQxDtB78FJezryITCAcB+024YWD9sPTQ8UiEj/1T4',
+  'nPPC6eHs5/DI84YEXxTqF3wVAQtF+wv0rPV0+Zj/LwPfARABnQJZBNQF3wSt/3/6OPgm+gAA2gXIB4EFUwAh+yz6p/tj/fD+',
+  'If7R/GgAjAZUCvULuwT/9ITqFuih63r7OAwZDx8TPhZkDKwH3QCu3szDlMKowJLngiz/P3w9FTfbE0H6E/i971LpFO/18Oz3',
+  'FAukFqUXHROsBXX3FPS69lH7awEUA04BawE9A+EE/gV6A7f9XPlU+M37MQIIB2oHCwRV/kr6mfox/Af+/P50/Vj9jQIOCEML',
+  '7wrO/2bwGulT6HvvOAJkDooPYRXpE2kJgQcl+DfSQsJ4wXfGAACJOYg+vj3JLdsHf/iX9hfsn+p28JzxyP2FEK0X5haaDzIA',
+  'EfW99PL3c/2oAowCBAH5Ac8DZwW2BasB9fuW+Pj4z/0zBKwHpAZJAob8Avof+8P8lf6y/uz8lf6vBEYJ7AuLCFT64+xb6Fzp',
+  '7PQUCAsP7BCuFkMQ7Qe/BSXs68iEwgHAftNuGFg/bD00PFIhI/9U+Jzzwunh7OfwyPOGBF8U6hd8FQELRfsL9Kz1dPmY/y8D',
+  '3wEQAZ0CWQTUBd8Erf9/+jj4JvoAANoFyAeBBVMAIfss+qf7Y/3w/iH+0fxoAIwGVAr1C7sE//SE6hbooet6+zgMGQ8fEz4W',
+  'ZAysB90Art7Mw5TCqMCS54Is/z98PRU32xNB+hP4ve9S6RTv9fDs9xQLpBalFx0TrAV19xT0uvZR+2sBFANOAWsBPQPhBP4F',
+  'egO3/Vz5VPjN+zECCAdqBwsEVf5K+pn6MfwH/vz+dP1Y/Y0CDghDC+8Kzv9m8BrpU+h77zgCZA6KD2EV6RNpCYEHJfg30kLC',
+  'eMF3xgAAiTmIPr49yS3bB3/4l/YX7J/qdvCc8cj9hRCtF+YWmg8yABH1vfTy93P9qAKMAgQB+QHPA2cFtgWrAfX7lvj4+M/9',
+  'MwSsB6QGSQKG/AL6H/vD/JX+sv7s/JX+rwRGCewLiwhU+uPsW+hc6ez0FAgLD+wQrhZDEO0HvwUl7OvIhMIBwH7TbhhYP2w9',
+  'NDxSISP/VPic88Lp4ezn8MjzhgRfFOoXfBUBC0X7C/Ss9XT5mP8vA98BEAGdAlkE1AXfBK3/f/o4+Cb6AADaBcgHgQVTACH7',
+  'LPqn+2P98P4h/tH8aACMBlQK9Qu7BP/0hOoW6KHrevs4DBkPHxM+FmQMrAfdAK7ezMOUwqjAkueCLP8/fD0VN9sTQfoT+L3v',
+  'UukU7/Xw7PcUC6QWpRcdE6wFdfcU9Lr2UftrARQDTgFrAT0D4QT+BXoDt/1c+VT4zfsxAggHagcLBFX+SvqZ+jH8B/78/nT9',
+  'WP2NAg4IQwvvCs7/ZvAa6VPoe+84AmQOig9hFekTaQmBByX4N9JCwnjBd8YAAIk5iD6+Pckt2wd/+Jf2F+yf6nbwnPHI/YUQ',
+  'rRfmFpoPMgAR9b308vdz/agCjAIEAfkBzwNnBbYFqwH1+5b4+PjP/TMErAekBkkChvwC+h/7w/yV/rL+7PyV/q8ERgnsC4sI',
+  'VPrj7FvoXOns9BQICw/sEK4WQxDtB78FJezryITCAcB+024YWD9sPTQ8UiEj/1T4nPPC6eHs5/DI84YEXxTqF3wVAQtF+wv0',
+  'rPV0+Zj/LwPfARABnQJZBNQF3wSt/3/6OPgm+gAA2gXIB4EFUwAh+yz6p/tj/fD+If7R/GgAjAZUCvULuwT/9ITqFuih63r7',
+  'OAwZDx8TPhZkDKwH3QCu3szDlMKowJLngiz/P3w9FTfbE0H6E/i971LpFO/18Oz3FAukFqUXHROsBXX3FPS69lH7awEUA04B',
+  'awE9A+EE/gV6A7f9XPlU+M37MQIIB2oHCwRV/kr6mfox/Af+/P50/Vj9jQIOCEML7wrO/2bwGulT6HvvOAJkDooPYRXpE2kJ',
+  'gQcl+DfSQsJ4wXfGAACJOYg+vj3JLdsHf/iX9hfsn+p28JzxyP2FEK0X5haaDzIAEfW99PL3c/2oAowCBAH5Ac8DZwW2BasB',
+  '9fuW+Pj4z/0zBKwHpAZJAob8Avof+8P8lf6y/uz8lf6vBEYJ7AuLCFT64+xb6Fzp7PQUCAsP7BCuFkMQ7Qe/BSXs68iEwgHA',
+  'ftNuGFg/bD00PFIhI/9U+Jzzwunh7OfwyPOGBF8U6hd8FQELRfsL9Kz1dPmY/y8D3wEQAZ0CWQTUBd8Erf9/+jj4JvoAANoF',
+  'yAeBBVMAIfss+qf7Y/3w/iH+0fxoAIwGVAr1C7sE//SE6hbooet6+zgMGQ8fEz4WZAysB90Art7Mw5TCqMCS54Is/z98PRU3',
+  '2xNB+hP4ve9S6RTv9fDs9xQLpBalFx0TrAV19xT0uvZR+2sBFANOAWsBPQPhBP4FegO3/Vz5VPjN+zECCAdqBwsEVf5K+pn6',
+  'MfwH/vz+dP1Y/Y0CDghDC+8Kzv9m8BrpU+h77zgCZA6KD2EV6RNpCYEHJfg30kLCeMF3xgAAiTmIPr49yS3bB3/4l/YX7J/q',
+  'dvCc8cj9hRCtF+YWmg8yABH1vfTy93P9qAKMAgQB+QHPA2cFtgWrAfX7lvj4+M/9MwSsB6QGSQKG/AL6H/vD/JX+sv7s/JX+',
+  'rwRGCewLiwhU+uPsW+hc6ez0FAgLD+wQrhZDEO0HvwUl7OvIhMIBwH7TbhhYP2w9NDxSISP/VPic88Lp4ezn8MjzhgRfFOoX',
+  'fBUBC0X7C/Ss9XT5mP8vA98BEAGdAlkE1AXfBK3/f/o4+Cb6AADaBcgHgQVTACH7LPqn+2P98P4h/tH8aACMBlQK9Qu7BP/0',
+  'hOoW6KHrevs4DBkPHxM+FmQMrAfdAK7ezMOUwqjAkueCLP8/fD0VN9sTQfoT+L3vUukU7/Xw7PcUC6QWpRcdE6wFdfcU9Lr2',
+  'UftrARQDTgFrAT0D4QT+BXoDt/1c+VT4zfsxAggHagcLBFX+SvqZ+jH8B/78/nT9WP2NAg4IQwvvCs7/ZvAa6VPoe+84AmQO',
+  'ig9hFekTaQmBByX4N9JCwnjBd8YAAIk5iD6+Pckt2wd/+Jf2F+yf6nbwnPHI/YUQrRfmFpoPMgAR9b308vdz/agCjAIEAfkB',
+  'zwNnBbYFqwH1+5b4+PjP/TMErAekBkkChvwC+h/7w/yV/rL+7PyV/q8ERgnsC4sIVPrj7FvoXOns9BQICw/sEK4WQxDtB78F',
+  'JezryITCAcB+024YWD9sPTQ8UiEj/1T4nPPC6eHs5/DI84YEXxTqF3wVAQtF+wv0rPV0+Zj/LwPfARABnQJZBNQF3wSt/3/6',
+  'OPgm+gAA2gXIB4EFUwAh+yz6p/tj/fD+If7R/GgAjAZUCvULuwT/9ITqFuih63r7OAwZDx8TPhZkDKwH3QCu3szDlMKowJLn',
+  'giz/P3w9FTfbE0H6E/i971LpFO/18Oz3FAukFqUXHROsBXX3FPS69lH7awEUA04BawE9A+EE/gV6A7f9XPlU+M37MQIIB2oH',
+  'CwRV/kr6mfox/Af+/P50/Vj9jQIOCEML7wrO/2bwGulT6HvvOAJkDooPYRXpE2kJgQcl+DfSQsJ4wXfGAACJOYg+vj3JLdsH',
+  'f/iX9hfsn+p28JzxyP2FEK0X5haaDzIAEfW99PL3c/2oAowCBAH5Ac8DZwW2BasB9fuW+Pj4z/0zBKwHpAZJAob8Avof+8P8',
+  'lf6y/uz8lf6vBEYJ7AuLCFT64+xb6Fzp7PQUCAsP7BCuFkMQ7Qe/BSXs68iEwgHAftNuGFg/bD00PFIhI/9U+Jzzwunh7Ofw',
+  'yPOGBF8U6hd8FQELRfsL9Kz1dPmY/y8D3wEQAZ0CWQTUBd8Erf9/+jj4JvoAANoFyAeBBVMAIfss+qf7Y/3w/iH+0fxoAIwG',
+  'VAr1C7sE//SE6hbooet6+zgMGQ8fEz4WZAysB90Art7Mw5TCqMCS54Is/z98PRU32xNB+hP4ve9S6RTv9fDs9xQLpBalFx0T',
+  'rAV19xT0uvZR+2sBFANOAWsBPQPhBP4FegO3/Vz5VPjN+zECCAdqBwsEVf5K+pn6MfwH/vz+dP1Y/Y0CDghDC+8Kzv9m8Brp',
+  'U+h77zgCZA6KD2EV6RNpCYEHJfg30kLCeMF3xgAAiTmIPr49yS3bB3/4l/YX7J/qdvCc8cj9hRCtF+YWmg8yABH1vfTy93P9',
+  'qAKMAgQB+QHPA2cFtgWrAfX7lvj4+M/9MwSsB6QGSQKG/AL6H/vD/JX+sv7s/JX+rwRGCewLiwhU+uPsW+hc6ez0FAgLD+wQ',
+  'rhZDEO0HvwUl7OvIhMIBwH7TbhhYP2w9NDxSISP/VPic88Lp4ezn8MjzhgRfFOoXfBUBC0X7C/Ss9XT5mP8vA98BEAGdAlkE',
+  '1AXfBK3/f/o4+Cb6AADaBcgHgQVTACH7LPqn+2P98P4h/tH8aACMBlQK9Qu7BP/0hOoW6KHrevs4DBkPHxM+FmQMrAfdAK7e',
+  'zMOUwqjAkueCLP8/fD0VN9sTQfoT+L3vUukU7/Xw7PcUC6QWpRcdE6wFdfcU9Lr2UftrARQDTgFrAT0D4QT+BXoDt/1c+VT4',
+  'zfsxAggHagcLBFX+SvqZ+jH8B/78/nT9WP2NAg4IQwvvCs7/ZvAa6VPoe+84AmQOig9hFekTaQmBByX4N9JCwnjBd8YAAIk5',
+  'iD6+Pckt2wd/+Jf2F+yf6nbwnPHI/YUQrRfmFpoPMgAR9b308vdz/agCjAIEAfkBzwNnBbYFqwH1+5b4+PjP/TMErAekBkkC',
+  'hvwC+h/7w/yV/rL+7PyV/q8ERgnsC4sIVPrj7FvoXOns9BQICw/sEK4WQxDtB78FJezryITCAcB+024YWD9sPTQ8UiEj/1T4',
+  'nPPC6eHs5/DI84YEXxTqF3wVAQtF+wv0rPV0+Zj/LwPfARABnQJZBNQF3wSt/3/6OPgm+gAA2gXIB4EFUwAh+yz6p/tj/fD+',
+  'If7R/GgAjAZUCvULuwT/9ITqFuih63r7OAwZDx8TPhZkDKwH3QCu3szDlMKowJLngiz/P3w9FTfbE0H6E/i971LpFO/18Oz3',
+  'FAukFqUXHROsBXX3FPS69lH7awEUA04BawE9A+EE/gV6A7f9XPlU+M37MQIIB2oHCwRV/kr6mfox/Af+/P50/Vj9jQIOCEML',
+  '7wrO/2bwGulT6HvvOAJkDooPYRXpE2kJgQcl+DfSQsJ4wXfGAACJOYg+vj3JLdsHf/iX9hfsn+p28JzxyP2FEK0X5haaDzIA',
+  'EfW99PL3c/2oAowCBAH5Ac8DZwW2BasB9fuW+Pj4z/0zBKwHpAZJAob8Avof+8P8lf6y/uz8lf6vBEYJ7AuLCFT64+xb6Fzp',
+  '7PQUCAsP7BCuFkMQ7Qe/BSXs68iEwgHAftNuGFg/bD00PFIhI/9U+Jzzwunh7OfwyPOGBF8U6hd8FQELRfsL9Kz1dPmY/y8D',
+  '3wEQAZ0CWQTUBd8Erf9/+jj4JvoAANoFyAeBBVMAIfss+qf7Y/3w/iH+0fxoAIwGVAr1C7sE//SE6hbooet6+zgMGQ8fEz4W',
+  'ZAysB90Art7Mw5TCqMCS54Is/z98PRU32xNB+hP4ve9S6RTv9fDs9xQLpBalFx0TrAV19xT0uvZR+2sBFANOAWsBPQPhBP4F',
+  'egO3/Vz5VPjN+zECCAdqBwsEVf5K+pn6MfwH/vz+dP1Y/Y0CDghDC+8Kzv9m8BrpU+h77zgCZA6KD2EV6RNpCYEHJfg30kLC',
+  'eMF3xgAAiTmIPr49yS3bB3/4l/YX7J/qdvCc8cj9hRCtF+YWmg8yABH1vfTy93P9qAKMAgQB+QHPA2cFtgWrAfX7lvj4+M/9',
+  'MwSsB6QGSQKG/AL6H/vD/JX+sv7s/JX+rwRGCewLiwhU+uPsW+hc6ez0FAgLD+wQrhZDEO0HvwUl7OvIhMIBwH7TbhhYP2w9',
+  'NDxSISP/VPic88Lp4ezn8MjzhgRfFOoXfBUBC0X7C/Ss9XT5mP8vA98BEAGdAlkE1AXfBK3/f/o4+Cb6AADaBcgHgQVTACH7',
+  'LPqn+2P98P4h/tH8aACMBlQK9Qu7BP/0hOoW6KHrevs4DBkPHxM+FmQMrAfdAK7ezMOUwqjAkueCLP8/fD0VN9sTQfoT+L3v',
+  'UukU7/Xw7PcUC6QWpRcdE6wFdfcU9Lr2UftrARQDTgFrAT0D4QT+BXoDt/1c+VT4zfsxAggHagcLBFX+SvqZ+jH8B/78/nT9',
+  'WP2NAg4IQwvvCs7/ZvAa6VPoe+84AmQOig9hFekTaQmBByX4N9JCwnjBd8YAAIk5iD6+Pckt2wd/+Jf2F+yf6nbwnPHI/YUQ',
+  'rRfmFpoPMgAR9b308vdz/agCjAIEAfkBzwNnBbYFqwH1+5b4+PjP/TMErAekBkkChvwC+h/7w/yV/rL+7PyV/q8ERgnsC4sI',
+  'VPrj7FvoXOns9BQICw/sEK4WQxDtB78FJezryITCAcB+024YWD9sPTQ8UiEj/1T4nPPC6eHs5/DI84YEXxTqF3wVAQtF+wv0',
+  'rPV0+Zj/LwPfARABnQJZBNQF3wSt/3/6OPgm+gAA2gXIB4EFUwAh+yz6p/tj/fD+If7R/GgAjAZUCvULuwT/9ITqFuih63r7',
+  'OAwZDx8TPhZkDKwH3QCu3szDlMKowJLngiz/P3w9FTfbE0H6E/i971LpFO/18Oz3FAukFqUXHROsBXX3FPS69lH7awEUA04B',
+  'awE9A+EE/gV6A7f9XPlU+M37MQIIB2oHCwRV/kr6mfox/Af+/P50/Vj9jQIOCEML7wrO/2bwGulT6HvvOAJkDooPYRXpE2kJ',
+  'gQcl+DfSQsJ4wXfGAACJOYg+vj3JLdsHf/iX9hfsn+p28JzxyP2FEK0X5haaDzIAEfW99PL3c/2oAowCBAH5Ac8DZwW2BasB',
+  '9fuW+Pj4z/0zBKwHpAZJAob8Avof+8P8lf6y/uz8lf6vBEYJ7AuLCFT64+xb6Fzp7PQUCAsP7BCuFkMQ7Qe/BSXs68iEwgHA',
+  'ftNuGFg/bD00PFIhI/9U+Jzzwunh7OfwyPOGBF8U6hd8FQELRfsL9Kz1dPmY/y8D3wEQAZ0CWQTUBd8Erf9/+jj4JvoAANoF',
+  'yAeBBVMAIfss+qf7Y/3w/iH+0fxoAIwGVAr1C7sE//SE6hbooet6+zgMGQ8fEz4WZAysB90Art7Mw5TCqMCS54Is/z98PRU3',
+  '2xNB+hP4ve9S6RTv9fDs9xQLpBalFx0TrAV19xT0uvZR+2sBFANOAWsBPQPhBP4FegO3/Vz5VPjN+zECCAdqBwsEVf5K+pn6',
+  'MfwH/vz+dP1Y/Y0CDghDC+8Kzv9m8BrpU+h77zgCZA6KD2EV6RNpCYEHJfg30kLCeMF3xgAAiTmIPr49yS3bB3/4l/YX7J/q',
+  'dvCc8cj9hRCtF+YWmg8yABH1vfTy93P9qAKMAgQB+QHPA2cFtgWrAfX7lvj4+M/9MwSsB6QGSQKG/AL6H/vD/JX+sv7s/JX+',
+  'rwRGCewLiwhU+uPsW+hc6ez0FAgLD+wQrhZDEO0HvwUl7OvIhMIBwH7TbhhYP2w9NDxSISP/VPic88Lp4ezn8MjzhgRfFOoX',
+  'fBUBC0X7C/Ss9XT5mP8vA98BEAGdAlkE1AXfBK3/f/o4+Cb6AADaBcgHgQVTACH7LPqn+2P98P4h/tH8aACMBlQK9Qu7BP/0',
+  'hOoW6KHrevs4DBkPHxM+FmQMrAfdAK7ezMOUwqjAkueCLP8/fD0VN9sTQfoT+L3vUukU7/Xw7PcUC6QWpRcdE6wFdfcU9Lr2',
+  'UftrARQDTgFrAT0D4QT7BXcDuf1n+WT41/srAvEGTwf7A1z+Zfq1+kb8Ev4D/4X9a/15As4H5QqPCtD/+/D/6UrpLfAfAr0N',
+  'zw5YFOoS7QgbB5P4ytTUxS7F+MkAANo1bjqYOaQqTgcJ+Uj3lu1C7K3xwvL2/ScPrRXuFD0OLgAO9sb1s/iy/WYCTALqAMYB',
+  'agPWBBsFfQFm/Gn5w/kP/rYDxQbaBQMC8vzA+rv7LP3E/t3+VP3F/g4EAwhICloHIfub78Hrp+yN9uEGyQxbDjUTvw2wBtcE',
+  'T+/J0YLMgcrd2lgUpzT2MtsxihtK/6/50fXB7VnwqvMJ9q4DjRBkE2MR5Agw/GH2tffA+q3/iwJ+AdgAEwJxA5sE2AO//6z7',
+  '5vlr+wAAkAQOBkYEQAA8/IH7p/z+/S//kf6R/U8A+wTYBw8JlAOy99LvB+658J78IAlBCzgOghAtCasFowB758rT/dKu0S3u',
+  'aCB/LpMs2SdVDtz7TvpW9MXv6/NJ9UL62wcGELMQeA38AwL6qPeG+b38/AAiAucA+gA7AlsDHARhAnH+evvK+if9ewG/BP4E',
+  'twLi/i78Zfx3/bH+VP9R/kD+rQFJBWAHJAfg/9z1J/Gw8Ff1bQE+CfQJqQ2xDPwFwgQH+xnjINm52PPbAADfI+MmTCZUHNkE',
+  'Yvs5+s/z8fKI9kH3qP79CUcOxg1cCR4AeflM+Tj7fv6RAYABmAAoAToCJgNSA/gAqv26+/X7v/5mAmAExgNMAQn+n/xB/S/+',
+  'Nf9G/0r+N/+XAh0FjgavBOb8lPUl87rzA/paBBUIEQkfDKoINgQLA4T1/+K534Hexui2DNwgxB8LHyERj/8V/LD5tfRS9mL4',
+  '2/lEAi8K6wusCnMFqv0e+u/6zPzO/4wB6ACDAEIBFQLJAlIC2f9l/VT8QP0AALwCnwOOAiYAwv1T/QP+z/6E/yf/kP4uAO8C',
+  'nQRTBRkCI/uJ9oH1F/cI/k4FiQY+CI4JTgVGA14A5PGa5i/meuXP9X8SfxpcGaIWIQio/cj8bPnc9jX5/PnI/GUE8whPCX8H',
+  'NwKu/GL7bPw0/osALAF/AIkAOAHUATwCSwEo/479L/13/swAjAKtAnQBZ//3/Rb+qP5P/6X/Hf8V/+EAxQLaA7kD7/+8+k/4',
+  'FviB+rwAvgQZBfsGeAYLA2oCfP1o8WvsROzu7QAA4xFYEwETBQ5kArr9Kv0H+p/5Y/vA+1r/0wThBp4GfAQOAOT80fy8/Ur/',
+  'vQC0AEcAigAJAXYBiQFyAO3+C/4o/m7/FgH6AbMBlQAf/3/+yP4z/6f/rv9A/6j/IAE3AtUCBAKs/o37ifrN+nr91AFiA8cD',
+  'CAWVA7sBPwG4+zb08PKB8q/2EwUQDZIMOgy3BtT/e/6Q/aj7TPwa/az92wDRA3IE9gMDAiX/2v0p/tj+7v+NAFIALgBwALoA',
+  '9wDMAPP/Hv/D/hT/AADnADEB1QAMAEf/Jf9f/6D/2v+9/4//DgDjAGMBlgGfAJP+QP36/HX9cv99AdEBRQKbAm4B4AAYAE78',
+  'a/lh+UX5cv2XBH8GJgZsBewBdP9C/4H+8v1//rD+T//vAN8B6wGFAXEAWf8c/1L/qv8ZADYAFgAXADUATgBdADQA3/+h/5X/',
+  'x/8cAFoAWwAwAO3/wf/G/9n/7f/3/+n/6f8VAEAAVQBOAP//nf93/3z/q/8KAD8APgBMAD8AGgASAPH/t/+2/87/6f8=',
+  ].join(''),
+};
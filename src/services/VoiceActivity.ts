@@ -0,0 +1,97 @@
+/**
+ * Voice activity detection
+ *
+ * Ends a recording once the user stopped talking: audio levels (dBFS, as
+ * metered by the recorder or computed from PCM) above the speech level
+ * count as speech, and after some speech has been heard a stretch of
+ * RECORDING_CONFIG.silenceThreshold below it ends the recording. The speech
+ * level is calibrated against the ambient noise of the room.
+ */
+
+import { RECORDING_CONFIG } from '../constants';
+
+export interface AudioLevel {
+  db: number; // dBFS, 0 = full scale
+  durationMs: number; // Audio the level stands for
+}
+
+export interface VoiceActivityState {
+  speechMs: number; // Loud audio in a row, until it counts as speech
+  speechHeard: boolean;
+  silenceMs: number; // Quiet audio since the last speech
+}
+
+export type VoiceActivityEvent = 'speech' | 'end-of-speech' | null;
+
+export interface VoiceActivityConfig {
+  speechLevelDb: number;
+  silenceMs?: number; // Default RECORDING_CONFIG.silenceThreshold
+  minSpeechMs?: number; // Default RECORDING_CONFIG.minSpeechMs
+}
+
+export const initialVoiceActivity = (): VoiceActivityState => ({
+  speechMs: 0,
+  speechHeard: false,
+  silenceMs: 0,
+});
+
+/**
+ * Peak level of 16-bit PCM samples, like Android's recorder metering
+ */
+export function pcmLevel(samples: ArrayLike<number>): number {
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) {
+    peak = Math.max(peak, Math.abs(samples[i]));
+  }
+  if (peak === 0) {
+    return RECORDING_CONFIG.silenceLevelDb;
+  }
+  return Math.max(20 * Math.log10(peak / 32767), RECORDING_CONFIG.silenceLevelDb);
+}
+
+/**
+ * Apply the next audio level. Reports 'speech' once speech is first heard
+ * and 'end-of-speech' when the silence after it is long enough.
+ */
+export function updateVoiceActivity(
+  state: VoiceActivityState,
+  level: AudioLevel,
+  config: VoiceActivityConfig,
+): { state: VoiceActivityState; event: VoiceActivityEvent } {
+  const silenceMs = config.silenceMs ?? RECORDING_CONFIG.silenceThreshold;
+  const minSpeechMs = config.minSpeechMs ?? RECORDING_CONFIG.minSpeechMs;
+
+  if (level.db >= config.speechLevelDb) {
+    // Short bursts (a click, a cough) aren't speech yet
+    const speechMs = state.speechMs + level.durationMs;
+    const speechHeard = state.speechHeard || speechMs >= minSpeechMs;
+    return {
+      state: { speechMs, speechHeard, silenceMs: speechHeard ? 0 : state.silenceMs },
+      event: speechHeard && !state.speechHeard ? 'speech' : null,
+    };
+  }
+
+  if (!state.speechHeard) {
+    return { state: { ...state, speechMs: 0 }, event: null };
+  }
+
+  const quietMs = state.silenceMs + level.durationMs;
+  return {
+    state: { speechMs: 0, speechHeard: true, silenceMs: quietMs },
+    event: quietMs >= silenceMs && state.silenceMs < silenceMs ? 'end-of-speech' : null,
+  };
+}
+
+/**
+ * Speech level for a room from levels measured while nobody talks: a
+ * margin above its loud moments
+ */
+export function calibrateSpeechLevel(ambientDb: number[]): number {
+  if (ambientDb.length === 0) {
+    return RECORDING_CONFIG.defaultSpeechLevelDb;
+  }
+  const sorted = [...ambientDb].sort((a, b) => a - b);
+  const noise = sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.95))];
+  const level = Math.round(noise + RECORDING_CONFIG.calibrationMarginDb);
+  return Math.min(RECORDING_CONFIG.maxSpeechLevelDb, Math.max(RECORDING_CONFIG.minSpeechLevelDb, level));
+}
@@ -0,0 +1,107 @@
+/**
+ * Voice commands
+ *
+ * Some utterances control the app instead of being sent to the agent,
+ * e.g. "stop" or "cancel" while a reply is running, or
+ * "switch to lab" to change the gateway profile. Extra wake words
+ * route the next utterance elsewhere (see wakeWordBindings).
+ */
+
+import type { AppSettings, VoiceCommand, WakeWordBinding } from '../types';
+
+// English and German for now
+const ABORT_PATTERNS = [
+  /^(please )?(stop|cancel)( it| that| talking| (the )?(reply|answer|response))?( please)?$/,
+  /^(bitte )?(stopp?|abbrechen|halt)( bitte)?$/,
+];
+
+// The captured group is the profile name
+const SWITCH_PROFILE_PATTERNS = [
+  /^(?:please )?(?:switch|change) (?:over )?to (?:the )?(?:profile )?(.+?)(?: profile| gateway)?(?: please)?$/,
+  /^(?:bitte )?(?:wechsle|wechseln|schalte|umschalten) (?:zu|zum|zur|auf) (?:profil )?(.+?)(?: bitte)?$/,
+];
+
+/**
+ * Normalize a transcript for matching (lowercase, no punctuation)
+ */
+const normalize = (text: string): string =>
+  text
+    .toLowerCase()
+    .replace(/[.,!?;:"']/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/**
+ * Parse a transcript into a voice command (null = regular message)
+ */
+export function parseVoiceCommand(text: string): VoiceCommand | null {
+  const normalized = normalize(text);
+
+  if (ABORT_PATTERNS.some((pattern) => pattern.test(normalized))) {
+    return { type: 'abort' };
+  }
+
+  for (const pattern of SWITCH_PROFILE_PATTERNS) {
+    const match = normalized.match(pattern);
+    if (match) {
+      return { type: 'switchProfile', name: match[1] };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Find the profile a spoken name refers to (exact name first, then prefix)
+ */
+export function matchProfileName<T extends { name: string }>(
+  spoken: string,
+  profiles: T[],
+): T | null {
+  const name = normalize(spoken);
+  return (
+    profiles.find((profile) => normalize(profile.name) === name) ||
+    profiles.find((profile) => normalize(profile.name).startsWith(name)) ||
+    null
+  );
+}
+
+/**
+ * Every wake word to listen for: the main one first, then the extra ones
+ */
+export function wakeWordsOf(settings: Pick<AppSettings, 'wakeWord' | 'wakeWordBindings'>): string[] {
+  return [settings.wakeWord, ...settings.wakeWordBindings.map((binding) => binding.word)];
+}
+
+/**
+ * Binding of a detected wake word (null = the main wake word, or unknown)
+ */
+export function findWakeWordBinding(
+  wakeWord: string,
+  settings: Pick<AppSettings, 'wakeWord' | 'wakeWordBindings'>,
+): WakeWordBinding | null {
+  const word = normalize(wakeWord);
+  if (word === normalize(settings.wakeWord)) {
+    return null;
+  }
+  return settings.wakeWordBindings.find((binding) => normalize(binding.word) === word) || null;
+}
+
+/**
+ * Drop a wake word the transcript starts with. With speak-through, STT can
+ * still catch the end of the wake word ("computer, what's the time").
+ */
+export function stripWakeWord(text: string, wakeWords: string[]): string {
+  for (const wakeWord of wakeWords) {
+    const words = normalize(wakeWord).split(' ').filter(Boolean);
+    if (words.length === 0) {
+      continue;
+    }
+    const escaped = words.map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    const pattern = new RegExp(`^\\s*${escaped.join('[\\s,]+')}(?:[\\s.,!?;:]+|$)`, 'i');
+    if (pattern.test(text)) {
+      return text.replace(pattern, '').trim();
+    }
+  }
+  return text;
+}
@@ -0,0 +1,486 @@
+/**
+ * Vosk Engine
+ *
+ * The one owner of react-native-vosk. Wake word detection and STT both
+ * recognize with it, so a model is loaded once instead of once per service
+ * (large models don't fit in memory twice).
+ *
+ * - Each service gets its own recognizer from createRecognizer(), shaped
+ *   like react-native-vosk, and runs it with its own grammar
+ * - The model stays loaded while any recognizer holds it (reference counted)
+ * - The native module runs one recognition at a time: starting a recognizer
+ *   stops the running one, and events go to the recognizer that started
+ * - switchModel() reloads in place and resumes the running recognition
+ * - Starting a recognizer while another one runs is a handoff (e.g. wake
+ *   word -> STT): the microphone keeps recording and the new recognizer
+ *   first hears the audio since the running one last heard something new
+ *   (the wake word), so nothing said after the wake word is clipped.
+ *   Without native support (iOS) it falls back to stop + start. Handoffs
+ *   and their gaps are logged in diagnostics.
+ * - The running recognition can turn into a WAV recording (custom STT) that
+ *   starts with the audio from before, see startCapture()
+ */
+
+import { NativeEventEmitter, NativeModules } from 'react-native';
+import Vosk from 'react-native-vosk';
+import { VOSK_CONFIG } from '../constants';
+import { diagnosticsService } from './DiagnosticsService';
+import type { AudioLevel } from './VoiceActivity';
+
+interface VoskStartOptions {
+  grammar?: string[]; // Omit for full speech recognition
+  timeout?: number;
+}
+
+type ResultHandler = (result: string) => void;
+
+interface VoskSwitchOptions {
+  grammar?: string[];
+  replayMs: number; // Recorded audio fed to the new recognizer first
+}
+
+interface VoskSwitchResult {
+  replayedMs: number;
+  droppedMs: number; // Asked for but no longer recorded
+}
+
+/**
+ * A recording made with startCapture()
+ */
+export interface VoskCapture {
+  path: string; // 16 kHz mono WAV
+  durationMs: number; // Pre-roll included
+  preRollMs: number;
+}
+
+/**
+ * The native recognition: react-native-vosk, plus switching recognizers
+ * without stopping the microphone where the native module has it (patch)
+ */
+export interface VoskBackend {
+  loadModel(path: string): Promise<void>;
+  start(options?: VoskStartOptions): Promise<void>;
+  stop(): void | Promise<void>;
+  unload(): void | Promise<void>;
+  switchRecognizer?(options: VoskSwitchOptions): Promise<VoskSwitchResult>;
+  startCapture?(options: { path: string; preRollMs: number }): Promise<{ preRollMs: number }>;
+  stopCapture?(): Promise<VoskCapture>;
+  onCaptureLevel?(handler: (level: string) => void): unknown; // JSON AudioLevel
+  onResult(handler: ResultHandler): unknown;
+  onPartialResult(handler: ResultHandler): unknown;
+  onFinalResult(handler: ResultHandler): unknown;
+  onError(handler: (error: unknown) => void): unknown;
+}
+
+const createNativeBackend = (): VoskBackend => {
+  const vosk: VoskBackend = new Vosk();
+  const native = NativeModules.Vosk;
+  if (typeof native?.switchRecognizer === 'function') {
+    vosk.switchRecognizer = (options) => native.switchRecognizer(options);
+  }
+  if (typeof native?.startCapture === 'function') {
+    vosk.startCapture = (options) => native.startCapture(options);
+    vosk.stopCapture = () => native.stopCapture();
+    const emitter = new NativeEventEmitter(native);
+    vosk.onCaptureLevel = (handler) => emitter.addListener('onCaptureLevel', handler);
+  }
+  return vosk;
+};
+
+interface VoskSession {
+  onResult?: ResultHandler;
+  onPartialResult?: ResultHandler;
+  onFinalResult?: ResultHandler;
+  onError?: (error: string) => void;
+}
+
+/**
+ * A recognizer on the shared engine
+ */
+export interface VoskRecognizer {
+  loadModel(path: string): Promise<void>; // Switching paths hands back the previous model
+  start(options?: VoskStartOptions): Promise<void>;
+  stop(): Promise<void>;
+  unload(): Promise<void>; // Hand back the model, unloaded once nobody holds it
+  onResult(handler: ResultHandler): void;
+  onPartialResult(handler: ResultHandler): void;
+  onFinalResult(handler: ResultHandler): void;
+  onError(handler: (error: string) => void): void;
+}
+
+// The partial text, without the per-word details that change on every partial
+const partialText = (partial: string): string => {
+  try {
+    return JSON.parse(partial).partial || '';
+  } catch {
+    return partial;
+  }
+};
+
+export class VoskEngine {
+  private vosk: VoskBackend | null = null;
+  private modelPath: string | null = null; // Loaded, or being loaded
+  private loading: Promise<void> | null = null; // Resolves once modelPath is loaded
+  private users: number = 0;
+  private session: VoskSession | null = null; // Started last, receives the events
+  private startOptions: VoskStartOptions | undefined;
+  private isRunning: boolean = false;
+  private isCapturing: boolean = false; // Recording to a file, no recognizer
+  private captureLevelHandler: ((level: AudioLevel) => void) | null = null;
+  private stopped: { session: VoskSession; until: number } | null = null; // Awaiting its final result
+  private heardAt: number = 0; // Last result, or partial result that changed
+  private lastPartial: string = '';
+
+  constructor(private createBackend: () => VoskBackend = createNativeBackend) {}
+
+  /**
+   * A recognizer that shares the engine's model
+   */
+  createRecognizer(): VoskRecognizer {
+    const session: VoskSession = {};
+    let heldPath: string | null = null;
+
+    return {
+      loadModel: async (path) => {
+        if (heldPath === path) {
+          return;
+        }
+        await this.acquire(path);
+        if (heldPath !== null) {
+          await this.release();
+        }
+        heldPath = path;
+      },
+      start: (options) => this.start(session, options),
+      stop: () => this.stop(session),
+      unload: async () => {
+        if (heldPath === null) {
+          return;
+        }
+        heldPath = null;
+        await this.stop(session);
+        await this.release();
+      },
+      onResult: (handler) => {
+        session.onResult = handler;
+      },
+      onPartialResult: (handler) => {
+        session.onPartialResult = handler;
+      },
+      onFinalResult: (handler) => {
+        session.onFinalResult = handler;
+      },
+      onError: (handler) => {
+        session.onError = handler;
+      },
+    };
+  }
+
+  /**
+   * Load the model for one more user. A different path replaces the
+   * loaded model for everyone.
+   */
+  private async acquire(modelPath: string): Promise<void> {
+    this.users++;
+    try {
+      await this.load(modelPath);
+    } catch (error) {
+      this.users--;
+      throw error;
+    }
+  }
+
+  /**
+   * One user less, the model is unloaded with the last one
+   */
+  private async release(): Promise<void> {
+    this.users = Math.max(0, this.users - 1);
+    if (this.users === 0) {
+      await this.unload();
+    }
+  }
+
+  /**
+   * Switch to another model (e.g. picked in the model manager). Recognizers
+   * in use move over with a running recognition resumed, otherwise the new
+   * model is loaded when first needed.
+   */
+  async switchModel(modelPath: string): Promise<void> {
+    if (this.users === 0 || modelPath === this.modelPath) {
+      return;
+    }
+
+    const previous = this.modelPath;
+    try {
+      await this.load(modelPath);
+    } catch (error) {
+      // Loading replaces the old model natively, bring it back
+      if (previous) {
+        await this.load(previous).catch(() => {});
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Stop recognizing and free the model (e.g. the model files are deleted).
+   * Recognizers load it again with loadModel().
+   */
+  async unload(): Promise<void> {
+    if (!this.vosk || this.modelPath === null) {
+      return;
+    }
+    const vosk = this.vosk;
+    this.modelPath = null;
+    this.loading = null;
+    this.isRunning = false;
+    this.isCapturing = false;
+    this.session = null;
+    try {
+      await vosk.unload();
+      console.log('[Vosk] Model unloaded');
+    } catch (error) {
+      console.error('[Vosk] Failed to unload model:', error);
+    }
+  }
+
+  private load(modelPath: string): Promise<void> {
+    if (this.modelPath === modelPath && this.loading) {
+      return this.loading;
+    }
+
+    const previous = this.loading || Promise.resolve();
+    this.modelPath = modelPath;
+    const loading = previous
+      .catch(() => {})
+      .then(() => this.loadNative(modelPath));
+    this.loading = loading;
+
+    // Forget a failed load, so the next user tries again
+    loading.catch(() => {
+      if (this.loading === loading) {
+        this.modelPath = null;
+        this.loading = null;
+      }
+    });
+    return loading;
+  }
+
+  private async loadNative(modelPath: string): Promise<void> {
+    const vosk = this.getVosk();
+    const resume = this.isRunning && this.session
+      ? { session: this.session, options: this.startOptions }
+      : null;
+
+    if (this.isRunning) {
+      this.isRunning = false;
+      this.isCapturing = false; // The recording ends with it
+      await vosk.stop();
+    }
+
+    console.log('[Vosk] Loading model:', modelPath);
+    await vosk.loadModel(modelPath); // Replaces the loaded one
+    console.log('[Vosk] Model loaded');
+
+    if (resume) {
+      await this.startNative(resume.session, resume.options);
+    }
+  }
+
+  private async start(session: VoskSession, options?: VoskStartOptions): Promise<void> {
+    if (!this.loading) {
+      throw new Error('No Vosk model loaded. Call loadModel() first.');
+    }
+    await this.loading;
+
+    if (this.isCapturing) {
+      // The recording gives way too, unfinished
+      await this.stopCapture();
+    }
+    if (this.isRunning && this.session !== session) {
+      // One recognition at a time, the running one gives way
+      await this.handOff(session, options);
+      return;
+    }
+    if (this.isRunning) {
+      await this.stop(session);
+    }
+    await this.startNative(session, options);
+  }
+
+  /**
+   * Move the running recognition to another recognizer, keeping the
+   * microphone on where the native module can
+   */
+  private async handOff(session: VoskSession, options?: VoskStartOptions): Promise<void> {
+    const vosk = this.getVosk();
+    const startedAt = Date.now();
+
+    if (vosk.switchRecognizer) {
+      // Replay from a bit before the running recognizer last heard something
+      // new (e.g. the wake word), events reach us after the audio was recorded
+      const replayMs = Math.min(
+        VOSK_CONFIG.historyMs,
+        startedAt - this.heardAt + VOSK_CONFIG.handoffOverlapMs,
+      );
+      const previous = { session: this.session, options: this.startOptions };
+      this.session = session;
+      this.startOptions = options;
+      try {
+        const { replayedMs, droppedMs } = await vosk.switchRecognizer({
+          grammar: options?.grammar,
+          replayMs,
+        });
+        diagnosticsService.recordHandoff({
+          at: startedAt,
+          mode: 'continuous',
+          gapMs: droppedMs,
+          replayedMs,
+        });
+        return;
+      } catch (error) {
+        // E.g. stopped meanwhile, start over
+        console.warn('[Vosk] Continuous handoff failed, restarting:', error);
+        if (this.session === session) {
+          this.session = previous.session;
+          this.startOptions = previous.options;
+        }
+      }
+    }
+
+    if (this.isRunning && this.session) {
+      await this.stop(this.session);
+    }
+    await this.startNative(session, options);
+    diagnosticsService.recordHandoff({
+      at: startedAt,
+      mode: 'restart',
+      gapMs: Date.now() - startedAt, // Microphone off
+    });
+  }
+
+  /**
+   * Whether the running recognition can turn into a recording
+   */
+  canCapture(): boolean {
+    return this.isRunning && !this.isCapturing && Boolean(this.vosk?.startCapture);
+  }
+
+  /**
+   * Record the running recognition's audio to a WAV file at `path` instead
+   * of recognizing it, starting with up to `preRollMs` of the audio before.
+   * The microphone stays on, stopCapture() ends the recording. `onLevel`
+   * gets the level of the recorded audio, pre-roll included.
+   */
+  async startCapture(
+    path: string,
+    preRollMs: number,
+    onLevel?: (level: AudioLevel) => void,
+  ): Promise<void> {
+    const vosk = this.vosk;
+    if (!vosk?.startCapture || !this.canCapture()) {
+      throw new Error('Nothing to record from, start a recognizer first');
+    }
+
+    const startedAt = Date.now();
+    this.captureLevelHandler = onLevel || null;
+    let started: { preRollMs: number };
+    try {
+      started = await vosk.startCapture({
+        path,
+        preRollMs: Math.min(preRollMs, VOSK_CONFIG.historyMs),
+      });
+    } catch (error) {
+      this.captureLevelHandler = null;
+      throw error;
+    }
+    // No recognizer any more, no events
+    this.session = null;
+    this.isCapturing = true;
+    diagnosticsService.recordHandoff({
+      at: startedAt,
+      mode: 'continuous',
+      gapMs: 0,
+      replayedMs: started.preRollMs,
+      detail: 'recording',
+    });
+  }
+
+  /**
+   * Stop the microphone and finish the recording
+   */
+  async stopCapture(): Promise<VoskCapture | null> {
+    if (!this.isCapturing || !this.vosk?.stopCapture) {
+      return null;
+    }
+    this.isCapturing = false;
+    this.isRunning = false;
+    this.captureLevelHandler = null;
+    return this.vosk.stopCapture();
+  }
+
+  private async startNative(session: VoskSession, options?: VoskStartOptions): Promise<void> {
+    this.session = session;
+    this.startOptions = options;
+    await this.getVosk().start(options);
+    this.isRunning = true;
+  }
+
+  private async stop(session: VoskSession): Promise<void> {
+    if (!this.vosk || !this.isRunning || this.session !== session) {
+      return;
+    }
+    this.isRunning = false;
+    // The final result of the utterance arrives after stop() - it is still this session's
+    this.stopped = { session, until: Date.now() + VOSK_CONFIG.finalResultGraceMs };
+    await this.vosk.stop();
+  }
+
+  private getVosk(): VoskBackend {
+    if (!this.vosk) {
+      const vosk = this.createBackend();
+      vosk.onResult((result) => {
+        this.heardAt = Date.now();
+        this.lastPartial = '';
+        this.session?.onResult?.(result);
+      });
+      vosk.onPartialResult((partial) => {
+        const text = partialText(partial);
+        if (text !== this.lastPartial) {
+          this.heardAt = Date.now();
+          this.lastPartial = text;
+        }
+        this.session?.onPartialResult?.(partial);
+      });
+      vosk.onFinalResult((result) => this.handleFinalResult(result));
+      vosk.onError((error) => this.session?.onError?.(String(error)));
+      vosk.onCaptureLevel?.((level) => {
+        try {
+          this.captureLevelHandler?.(JSON.parse(level));
+        } catch {
+          console.warn('[Vosk] Bad capture level:', level);
+        }
+      });
+      this.vosk = vosk;
+    }
+    return this.vosk;
+  }
+
+  private handleFinalResult(result: string): void {
+    const stopped = this.stopped;
+    this.stopped = null;
+    const session = stopped && Date.now() <= stopped.until ? stopped.session : this.session;
+    session?.onFinalResult?.(result);
+  }
+
+  getModelPath(): string | null {
+    return this.modelPath;
+  }
+
+  getUserCount(): number {
+    return this.users;
+  }
+}
+
+// Singleton instance
+export const voskEngine = new VoskEngine();
@@ -0,0 +1,146 @@
+/**
+ * Wake word matching
+ *
+ * Finds a wake word in a Vosk result. Matches whole words only (so
+ * "computers" doesn't trigger "computer"), multi-word wake phrases must be
+ * heard in sequence, and when the result carries per-word confidence every
+ * word of the wake phrase has to reach the threshold set by the
+ * sensitivity. Everything that came close is reported as a near miss.
+ */
+
+import { WAKE_WORD_CONFIG } from '../constants';
+
+export interface RecognizedWord {
+  word: string;
+  conf: number | null; // null = the recognizer didn't say
+}
+
+export interface WakeWordMatch {
+  wakeWord: string;
+  confidence: number | null; // Lowest word confidence of the match
+}
+
+export interface WakeWordNearMiss {
+  wakeWord: string;
+  heard: string;
+  reason: 'low-confidence' | 'partial-word' | 'out-of-order';
+  confidence?: number;
+}
+
+export interface WakeWordMatchResult {
+  match: WakeWordMatch | null;
+  nearMisses: WakeWordNearMiss[];
+}
+
+const tokenize = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .replace(/[.,!?;:"]/g, '')
+    .split(/\s+/)
+    .filter(Boolean);
+
+/**
+ * Words of a Vosk result. Results look like
+ * { "text": "hey computer", "result": [{ "word": "hey", "conf": 0.98, ... }] }
+ * when word output is on, or just { "text": ... } / plain text otherwise.
+ * Partial results use "partial" and "partial_result" instead.
+ */
+export function parseRecognizerResult(raw: string): RecognizedWord[] {
+  let parsed: {
+    text?: unknown;
+    partial?: unknown;
+    result?: unknown;
+    partial_result?: unknown;
+  } | null = null;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    // Plain text
+  }
+
+  if (!parsed || typeof parsed !== 'object') {
+    return tokenize(raw).map((word) => ({ word, conf: null }));
+  }
+
+  const items = Array.isArray(parsed.result) ? parsed.result : parsed.partial_result;
+  if (Array.isArray(items)) {
+    return items
+      .filter((item) => item && typeof item.word === 'string')
+      .flatMap((item) =>
+        tokenize(item.word).map((word) => ({
+          word,
+          conf: typeof item.conf === 'number' ? item.conf : null,
+        })),
+      );
+  }
+
+  const text = typeof parsed.text === 'string' ? parsed.text : parsed.partial;
+  return tokenize(typeof text === 'string' ? text : '').map((word) => ({ word, conf: null }));
+}
+
+/**
+ * Minimum word confidence for a sensitivity between 0 (strict) and 1 (lenient)
+ */
+export function confidenceThreshold(sensitivity: number): number {
+  const clamped = Math.min(1, Math.max(0, sensitivity));
+  const { strictConfidence, lenientConfidence } = WAKE_WORD_CONFIG;
+  return strictConfidence - (strictConfidence - lenientConfidence) * clamped;
+}
+
+/**
+ * Find the wake word heard first in a result. Near misses are collected
+ * for every wake word that was almost heard, for tuning the sensitivity.
+ */
+export function matchWakeWord(
+  words: RecognizedWord[],
+  wakeWords: string[],
+  threshold: number,
+): WakeWordMatchResult {
+  const heard = words.map((item) => item.word).join(' ');
+  const nearMisses: WakeWordNearMiss[] = [];
+  let match: WakeWordMatch | null = null;
+  let matchAt = Infinity;
+
+  for (const wakeWord of wakeWords) {
+    const phrase = tokenize(wakeWord);
+    if (phrase.length === 0) {
+      continue;
+    }
+
+    let found = false;
+    for (let i = 0; i + phrase.length <= words.length; i++) {
+      const span = words.slice(i, i + phrase.length);
+      if (!span.every((item, j) => item.word === phrase[j])) {
+        continue;
+      }
+
+      const confidences = span
+        .map((item) => item.conf)
+        .filter((conf): conf is number => conf !== null);
+      const confidence = confidences.length > 0 ? Math.min(...confidences) : null;
+      found = true;
+
+      if (confidence !== null && confidence < threshold) {
+        nearMisses.push({ wakeWord, heard, reason: 'low-confidence', confidence });
+        continue;
+      }
+      if (i < matchAt) {
+        match = { wakeWord, confidence };
+        matchAt = i;
+      }
+      break;
+    }
+
+    if (found) {
+      continue;
+    }
+    const heardWords = words.map((item) => item.word);
+    if (heardWords.some((word) => phrase.some((part) => word !== part && word.includes(part)))) {
+      nearMisses.push({ wakeWord, heard, reason: 'partial-word' });
+    } else if (phrase.length > 1 && phrase.every((part) => heardWords.includes(part))) {
+      nearMisses.push({ wakeWord, heard, reason: 'out-of-order' });
+    }
+  }
+
+  return { match, nearMisses };
+}
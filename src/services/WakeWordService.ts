@@ -8,44 +8,99 @@
  * - Vosk runs in grammar mode, only listening for specific words
  * - This is more efficient than full STT recognition
  * - Supports any wake word (not limited to pre-trained keywords)
+ * - Listens for several wake words at once and reports which one was heard
+ * - Whole words only, and each word must reach the confidence set by the
+ *   sensitivity (see WakeWordMatcher). Near misses are logged for tuning.
+ * - Speak-through: detects on the partial result, while the user may still
+ *   be talking, so the command after the wake word reaches full STT
+ * - Can briefly listen for other phrases instead, e.g. "yes" / "no"
+ *   when the agent asks for an approval
+ * - Shares the loaded model with STT (see VoskEngine), and hands the
+ *   running microphone over to it with handOver()
+ * - The recognizer can be swapped out, e.g. to replay recorded results in
+ *   the wake word evaluation (__tests__/wake-word-eval.ts)
  */
 
-import Vosk from 'react-native-vosk';
+import { voskEngine } from './VoskEngine';
+import { confidenceThreshold, matchWakeWord, parseRecognizerResult } from './WakeWordMatcher';
 
-type WakeWordHandler = () => void;
+/**
+ * The parts of react-native-vosk the wake word detection uses
+ */
+export interface WakeWordRecognizer {
+  loadModel(path: string): Promise<void>;
+  start(options: { grammar: string[] }): Promise<void>;
+  stop(): void | Promise<void>;
+  unload(): void | Promise<void>;
+  onResult(handler: (result: string) => void): unknown;
+  onPartialResult(handler: (partial: string) => void): unknown;
+  onFinalResult(handler: (result: string) => void): unknown;
+  onError(handler: (error: string) => void): unknown;
+}
+
+type WakeWordHandler = (wakeWord: string) => void;
+type PhraseHandler = (text: string) => void;
 
 interface WakeWordConfig {
-  wakeWord: string;
+  wakeWords: string[];
   modelPath: string;
+  sensitivity: number; // 0.0 (strict) - 1.0 (lenient)
+  speakThrough: boolean;
 }
 
-class WakeWordService {
-  private vosk: Vosk | null = null;
+const normalizeWords = (words: string[]): string[] => [
+  ...new Set(words.map((word) => word.toLowerCase().trim()).filter(Boolean)),
+];
+
+export class WakeWordService {
+  private vosk: WakeWordRecognizer | null = null;
   private isListening: boolean = false;
   private isInitialized: boolean = false;
-  private currentWakeWord: string = 'computer';
+  private modelPath: string | null = null;
+  private wakeWords: string[] = ['computer'];
+  private threshold: number = confidenceThreshold(0.5); // Minimum word confidence
+  private speakThrough: boolean = false;
+  private hasDetected: boolean = false; // Current utterance already detected on (partial result)
   private handlers: Set<WakeWordHandler> = new Set();
+  private phrases: string[] | null = null; // Listened for instead of the wake word
+  private phraseHandlers: Set<PhraseHandler> = new Set();
+
+  constructor(
+    private createRecognizer: () => WakeWordRecognizer = () => voskEngine.createRecognizer(),
+  ) {}
 
   /**
-   * Initialize Vosk with model path and wake word
+   * Initialize Vosk with model path and wake words. Calling it again only
+   * applies what changed.
    */
   async initialize(config: WakeWordConfig): Promise<void> {
-    const { wakeWord, modelPath } = config;
+    const { wakeWords, modelPath, sensitivity, speakThrough } = config;
     
     if (!modelPath) {
       throw new Error('Vosk model path is required. Please download a model first.');
     }
 
-    this.currentWakeWord = wakeWord.toLowerCase();
+    this.threshold = confidenceThreshold(sensitivity);
+    this.speakThrough = speakThrough;
+
+    if (this.isInitialized && modelPath === this.modelPath) {
+      await this.setWakeWords(wakeWords);
+      return;
+    }
+
+    this.wakeWords = normalizeWords(wakeWords);
 
     try {
-      this.vosk = new Vosk();
+      if (!this.vosk) {
+        this.vosk = this.createRecognizer();
+      }
       
-      // Load the Vosk model
+      // Load the Vosk model (shared with STT, loaded once)
       await this.vosk.loadModel(modelPath);
       
+      this.modelPath = modelPath;
       this.isInitialized = true;
-      console.log('[WakeWord] Vosk initialized with wake word:', this.currentWakeWord);
+      console.log('[WakeWord] Vosk initialized with wake words:', this.wakeWords.join(', '));
     } catch (error) {
       console.error('[WakeWord] Vosk initialization failed:', error);
       this.isInitialized = false;
@@ -54,12 +109,12 @@ class WakeWordService {
   }
 
   /**
-   * Change the wake word (no re-initialization needed with Vosk!)
+   * Change the wake words (no re-initialization needed with Vosk!)
    */
-  async setWakeWord(wakeWord: string): Promise<void> {
-    const normalizedWord = wakeWord.toLowerCase();
+  async setWakeWords(wakeWords: string[]): Promise<void> {
+    const normalizedWords = normalizeWords(wakeWords);
     
-    if (normalizedWord === this.currentWakeWord) {
+    if (normalizedWords.join('|') === this.wakeWords.join('|')) {
       return;
     }
 
@@ -69,14 +124,29 @@ class WakeWordService {
       await this.stopListening();
     }
 
-    this.currentWakeWord = normalizedWord;
-    console.log('[WakeWord] Wake word changed to:', this.currentWakeWord);
+    this.wakeWords = normalizedWords;
+    console.log('[WakeWord] Wake words changed to:', this.wakeWords.join(', '));
 
     if (wasListening) {
       await this.startListening();
     }
   }
 
+  /**
+   * Change the sensitivity, applies to the next result
+   */
+  setSensitivity(sensitivity: number): void {
+    this.threshold = confidenceThreshold(sensitivity);
+    console.log('[WakeWord] Minimum confidence set to', this.threshold.toFixed(2));
+  }
+
+  /**
+   * Detect on partial results (speak-through) or wait for the full result
+   */
+  setSpeakThrough(enabled: boolean): void {
+    this.speakThrough = enabled;
+  }
+
   /**
    * Start listening for wake word using grammar mode
    * 
@@ -99,14 +169,15 @@ class WakeWordService {
       this.vosk.onError(this.handleError.bind(this));
       this.vosk.onFinalResult(this.handleFinalResult.bind(this));
       
-      // Start Vosk in grammar mode - only listen for wake word + unknown
+      // Start Vosk in grammar mode - only listen for the wake words + unknown
       // [unk] catches everything else so Vosk doesn't get confused
-      const grammar = [this.currentWakeWord, '[unk]'];
+      const grammar = [...(this.phrases || this.wakeWords), '[unk]'];
       
       await this.vosk.start({ grammar });
       
       this.isListening = true;
-      console.log('[WakeWord] Started listening for:', this.currentWakeWord);
+      this.hasDetected = false;
+      console.log('[WakeWord] Started listening for:', grammar.slice(0, -1).join(', '));
     } catch (error) {
       console.error('[WakeWord] Failed to start listening:', error);
       throw error;
@@ -131,17 +202,74 @@ class WakeWordService {
     }
   }
 
+  /**
+   * Hand the microphone to the next recognizer (Vosk STT) without stopping
+   * it first: the engine switches recognizers while recording goes on, so
+   * the words right after the wake word aren't clipped.
+   */
+  async handOver(startNext: () => Promise<void>): Promise<void> {
+    if (!this.isListening) {
+      await startNext();
+      return;
+    }
+
+    try {
+      await startNext();
+      console.log('[WakeWord] Handed over to the next recognizer');
+    } finally {
+      // The engine has moved on from it (or may have), startListening() resumes
+      this.isListening = false;
+    }
+  }
+
+  /**
+   * Listen for the given phrases instead of the wake word until
+   * stopPhrases() is called. Matches go to onPhrase handlers.
+   */
+  async listenForPhrases(phrases: string[]): Promise<void> {
+    await this.stopListening();
+    this.phrases = phrases.map((phrase) => phrase.toLowerCase());
+    await this.startListening();
+  }
+
+  /**
+   * Stop listening for phrases. Call startListening() to go back to the wake word.
+   */
+  async stopPhrases(): Promise<void> {
+    if (!this.phrases) {
+      return;
+    }
+    await this.stopListening();
+    this.phrases = null;
+  }
+
   /**
    * Handle Vosk partial results (streaming recognition)
    */
   private handlePartialResult(partial: string): void {
-    // Partial results for wake word detection
-    const text = partial.toLowerCase().trim();
-    
-    if (text.includes(this.currentWakeWord)) {
-      console.log('[WakeWord] Partial match detected:', text);
-      // Don't trigger on partial - wait for final
+    if (this.phrases || this.hasDetected) {
+      return;
+    }
+
+    const { match } = matchWakeWord(parseRecognizerResult(partial), this.wakeWords, this.threshold);
+    if (!match) {
+      return;
     }
+
+    if (!this.speakThrough) {
+      // Wait for the full result
+      console.log('[WakeWord] Partial match detected:', match.wakeWord);
+      return;
+    }
+
+    // The utterance may go on - hand over now so STT hears the rest
+    console.log(
+      '[WakeWord] Detected in partial result!',
+      match.wakeWord,
+      match.confidence !== null ? `(confidence ${match.confidence.toFixed(2)})` : '(no confidence)',
+    );
+    this.hasDetected = true;
+    this.notifyHandlers(match.wakeWord);
   }
 
   /**
@@ -162,22 +290,57 @@ class WakeWordService {
    * Check if result contains wake word
    */
   private checkForWakeWord(result: string): void {
+    if (this.phrases) {
+      this.checkForPhrase(result);
+      return;
+    }
+    if (this.hasDetected) {
+      // End of an utterance already detected on in a partial result
+      this.hasDetected = false;
+      return;
+    }
+
+    // Vosk returns JSON: { "text": "computer", "result": [{ "word": "computer", "conf": 0.97 }] }
+    const { match, nearMisses } = matchWakeWord(
+      parseRecognizerResult(result),
+      this.wakeWords,
+      this.threshold,
+    );
+
+    nearMisses.forEach((miss) => {
+      const confidence =
+        miss.confidence !== undefined
+          ? `, ${miss.confidence.toFixed(2)} < ${this.threshold.toFixed(2)}`
+          : '';
+      console.log(`[WakeWord] Near miss: "${miss.heard}" (${miss.wakeWord}: ${miss.reason}${confidence})`);
+    });
+
+    if (match) {
+      console.log(
+        '[WakeWord] Detected!',
+        match.wakeWord,
+        match.confidence !== null ? `(confidence ${match.confidence.toFixed(2)})` : '(no confidence)',
+      );
+      this.notifyHandlers(match.wakeWord);
+    }
+  }
+
+  /**
+   * Check if result contains one of the phrases listened for
+   */
+  private checkForPhrase(result: string): void {
+    let text: string;
     try {
-      // Vosk returns JSON: { "text": "computer" }
-      const parsed = JSON.parse(result);
-      const text = (parsed.text || '').toLowerCase().trim();
-      
-      if (text.includes(this.currentWakeWord)) {
-        console.log('[WakeWord] Detected!', text);
-        this.notifyHandlers();
-      }
+      text = (JSON.parse(result).text || '').toLowerCase().trim();
     } catch {
-      // If not JSON, check raw text
-      const text = result.toLowerCase().trim();
-      if (text.includes(this.currentWakeWord)) {
-        console.log('[WakeWord] Detected (raw)!', text);
-        this.notifyHandlers();
-      }
+      text = result.toLowerCase().trim();
+    }
+
+    // Whole words only, so "no" doesn't match inside another word
+    const padded = ` ${text} `;
+    if (this.phrases?.some((phrase) => padded.includes(` ${phrase} `))) {
+      console.log('[WakeWord] Phrase detected:', text);
+      this.notifyPhraseHandlers(text);
     }
   }
 
@@ -196,10 +359,28 @@ class WakeWordService {
     return () => this.handlers.delete(handler);
   }
 
-  private notifyHandlers(): void {
+  /**
+   * Register a handler for phrases heard in listenForPhrases() mode
+   */
+  onPhrase(handler: PhraseHandler): () => void {
+    this.phraseHandlers.add(handler);
+    return () => this.phraseHandlers.delete(handler);
+  }
+
+  private notifyPhraseHandlers(text: string): void {
+    this.phraseHandlers.forEach((handler) => {
+      try {
+        handler(text);
+      } catch (error) {
+        console.error('[WakeWord] Phrase handler error:', error);
+      }
+    });
+  }
+
+  private notifyHandlers(wakeWord: string): void {
     this.handlers.forEach((handler) => {
       try {
-        handler();
+        handler(wakeWord);
       } catch (error) {
         console.error('[WakeWord] Handler error:', error);
       }
@@ -212,11 +393,15 @@ class WakeWordService {
   async cleanup(): Promise<void> {
     if (this.vosk) {
       await this.stopListening();
-      // Vosk cleanup if available
+      // Hand back the shared model
+      await this.vosk.unload();
       this.vosk = null;
     }
+    this.modelPath = null;
     this.isInitialized = false;
+    this.phrases = null;
     this.handlers.clear();
+    this.phraseHandlers.clear();
   }
 
   /**
@@ -234,10 +419,10 @@ class WakeWordService {
   }
 
   /**
-   * Get current wake word
+   * Get current wake words
    */
-  getCurrentWakeWord(): string {
-    return this.currentWakeWord;
+  getCurrentWakeWords(): string[] {
+    return [...this.wakeWords];
   }
 }
 
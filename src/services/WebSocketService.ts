@@ -5,16 +5,46 @@
  * 1. Connect with auth token
  * 2. Send messages via chat.send
  * 3. Receive responses as chat events
+ * 4. Follow agent progress (lifecycle and tool calls) as agent events
+ * 5. Stop a running reply via chat.abort
+ * 6. Answer exec approval requests via exec.approval.resolve
  */
 
 import { AppState, AppStateStatus } from 'react-native';
-import { WS_CONFIG } from '../constants';
+import { WS_CONFIG, DEFAULT_SESSION_KEY, HISTORY_CONFIG } from '../constants';
+import { outboxService } from './OutboxService';
+import { ReconnectStrategy } from './ReconnectStrategy';
+import { toConversationItem } from './GatewayMessages';
+import { loadAttachment } from './Attachments';
+import { diagnosticsService } from './DiagnosticsService';
+import {
+  ProtocolError,
+  GatewayError,
+  parseFrame,
+  isKnownEvent,
+  validateEventPayload,
+  validateMethodResult,
+  buildConnectParams,
+} from './GatewayProtocol';
 import type {
-  OpenClawMessage,
   OpenClawRequest,
   OpenClawResponse,
-  OpenClawEvent,
+  OpenClawMethod,
+  MethodParams,
+  MethodResult,
   ChatEventPayload,
+  ChatAttachment,
+  AgentEventPayload,
+  ExecApprovalRequestedPayload,
+  ExecApprovalResolvedPayload,
+  ExecApprovalDecision,
+  ConnectResult,
+  ChatSendResult,
+  ReachabilitySource,
+  ReconnectInfo,
+  SessionInfo,
+  HistoryPage,
+  ConversationItem,
 } from '../types';
 
 // WebSocket event types (React Native compatible)
@@ -28,36 +58,59 @@ interface WSCloseEvent {
 }
 
 type ChatHandler = (payload: ChatEventPayload) => void;
+type AgentHandler = (payload: AgentEventPayload) => void;
+type ApprovalHandler = (payload: ExecApprovalRequestedPayload) => void;
+type ApprovalResolvedHandler = (payload: ExecApprovalResolvedPayload) => void;
 type StatusHandler = (connected: boolean) => void;
 type ErrorHandler = (error: string) => void;
+type ReconnectHandler = (info: ReconnectInfo | null) => void;
+type HistoryHandler = (page: HistoryPage) => void;
+type RunHandler = (runId: string | null) => void;
+type LatencyHandler = (latencyMs: number | null) => void;
 
-// Protocol version
-const PROTOCOL_VERSION = 3;
-
-// App info
+interface ChatSendOptions {
+  sessionKey?: string; // Defaults to the active session
+  idempotencyKey?: string;
+  attachments?: ChatAttachment[];
+}
 
-const CLIENT_INFO = {
-  id: 'openclaw-android',
-  displayName: 'HeyClaw',
-  version: '1.0.0',
-  platform: 'android',
-  mode: 'cli',
-};
-class WebSocketService {
+export class WebSocketService {
   private ws: WebSocket | null = null;
   private url: string = '';
   private token: string = '';
-  private reconnectAttempts: number = 0;
+  private sessionKey: string = DEFAULT_SESSION_KEY;
+  private reconnectStrategy = new ReconnectStrategy({
+    baseDelay: WS_CONFIG.reconnectInterval,
+    maxDelay: WS_CONFIG.maxReconnectInterval,
+    jitter: WS_CONFIG.reconnectJitter,
+  });
   private reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
   private pingInterval: ReturnType<typeof setInterval> | null = null;
+  private lastPingAt: number | null = null; // Ping still waiting for its pong
+  private missedPongs: number = 0;
+  private heartbeatSupported: boolean = false; // Gateway answered a ping on this socket
+  private latencyMs: number | null = null;
+  private latencyHandlers: Set<LatencyHandler> = new Set();
   private chatHandlers: Set<ChatHandler> = new Set();
+  private agentHandlers: Set<AgentHandler> = new Set();
+  private approvalHandlers: Set<ApprovalHandler> = new Set();
+  private approvalResolvedHandlers: Set<ApprovalResolvedHandler> = new Set();
   private statusHandlers: Set<StatusHandler> = new Set();
   private errorHandlers: Set<ErrorHandler> = new Set();
+  private reconnectHandlers: Set<ReconnectHandler> = new Set();
+  private historyHandlers: Set<HistoryHandler> = new Set();
+  private runHandlers: Set<RunHandler> = new Set();
+  private activeRunId: string | null = null;
+  private ownRuns: Array<{ runId: string; sessionKey: string }> = []; // Started by our chat.send, newest last
+  private keepAlive: boolean = false;
+  private isNetworkReachable: boolean = true;
+  private reachabilityUnsubscribe: (() => void) | null = null;
   private isIntentionalClose: boolean = false;
   private isConnected: boolean = false;
   private requestId: number = 0;
   private pendingRequests: Map<string, {
-    resolve: (result: unknown) => void;
+    method: OpenClawMethod;
+    resolve: (result: unknown) => void; // Gets the result validated for `method`
     reject: (error: Error) => void;
     timeout: ReturnType<typeof setTimeout>;
   }> = new Map();
@@ -80,14 +133,84 @@ class WebSocketService {
       console.log('[WebSocket] App foregrounded, checking connection...');
       if (!this.isConnected && this.url && this.token) {
         console.log('[WebSocket] Reconnecting...');
-        this.reconnectAttempts = 0;
-        this.doConnect();
+        this.reconnectNow();
+      } else if (this.isConnected) {
+        // The socket may have died silently while the screen was off
+        this.sendPing();
       }
     }
     
     this.lastAppState = nextAppState;
   };
 
+  /**
+   * Use a reachability source to pause reconnects while offline
+   * and retry immediately once the network comes back
+   */
+  setReachabilitySource(source: ReachabilitySource | null): void {
+    this.reachabilityUnsubscribe?.();
+    this.reachabilityUnsubscribe = null;
+    this.isNetworkReachable = true;
+
+    if (source) {
+      this.reachabilityUnsubscribe = source.subscribe(this.handleReachabilityChange);
+    }
+  }
+
+  private handleReachabilityChange = (isReachable: boolean): void => {
+    const wasReachable = this.isNetworkReachable;
+    this.isNetworkReachable = isReachable;
+
+    if (isReachable === wasReachable || this.isIntentionalClose || !this.url) {
+      return;
+    }
+
+    if (isReachable) {
+      console.log('[WebSocket] Network is back');
+      if (!this.isConnected) {
+        this.reconnectNow();
+      }
+    } else {
+      console.log('[WebSocket] Network lost');
+      if (!this.isConnected && this.reconnectTimeout) {
+        // No point burning attempts while offline
+        clearTimeout(this.reconnectTimeout);
+        this.reconnectTimeout = null;
+        this.notifyReconnectHandlers({
+          attempt: this.reconnectStrategy.getAttempts(),
+          nextAttemptAt: null,
+          waitingForNetwork: true,
+        });
+      }
+    }
+  };
+
+  /**
+   * Keep retrying forever (used while the background service is running).
+   * Without keep-alive, reconnects stop after WS_CONFIG.maxReconnectAttempts.
+   */
+  setKeepAlive(enabled: boolean): void {
+    this.keepAlive = enabled;
+
+    // Resume if we previously gave up
+    if (enabled && !this.isConnected && !this.isIntentionalClose && this.url && !this.reconnectTimeout) {
+      this.scheduleReconnect();
+    }
+  }
+
+  /**
+   * Drop any pending backoff and try to connect right away
+   */
+  private reconnectNow(): void {
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+    this.reconnectStrategy.reset();
+    this.notifyReconnectHandlers(null);
+    this.doConnect();
+  }
+
   /**
    * Generate unique request ID
    */
@@ -99,25 +222,65 @@ class WebSocketService {
    * Connect to the OpenClaw Gateway
    */
   connect(gatewayUrl: string, token: string): void {
-    // Parse URL - accept formats like "192.168.1.100:18789" or "ws://host:port"
-    let wsUrl = gatewayUrl.trim();
-    if (!wsUrl.startsWith('ws://') && !wsUrl.startsWith('wss://')) {
-      wsUrl = `ws://${wsUrl}`;
-    }
-    
-    this.url = wsUrl;
+    this.url = WebSocketService.normalizeUrl(gatewayUrl);
     this.token = token;
     this.isIntentionalClose = false;
     this.doConnect();
   }
 
+  /**
+   * Move to another gateway (e.g. when the active profile changes).
+   * The old socket is fully torn down first, so none of its late events
+   * leak into the new connection.
+   */
+  switchGateway(gatewayUrl: string, token: string): void {
+    if (WebSocketService.normalizeUrl(gatewayUrl) === this.url && token === this.token && this.ws) {
+      return;
+    }
+    console.log('[WebSocket] Switching gateway');
+    this.disconnect();
+    this.connect(gatewayUrl, token);
+  }
+
+  /**
+   * Accept formats like "192.168.1.100:18789" or "ws://host:port"
+   */
+  static normalizeUrl(gatewayUrl: string): string {
+    const wsUrl = gatewayUrl.trim();
+    if (!wsUrl.startsWith('ws://') && !wsUrl.startsWith('wss://')) {
+      return `ws://${wsUrl}`;
+    }
+    return wsUrl;
+  }
+
+  /**
+   * URL of the gateway we connect to (normalized)
+   */
+  getGatewayUrl(): string {
+    return this.url;
+  }
+
+  /**
+   * Set the active session. Chat events for other sessions are ignored.
+   */
+  setSessionKey(sessionKey: string): void {
+    this.sessionKey = sessionKey || DEFAULT_SESSION_KEY;
+    this.setActiveRun(null);
+    console.log('[WebSocket] Active session:', this.sessionKey);
+  }
+
+  getSessionKey(): string {
+    return this.sessionKey;
+  }
+
   private doConnect(): void {
-    if (this.ws?.readyState === WebSocket.OPEN) {
+    if (this.ws?.readyState === WebSocket.OPEN || this.ws?.readyState === WebSocket.CONNECTING) {
       return;
     }
 
     try {
       console.log('[WebSocket] Connecting to:', this.url);
+      diagnosticsService.recordEvent('connect', `Connecting to ${this.url}`);
       this.ws = new WebSocket(this.url);
 
       this.ws.onopen = this.handleOpen.bind(this);
@@ -132,45 +295,54 @@ class WebSocketService {
 
   private async handleOpen(): Promise<void> {
     console.log('[WebSocket] Socket opened, sending connect request');
-    this.reconnectAttempts = 0;
     
     try {
       // Send OpenClaw connect request
-      await this.sendConnectRequest();
+      const hello = await this.sendConnectRequest();
+      diagnosticsService.recordConnect(hello);
       console.log('[WebSocket] Connected and authenticated!');
       this.isConnected = true;
+      this.reconnectStrategy.reset();
+      this.notifyReconnectHandlers(null);
       this.notifyStatusHandlers(true);
       this.startPingInterval();
+      // Replay anything queued while we were offline
+      this.flushOutbox();
+      // Bring the conversation up to date with the gateway transcript
+      this.loadRecentHistory();
     } catch (error) {
-      console.error('[WebSocket] Authentication failed:', error);
-      this.notifyErrorHandlers((error as Error).message || 'Authentication failed');
-      this.disconnect();
+      if (error instanceof GatewayError) {
+        // The gateway refused us (e.g. wrong token), retrying won't help
+        console.error('[WebSocket] Authentication failed:', error);
+        this.notifyErrorHandlers(error.message || 'Authentication failed');
+        this.disconnect();
+        return;
+      }
+      // Dropped or timed out during the handshake: retry like any other drop
+      console.warn('[WebSocket] Handshake failed:', (error as Error).message);
+      if (this.ws?.readyState === WebSocket.OPEN) {
+        this.closeSocket();
+        this.handleClose({ code: 4001, reason: 'Handshake failed' });
+      }
     }
   }
 
   /**
    * Send connect request with auth
    */
-  private async sendConnectRequest(): Promise<void> {
-    const params = {
-      minProtocol: PROTOCOL_VERSION,
-      maxProtocol: PROTOCOL_VERSION,
-      auth: {
-        token: this.token,
-      },
-      client: CLIENT_INFO,
-      role: 'operator',
-      scopes: ['operator.read', 'operator.write'],
-    };
-
-    const result = await this.sendRequest('connect', params);
+  private async sendConnectRequest(): Promise<ConnectResult> {
+    const result = await this.sendRequest('connect', buildConnectParams(this.token));
     console.log('[WebSocket] Connect result:', result);
+    return result;
   }
 
   /**
    * Send a request and wait for response
    */
-  private sendRequest(method: string, params?: Record<string, unknown>): Promise<unknown> {
+  private sendRequest<M extends OpenClawMethod>(
+    method: M,
+    params: MethodParams<M>,
+  ): Promise<MethodResult<M>> {
     return new Promise((resolve, reject) => {
       if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
         reject(new Error('WebSocket not connected'));
@@ -178,7 +350,7 @@ class WebSocketService {
       }
 
       const id = this.nextId();
-      const request: OpenClawRequest = {
+      const request: OpenClawRequest<M> = {
         type: 'req',
         id,
         method,
@@ -191,33 +363,55 @@ class WebSocketService {
         reject(new Error(`Request ${method} timed out`));
       }, 30000);
 
-      // Store pending request
-      this.pendingRequests.set(id, { resolve, reject, timeout });
+      // Store pending request, handleResponse() validates the result for this method
+      this.pendingRequests.set(id, {
+        method,
+        resolve: (result) => resolve(result as MethodResult<M>),
+        reject,
+        timeout,
+      });
 
       // Send request
       console.log('[WebSocket] Sending request:', method, id);
-      this.ws.send(JSON.stringify(request));
+      this.sendFrame(request);
     });
   }
 
+  /**
+   * Write a frame to the socket (and the diagnostics log)
+   */
+  private sendFrame(frame: object): void {
+    const raw = JSON.stringify(frame);
+    diagnosticsService.recordFrame('out', raw);
+    this.ws?.send(raw);
+  }
+
   private handleMessage(event: WSMessageEvent): void {
+    diagnosticsService.recordFrame('in', event.data);
+    // Anything arriving proves the socket is alive
+    this.missedPongs = 0;
+
     try {
-      const message: OpenClawMessage = JSON.parse(event.data);
-      console.log('[WebSocket] Received:', message.type, 
-        'type' in message && message.type === 'event' ? (message as OpenClawEvent).event : '');
+      const message = parseFrame(event.data);
+      console.log('[WebSocket] Received:', message.type,
+        message.type === 'event' ? message.event : '');
 
       switch (message.type) {
         case 'res':
-          this.handleResponse(message as OpenClawResponse);
+          this.handleResponse(message);
           break;
         case 'event':
-          this.handleEvent(message as OpenClawEvent);
+          this.handleEvent(message.event, message.payload);
           break;
         default:
           console.log('[WebSocket] Unknown message type:', message.type);
       }
     } catch (error) {
-      console.error('[WebSocket] Failed to parse message:', error);
+      if (error instanceof ProtocolError) {
+        console.warn('[WebSocket] Rejected malformed frame:', error.message);
+      } else {
+        console.error('[WebSocket] Failed to handle message:', error);
+      }
     }
   }
 
@@ -231,32 +425,113 @@ class WebSocketService {
     clearTimeout(pending.timeout);
     this.pendingRequests.delete(response.id);
 
-    if (response.error) {
-      pending.reject(new Error(response.error.message || 'Request failed'));
-    } else {
-      pending.resolve(response.result);
+    if (response.error || response.ok === false) {
+      pending.reject(new GatewayError(response.error?.message || 'Request failed', response.error?.code));
+      return;
+    }
+
+    try {
+      pending.resolve(validateMethodResult(pending.method, response.payload ?? response.result));
+    } catch (error) {
+      console.warn('[WebSocket] Rejected malformed result:', (error as Error).message);
+      pending.reject(error as Error);
     }
   }
 
-  private handleEvent(event: OpenClawEvent): void {
-    console.log('[WebSocket] Event:', event.event);
-    
-    switch (event.event) {
-      case 'chat':
-        // Chat message from assistant
-        this.notifyChatHandlers(event.payload as ChatEventPayload);
+  private handleEvent(event: string, rawPayload: unknown): void {
+    console.log('[WebSocket] Event:', event);
+
+    if (!isKnownEvent(event)) {
+      console.log('[WebSocket] Unhandled event:', event);
+      return;
+    }
+
+    switch (event) {
+      case 'chat': {
+        // Chat message from assistant - only for the active session
+        // (and replies to what we sent to another session)
+        const payload = validateEventPayload('chat', rawPayload);
+        if (!this.isFollowed(payload.sessionKey, payload.runId)) {
+          console.log('[WebSocket] Ignoring chat event for session:', payload.sessionKey);
+          break;
+        }
+        this.trackRun(payload);
+        this.notifyChatHandlers(payload);
         break;
+      }
+      case 'agent': {
+        // Run lifecycle and tool progress - same sessions as chat events
+        const payload = validateEventPayload('agent', rawPayload);
+        if (!this.isFollowed(payload.sessionKey, payload.runId)) {
+          break;
+        }
+        if (payload.stream === 'lifecycle' && payload.runId) {
+          if (payload.data?.phase === 'start') {
+            this.setActiveRun(payload.runId);
+          } else if (
+            payload.runId === this.activeRunId &&
+            (payload.data?.phase === 'end' || payload.data?.phase === 'error')
+          ) {
+            // The closing chat event normally follows, but don't rely on it
+            this.setActiveRun(null);
+          }
+        }
+        this.notifyAgentHandlers(payload);
+        break;
+      }
       case 'pong':
-        // Ping response - ignore
+        this.handlePong(validateEventPayload('pong', rawPayload).ts);
+        break;
+      case 'exec.approval.requested': {
+        // Approvals of other sessions are for other operators, unless
+        // we sent a message there (e.g. routed by a wake word)
+        const payload = validateEventPayload('exec.approval.requested', rawPayload);
+        const { sessionKey } = payload.request;
+        if (
+          sessionKey &&
+          sessionKey !== this.sessionKey &&
+          !this.ownRuns.some((run) => run.sessionKey === sessionKey)
+        ) {
+          break;
+        }
+        this.notifyApprovalHandlers(payload);
         break;
-      default:
-        console.log('[WebSocket] Unhandled event:', event.event);
+      }
+      case 'exec.approval.resolved':
+        this.notifyApprovalResolvedHandlers(validateEventPayload('exec.approval.resolved', rawPayload));
+        break;
+    }
+  }
+
+  /**
+   * Follow the agent run that is answering in the active session
+   */
+  private trackRun(payload: ChatEventPayload): void {
+    if (payload.state === 'delta' && payload.runId) {
+      this.setActiveRun(payload.runId);
+    } else if (
+      (payload.state === 'final' || payload.state === 'aborted' || payload.state === 'error') &&
+      (!payload.runId || payload.runId === this.activeRunId)
+    ) {
+      this.setActiveRun(null);
+    }
+  }
+
+  private setActiveRun(runId: string | null): void {
+    if (runId === this.activeRunId) {
+      return;
     }
+    this.activeRunId = runId;
+    console.log('[WebSocket] Active run:', runId);
+    this.notifyRunHandlers(runId);
   }
 
   private handleClose(event: WSCloseEvent): void {
     console.log('[WebSocket] Disconnected:', event.code, event.reason);
+    diagnosticsService.recordEvent('close', `Code ${event.code}${event.reason ? ` (${event.reason})` : ''}`);
     this.isConnected = false;
+    // We won't see the rest of a run that was in flight
+    this.setActiveRun(null);
     this.cleanup();
     this.notifyStatusHandlers(false);
 
@@ -271,27 +546,110 @@ class WebSocketService {
   }
 
   private scheduleReconnect(): void {
-    if (this.reconnectAttempts >= WS_CONFIG.maxReconnectAttempts) {
+    if (this.reconnectTimeout) {
+      return;
+    }
+
+    const attempts = this.reconnectStrategy.getAttempts();
+
+    if (!this.keepAlive && attempts >= WS_CONFIG.maxReconnectAttempts) {
       console.log('[WebSocket] Max reconnect attempts reached');
+      this.notifyReconnectHandlers(null);
       this.notifyErrorHandlers('Could not connect to gateway');
       return;
     }
 
-    this.reconnectAttempts++;
-    console.log(`[WebSocket] Reconnecting in ${WS_CONFIG.reconnectInterval}ms (attempt ${this.reconnectAttempts})`);
+    if (!this.isNetworkReachable) {
+      console.log('[WebSocket] Offline, waiting for network before reconnecting');
+      this.notifyReconnectHandlers({ attempt: attempts, nextAttemptAt: null, waitingForNetwork: true });
+      return;
+    }
+
+    const delay = this.reconnectStrategy.nextDelay();
+    const attempt = this.reconnectStrategy.getAttempts();
+    console.log(`[WebSocket] Reconnecting in ${delay}ms (attempt ${attempt})`);
+    diagnosticsService.recordEvent('reconnect', `Attempt ${attempt} in ${delay} ms`);
 
     this.reconnectTimeout = setTimeout(() => {
+      this.reconnectTimeout = null;
       this.doConnect();
-    }, WS_CONFIG.reconnectInterval);
+    }, delay);
+
+    this.notifyReconnectHandlers({ attempt, nextAttemptAt: Date.now() + delay, waitingForNetwork: false });
   }
 
   private startPingInterval(): void {
-    this.pingInterval = setInterval(() => {
-      if (this.ws?.readyState === WebSocket.OPEN) {
-        // Send ping as event (lightweight)
-        this.ws.send(JSON.stringify({ type: 'event', event: 'ping' }));
+    this.pingInterval = setInterval(() => this.sendPing(), WS_CONFIG.pingInterval);
+  }
+
+  /**
+   * Send a ping (lightweight event) and count the previous one as missed
+   * if its pong never came
+   */
+  private sendPing(): void {
+    if (this.ws?.readyState !== WebSocket.OPEN) {
+      return;
+    }
+
+    if (this.lastPingAt !== null) {
+      this.missedPongs++;
+      console.warn(`[WebSocket] Missed pong (${this.missedPongs}/${WS_CONFIG.maxMissedPongs})`);
+      // Gateways that never answer pings can't be judged by them
+      if (this.heartbeatSupported && this.missedPongs >= WS_CONFIG.maxMissedPongs) {
+        this.handleHeartbeatTimeout();
+        return;
       }
-    }, WS_CONFIG.pingInterval);
+    }
+
+    const ts = Date.now();
+    this.lastPingAt = ts;
+    this.sendFrame({ type: 'event', event: 'ping', payload: { ts } });
+  }
+
+  private handlePong(echoedTs?: number): void {
+    const sentAt = echoedTs ?? this.lastPingAt;
+    this.lastPingAt = null;
+    this.missedPongs = 0;
+    this.heartbeatSupported = true;
+
+    if (sentAt !== null) {
+      this.setLatency(Math.max(0, Date.now() - sentAt));
+    }
+  }
+
+  /**
+   * The socket looks open but the gateway stopped answering (typical for
+   * mobile networks after screen-off) - drop it and reconnect
+   */
+  private handleHeartbeatTimeout(): void {
+    console.warn('[WebSocket] Heartbeat timed out, reconnecting');
+    this.closeSocket();
+    this.handleClose({ code: 4000, reason: 'Heartbeat timeout' });
+  }
+
+  private setLatency(latencyMs: number | null): void {
+    if (latencyMs === this.latencyMs) {
+      return;
+    }
+    this.latencyMs = latencyMs;
+    this.notifyLatencyHandlers(latencyMs);
+  }
+
+  /**
+   * Close the socket without waiting for its close event: handlers are
+   * detached first, so a late event is never mistaken for a drop of a
+   * connection opened in the meantime
+   */
+  private closeSocket(): void {
+    if (!this.ws) {
+      return;
+    }
+    this.ws.onopen = null;
+    this.ws.onmessage = null;
+    this.ws.onclose = null;
+    this.ws.onerror = null;
+    this.ws.close();
+    this.ws = null;
   }
 
   private cleanup(): void {
@@ -299,6 +657,10 @@ class WebSocketService {
       clearInterval(this.pingInterval);
       this.pingInterval = null;
     }
+    this.lastPingAt = null;
+    this.missedPongs = 0;
+    this.heartbeatSupported = false;
+    this.setLatency(null);
     if (this.reconnectTimeout) {
       clearTimeout(this.reconnectTimeout);
       this.reconnectTimeout = null;
@@ -315,38 +677,203 @@ class WebSocketService {
    * Disconnect from the gateway
    */
   disconnect(): void {
+    const wasConnected = this.isConnected;
     this.isIntentionalClose = true;
     this.isConnected = false;
     this.cleanup();
-    if (this.ws) {
-      this.ws.close();
-      this.ws = null;
+    this.reconnectStrategy.reset();
+    this.notifyReconnectHandlers(null);
+    this.setActiveRun(null);
+    this.closeSocket();
+    if (wasConnected) {
+      this.notifyStatusHandlers(false);
     }
   }
 
   /**
-   * Send a chat message to the assistant (main session)
+   * Send a chat message to the assistant (active session by default)
+   *
+   * Pass the idempotency key stored with a queued message when replaying it,
+   * so the gateway recognizes a message it has already accepted.
    */
-  async sendChatMessage(message: string): Promise<void> {
+  async sendChatMessage(message: string, options: ChatSendOptions = {}): Promise<ChatSendResult> {
     if (!this.isConnected) {
       throw new Error('Not connected to gateway');
     }
 
     const params = {
-      sessionKey: 'agent:main:main',
+      sessionKey: options.sessionKey || this.sessionKey,
       message,
-      idempotencyKey: this.nextId(),
+      idempotencyKey: options.idempotencyKey || this.nextId(),
+      ...(options.attachments?.length ? { attachments: options.attachments } : {}),
     };
 
     try {
       const result = await this.sendRequest('chat.send', params);
       console.log('[WebSocket] Chat send result:', result);
+      if (result.runId) {
+        this.ownRuns = [...this.ownRuns, { runId: result.runId, sessionKey: params.sessionKey }]
+          .slice(-WS_CONFIG.maxOwnRuns);
+        this.setActiveRun(result.runId);
+      }
+      return result;
     } catch (error) {
       console.error('[WebSocket] Failed to send message:', error);
       throw error;
     }
   }
 
+  /**
+   * Abort the running reply (in the session it was sent to).
+   * Without a tracked run id the gateway aborts whatever runs in the active session.
+   */
+  async abortRun(): Promise<boolean> {
+    if (!this.isConnected) {
+      throw new Error('Not connected to gateway');
+    }
+
+    const runId = this.activeRunId;
+    const result = await this.sendRequest('chat.abort', {
+      sessionKey: this.ownRuns.find((run) => run.runId === runId)?.sessionKey || this.sessionKey,
+      ...(runId ? { runId } : {}),
+    });
+    console.log('[WebSocket] Chat abort result:', result);
+
+    if (this.activeRunId === runId) {
+      this.setActiveRun(null);
+    }
+    return result.aborted !== false;
+  }
+
+  /**
+   * Answer an exec approval request
+   */
+  async resolveApproval(id: string, decision: ExecApprovalDecision): Promise<void> {
+    if (!this.isConnected) {
+      throw new Error('Not connected to gateway');
+    }
+
+    const result = await this.sendRequest('exec.approval.resolve', { id, decision });
+    console.log('[WebSocket] Approval resolved:', id, decision, result);
+  }
+
+  /**
+   * Last measured ping round trip in ms (null while unknown)
+   */
+  getLatency(): number | null {
+    return this.latencyMs;
+  }
+
+  /**
+   * Requests still waiting for their response
+   */
+  getPendingRequestCount(): number {
+    return this.pendingRequests.size;
+  }
+
+  /**
+   * Whether a run answers a message we sent (other runs are proactive,
+   * e.g. cron jobs or messages sent from another client)
+   */
+  isOwnRun(runId: string): boolean {
+    return this.ownRuns.some((run) => run.runId === runId);
+  }
+
+  /**
+   * Events of the active session, and of our own runs in other sessions
+   */
+  private isFollowed(sessionKey?: string, runId?: string): boolean {
+    return !sessionKey || sessionKey === this.sessionKey || (!!runId && this.isOwnRun(runId));
+  }
+
+  /**
+   * Id of the run answering in the active session (null when idle)
+   */
+  getActiveRunId(): string | null {
+    return this.activeRunId;
+  }
+
+  /**
+   * List the sessions exposed by the gateway
+   */
+  async listSessions(): Promise<SessionInfo[]> {
+    const result = await this.sendRequest('sessions.list', {});
+
+    return result.sessions.map((session) => ({
+      key: session.key,
+      label: session.label || session.displayName,
+      updatedAt: session.updatedAt,
+    }));
+  }
+
+  /**
+   * Fetch a page of the active session's transcript.
+   * Pass `before` (timestamp of the oldest loaded message) to page backwards.
+   */
+  async fetchHistory(options: { before?: number; limit?: number } = {}): Promise<HistoryPage> {
+    const sessionKey = this.sessionKey;
+    const limit = options.limit || HISTORY_CONFIG.pageSize;
+
+    const result = await this.sendRequest('chat.history', {
+      sessionKey,
+      limit,
+      ...(options.before ? { before: options.before } : {}),
+    });
+
+    const raw = result.messages;
+    const messages = raw
+      .map((message, index) =>
+        toConversationItem(message, `hist-${message.timestamp || 0}-${index}`)
+      )
+      .filter((item): item is ConversationItem => item !== null)
+      // Gateways without paging support return the latest page again
+      .filter((item) => !options.before || item.timestamp < options.before)
+      .sort((a, b) => a.timestamp - b.timestamp);
+
+    return { sessionKey, messages, hasMore: raw.length >= limit };
+  }
+
+  /**
+   * Load the most recent transcript and hand it to the history handlers
+   */
+  async loadRecentHistory(): Promise<void> {
+    if (!this.isConnected) {
+      return;
+    }
+
+    try {
+      const page = await this.fetchHistory();
+      console.log('[WebSocket] Loaded', page.messages.length, 'history message(s)');
+      this.notifyHistoryHandlers(page);
+    } catch (error) {
+      console.warn('[WebSocket] Failed to load chat history:', error);
+    }
+  }
+
+  /**
+   * Send all messages waiting in the outbox for this gateway, in order
+   */
+  async flushOutbox(): Promise<void> {
+    if (!this.isConnected) {
+      return;
+    }
+
+    const gatewayUrl = this.url;
+    try {
+      await outboxService.flush(
+        async (item) =>
+          this.sendChatMessage(item.content, {
+            sessionKey: item.sessionKey,
+            idempotencyKey: item.idempotencyKey,
+            attachments: item.attachments && (await Promise.all(item.attachments.map(loadAttachment))),
+          }),
+        (item) => !item.gatewayUrl || item.gatewayUrl === gatewayUrl,
+      );
+    } catch (error) {
+      console.error('[WebSocket] Failed to flush outbox:', error);
+    }
+  }
+
   /**
    * Send text message (convenience wrapper)
    */
@@ -366,6 +893,31 @@ class WebSocketService {
     return () => this.chatHandlers.delete(handler);
   }
 
+  /**
+   * Register an agent event handler (run lifecycle, tool calls)
+   */
+  onAgent(handler: AgentHandler): () => void {
+    this.agentHandlers.add(handler);
+    return () => this.agentHandlers.delete(handler);
+  }
+
+  /**
+   * Register a handler for exec approval requests of the active session
+   * (and of sessions our own runs went to)
+   */
+  onApproval(handler: ApprovalHandler): () => void {
+    this.approvalHandlers.add(handler);
+    return () => this.approvalHandlers.delete(handler);
+  }
+
+  /**
+   * Register a handler for approvals settled by anyone (including us)
+   */
+  onApprovalResolved(handler: ApprovalResolvedHandler): () => void {
+    this.approvalResolvedHandlers.add(handler);
+    return () => this.approvalResolvedHandlers.delete(handler);
+  }
+
   /**
    * Register a connection status handler
    */
@@ -382,6 +934,38 @@ class WebSocketService {
     return () => this.errorHandlers.delete(handler);
   }
 
+  /**
+   * Register a handler for reconnect scheduling (null = no retry pending)
+   */
+  onReconnect(handler: ReconnectHandler): () => void {
+    this.reconnectHandlers.add(handler);
+    return () => this.reconnectHandlers.delete(handler);
+  }
+
+  /**
+   * Register a handler for recent history loaded after connect
+   */
+  onHistory(handler: HistoryHandler): () => void {
+    this.historyHandlers.add(handler);
+    return () => this.historyHandlers.delete(handler);
+  }
+
+  /**
+   * Register a handler for the active run changing (null = no reply running)
+   */
+  onRun(handler: RunHandler): () => void {
+    this.runHandlers.add(handler);
+    return () => this.runHandlers.delete(handler);
+  }
+
+  /**
+   * Register a handler for round trip measurements (null = no measurement)
+   */
+  onLatency(handler: LatencyHandler): () => void {
+    this.latencyHandlers.add(handler);
+    return () => this.latencyHandlers.delete(handler);
+  }
+
   private notifyChatHandlers(payload: ChatEventPayload): void {
     this.chatHandlers.forEach((handler) => {
       try {
@@ -392,6 +976,36 @@ class WebSocketService {
     });
   }
 
+  private notifyAgentHandlers(payload: AgentEventPayload): void {
+    this.agentHandlers.forEach((handler) => {
+      try {
+        handler(payload);
+      } catch (error) {
+        console.error('[WebSocket] Agent handler error:', error);
+      }
+    });
+  }
+
+  private notifyApprovalHandlers(payload: ExecApprovalRequestedPayload): void {
+    this.approvalHandlers.forEach((handler) => {
+      try {
+        handler(payload);
+      } catch (error) {
+        console.error('[WebSocket] Approval handler error:', error);
+      }
+    });
+  }
+
+  private notifyApprovalResolvedHandlers(payload: ExecApprovalResolvedPayload): void {
+    this.approvalResolvedHandlers.forEach((handler) => {
+      try {
+        handler(payload);
+      } catch (error) {
+        console.error('[WebSocket] Approval resolved handler error:', error);
+      }
+    });
+  }
+
   private notifyStatusHandlers(connected: boolean): void {
     this.statusHandlers.forEach((handler) => {
       try {
@@ -403,6 +1017,7 @@ class WebSocketService {
   }
 
   private notifyErrorHandlers(error: string): void {
+    diagnosticsService.recordEvent('error', error);
     this.errorHandlers.forEach((handler) => {
       try {
         handler(error);
@@ -412,6 +1027,46 @@ class WebSocketService {
     });
   }
 
+  private notifyHistoryHandlers(page: HistoryPage): void {
+    this.historyHandlers.forEach((handler) => {
+      try {
+        handler(page);
+      } catch (error) {
+        console.error('[WebSocket] History handler error:', error);
+      }
+    });
+  }
+
+  private notifyLatencyHandlers(latencyMs: number | null): void {
+    this.latencyHandlers.forEach((handler) => {
+      try {
+        handler(latencyMs);
+      } catch (error) {
+        console.error('[WebSocket] Latency handler error:', error);
+      }
+    });
+  }
+
+  private notifyRunHandlers(runId: string | null): void {
+    this.runHandlers.forEach((handler) => {
+      try {
+        handler(runId);
+      } catch (error) {
+        console.error('[WebSocket] Run handler error:', error);
+      }
+    });
+  }
+
+  private notifyReconnectHandlers(info: ReconnectInfo | null): void {
+    this.reconnectHandlers.forEach((handler) => {
+      try {
+        handler(info);
+      } catch (error) {
+        console.error('[WebSocket] Reconnect handler error:', error);
+      }
+    });
+  }
+
   /**
    * Check if connected
    */
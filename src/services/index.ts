@@ -3,10 +3,14 @@
  */
 
 export { webSocketService } from './WebSocketService';
+export { voskEngine } from './VoskEngine';
 export { wakeWordService } from './WakeWordService';
 export { audioService } from './AudioService';
 export { backgroundService } from './BackgroundService';
 export { sttService } from './STTService';
 export { ttsService } from './TTSService';
+export { outboxService } from './OutboxService';
+export { diagnosticsService } from './DiagnosticsService';
+export { notificationService } from './NotificationService';
 export { modelDownloadService, AVAILABLE_MODELS } from './ModelDownloadService';
 export type { VoskModel, InstalledModel, DownloadProgress } from './ModelDownloadService';
@@ -5,8 +5,104 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import type { AppState, ConnectionState, ListeningState, ConversationItem, AppSettings } from '../types';
-import { DEFAULT_SETTINGS, STORAGE_KEYS } from '../constants';
+import type {
+  AppState,
+  ConnectionState,
+  ListeningState,
+  ConversationItem,
+  AppSettings,
+  GatewayProfile,
+  ProfileOverrides,
+} from '../types';
+import { DEFAULT_SETTINGS, STORAGE_KEYS, HISTORY_CONFIG } from '../constants';
+
+// A history item is a local message if the gateway id matches the id the
+// local message got from an earlier page or the key we sent it with.
+// Without an id on either side, type and text sent at about the same time
+// have to do.
+const isSameMessage = (local: ConversationItem, item: ConversationItem): boolean => {
+  if (local.id === item.id) {
+    return true;
+  }
+  const localId = local.serverId ?? local.idempotencyKey;
+  if (localId && item.serverId) {
+    return localId === item.serverId;
+  }
+  return (
+    local.type === item.type &&
+    local.content === item.content &&
+    Math.abs(local.timestamp - item.timestamp) < HISTORY_CONFIG.dedupeWindowMs
+  );
+};
+
+const PROFILE_OVERRIDE_KEYS: Array<keyof ProfileOverrides> = [
+  'wakeWord',
+  'sttProvider',
+  'ttsProvider',
+  'voiceNotes',
+];
+
+const pickOverrides = (settings: AppSettings): ProfileOverrides => ({
+  wakeWord: settings.wakeWord,
+  sttProvider: settings.sttProvider,
+  ttsProvider: settings.ttsProvider,
+  voiceNotes: settings.voiceNotes,
+});
+
+const setOverride = <K extends keyof ProfileOverrides>(
+  target: Partial<ProfileOverrides>,
+  key: K,
+  value: ProfileOverrides[K],
+): void => {
+  target[key] = value;
+};
+
+// Copy a profile into the settings. Voice choices the profile doesn't
+// override fall back to the user's own (kept in profileDefaults).
+const applyProfile = (settings: AppSettings, profile: GatewayProfile): AppSettings => {
+  const defaults = settings.profileDefaults ?? pickOverrides(settings);
+  return {
+    ...settings,
+    gatewayUrl: profile.gatewayUrl,
+    gatewayToken: profile.gatewayToken,
+    sessionKey: profile.sessionKey,
+    wakeWord: profile.wakeWord ?? defaults.wakeWord,
+    sttProvider: profile.sttProvider ?? defaults.sttProvider,
+    ttsProvider: profile.ttsProvider ?? defaults.ttsProvider,
+    voiceNotes: profile.voiceNotes ?? defaults.voiceNotes,
+    activeProfileId: profile.id,
+    profileDefaults: defaults,
+  };
+};
+
+// Write edits made through updateSettings back into the active profile,
+// so e.g. picking another session sticks to the profile
+const syncActiveProfile = (settings: AppSettings, changes: Partial<AppSettings>): AppSettings => {
+  const profile = settings.profiles.find((p) => p.id === settings.activeProfileId);
+  if (!profile) {
+    return settings;
+  }
+
+  const updated: GatewayProfile = { ...profile };
+  const defaults: ProfileOverrides = { ...(settings.profileDefaults ?? pickOverrides(settings)) };
+
+  if (changes.gatewayUrl !== undefined) updated.gatewayUrl = changes.gatewayUrl;
+  if (changes.gatewayToken !== undefined) updated.gatewayToken = changes.gatewayToken;
+  if (changes.sessionKey !== undefined) updated.sessionKey = changes.sessionKey;
+
+  PROFILE_OVERRIDE_KEYS.forEach((key) => {
+    const value = changes[key];
+    if (value === undefined) return;
+    // Profiles only keep the choices they override
+    setOverride(profile[key] !== undefined ? updated : defaults, key, value);
+  });
+
+  return {
+    ...settings,
+    profiles: settings.profiles.map((p) => (p.id === profile.id ? updated : p)),
+    profileDefaults: defaults,
+  };
+};
 
 export const useAppStore = create<AppState>()(
   persist(
@@ -14,6 +110,14 @@ export const useAppStore = create<AppState>()(
       // Connection
       connectionState: 'disconnected' as ConnectionState,
       setConnectionState: (connectionState) => set({ connectionState }),
+      reconnectInfo: null,
+      setReconnectInfo: (reconnectInfo) => set({ reconnectInfo }),
+      latencyMs: null,
+      setLatency: (latencyMs) => set({ latencyMs }),
+      activeRunId: null,
+      setActiveRunId: (activeRunId) => set({ activeRunId }),
+      runActivity: null,
+      setRunActivity: (runActivity) => set({ runActivity }),
 
       // Listening
       listeningState: 'idle' as ListeningState,
@@ -23,12 +127,65 @@ export const useAppStore = create<AppState>()(
       settings: DEFAULT_SETTINGS,
       updateSettings: (newSettings) =>
         set((state) => ({
-          settings: { 
-            ...DEFAULT_SETTINGS, // Ensure new fields have defaults
-            ...state.settings, 
-            ...newSettings 
-          },
+          settings: syncActiveProfile(
+            {
+              ...DEFAULT_SETTINGS, // Ensure new fields have defaults
+              ...state.settings,
+              ...newSettings,
+            },
+            newSettings,
+          ),
         })),
+      saveProfile: (profile) =>
+        set((state) => {
+          const { settings } = state;
+          const exists = settings.profiles.some((p) => p.id === profile.id);
+          const profiles = exists
+            ? settings.profiles.map((p) => (p.id === profile.id ? profile : p))
+            : [...settings.profiles, profile];
+
+          if (settings.activeProfileId !== profile.id) {
+            return { settings: { ...settings, profiles } };
+          }
+
+          // Editing the active profile takes effect right away
+          const moved =
+            profile.gatewayUrl !== settings.gatewayUrl || profile.sessionKey !== settings.sessionKey;
+          return {
+            settings: applyProfile({ ...settings, profiles }, profile),
+            ...(moved ? { conversation: [], hasMoreHistory: false } : {}),
+          };
+        }),
+      deleteProfile: (id) =>
+        set((state) => {
+          const { settings } = state;
+          return {
+            settings: {
+              ...settings,
+              profiles: settings.profiles.filter((p) => p.id !== id),
+              // The connection stays up, it just isn't tied to a profile anymore
+              activeProfileId: settings.activeProfileId === id ? null : settings.activeProfileId,
+              // Wake words that switched to it have nowhere to go
+              wakeWordBindings: settings.wakeWordBindings.filter(
+                (binding) => binding.target.type !== 'profile' || binding.target.profileId !== id
+              ),
+            },
+          };
+        }),
+      switchProfile: (id) =>
+        set((state) => {
+          const { settings } = state;
+          const profile = settings.profiles.find((p) => p.id === id);
+          if (!profile || settings.activeProfileId === id) {
+            return {};
+          }
+          // Messages from the previous gateway would be misleading here
+          return {
+            settings: applyProfile(settings, profile),
+            conversation: [],
+            hasMoreHistory: false,
+          };
+        }),
 
       // Conversation
       conversation: [] as ConversationItem[],
@@ -42,7 +199,72 @@ export const useAppStore = create<AppState>()(
             msg.id === id ? { ...msg, content } : msg
           ),
         })),
-      clearConversation: () => set({ conversation: [] }),
+      setMessageStatus: (id, status) =>
+        set((state) => ({
+          conversation: state.conversation.map((msg) =>
+            msg.id === id ? { ...msg, status } : msg
+          ),
+        })),
+      removeMessage: (id) =>
+        set((state) => ({
+          conversation: state.conversation.filter((msg) => msg.id !== id),
+        })),
+      mergeHistory: (items) =>
+        set((state) => {
+          // Each local message stands for one history item at most
+          const conversation = [...state.conversation];
+          const matched = new Set<number>();
+          const ids = new Set<string>();
+          const fresh = items.filter((item) => {
+            if (ids.has(item.id)) return false;
+            ids.add(item.id);
+            const index = conversation.findIndex(
+              (msg, i) => !matched.has(i) && isSameMessage(msg, item)
+            );
+            if (index === -1) return true;
+            matched.add(index);
+            // Later pages then match it by id
+            if (item.serverId && !conversation[index].serverId) {
+              conversation[index] = { ...conversation[index], serverId: item.serverId };
+            }
+            return false;
+          });
+          if (fresh.length === 0 && conversation.every((msg, i) => msg === state.conversation[i])) {
+            return {};
+          }
+          return {
+            conversation: [...fresh, ...conversation].sort(
+              (a, b) => a.timestamp - b.timestamp
+            ),
+          };
+        }),
+      clearConversation: () => set({ conversation: [], hasMoreHistory: false }),
+      hasMoreHistory: false,
+      setHasMoreHistory: (hasMoreHistory) => set({ hasMoreHistory }),
+
+      // Images for the next message
+      pendingImages: [],
+      addPendingImages: (images) =>
+        set((state) => ({ pendingImages: [...state.pendingImages, ...images] })),
+      removePendingImage: (path) =>
+        set((state) => ({
+          pendingImages: state.pendingImages.filter((image) => image.path !== path),
+        })),
+      clearPendingImages: () => set({ pendingImages: [] }),
+
+      // Exec approvals
+      pendingApprovals: [],
+      addPendingApproval: (approval) =>
+        set((state) => ({
+          pendingApprovals: [
+            ...state.pendingApprovals.filter((item) => item.id !== approval.id),
+            approval,
+          ],
+        })),
+      removePendingApproval: (id) =>
+        set((state) => ({
+          pendingApprovals: state.pendingApprovals.filter((item) => item.id !== id),
+        })),
 
       // Audio queue
       audioQueue: [] as string[],
@@ -69,12 +291,34 @@ export const useAppStore = create<AppState>()(
         settings: state.settings,
         // Don't persist conversation or runtime state
       }),
+      // Settings stored by older versions lack newer fields
+      merge: (persisted, current) => {
+        const settings: AppSettings = {
+          ...DEFAULT_SETTINGS,
+          ...(persisted as Partial<AppState> | undefined)?.settings,
+        };
+        // Overrides added after the defaults were stored
+        if (settings.profileDefaults) {
+          settings.profileDefaults = { ...pickOverrides(DEFAULT_SETTINGS), ...settings.profileDefaults };
+        }
+        return { ...current, settings };
+      },
     }
   )
 );
 
 // Selectors for common use cases
 export const useConnectionState = () => useAppStore((state) => state.connectionState);
+export const useReconnectInfo = () => useAppStore((state) => state.reconnectInfo);
+export const useLatency = () => useAppStore((state) => state.latencyMs);
+export const useRunActivity = () => useAppStore((state) => state.runActivity);
+export const useActiveRunId = () => useAppStore((state) => state.activeRunId);
 export const useListeningState = () => useAppStore((state) => state.listeningState);
 export const useSettings = () => useAppStore((state) => state.settings);
+export const useActiveProfile = () =>
+  useAppStore((state) =>
+    state.settings.profiles.find((p) => p.id === state.settings.activeProfileId) || null
+  );
 export const useConversation = () => useAppStore((state) => state.conversation);
+export const usePendingImages = () => useAppStore((state) => state.pendingImages);
+export const usePendingApprovals = () => useAppStore((state) => state.pendingApprovals);
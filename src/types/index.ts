@@ -5,6 +5,18 @@
 // Connection states for WebSocket
 export type ConnectionState = 'disconnected' | 'connecting' | 'connected' | 'error';
 
+// Pending reconnect attempt (null when connected or no retry is planned)
+export interface ReconnectInfo {
+  attempt: number;
+  nextAttemptAt: number | null; // Epoch ms, null while waiting for the network
+  waitingForNetwork: boolean;
+}
+
+// Source of network reachability signals (NetInfo in the app, fakes in tests)
+export interface ReachabilitySource {
+  subscribe: (listener: (isReachable: boolean) => void) => () => void;
+}
+
 // Listening states for the app
 export type ListeningState = 'idle' | 'wake_word' | 'recording' | 'processing';
 
@@ -13,31 +25,39 @@ export type ListeningState = 'idle' | 'wake_word' | 'recording' | 'processing';
 // ============================================================================
 
 // Base request/response types
-export interface OpenClawRequest {
+export interface OpenClawRequest<M extends OpenClawMethod = OpenClawMethod> {
   type: 'req';
   id: string;
-  method: string;
-  params?: Record<string, unknown>;
+  method: M;
+  params?: MethodParams<M>;
 }
 
 export interface OpenClawResponse {
   type: 'res';
   id: string;
-  result?: Record<string, unknown>;
+  ok?: boolean;
+  payload?: unknown; // Protocol v3 result field
+  result?: unknown; // Older gateways
   error?: {
-    code: number;
+    code: number | string;
     message: string;
     data?: unknown;
   };
 }
 
-export interface OpenClawEvent {
+export interface OpenClawEvent<E extends OpenClawEventName = OpenClawEventName> {
   type: 'event';
-  event: string;
-  payload: Record<string, unknown>;
+  event: E;
+  payload: OpenClawEvents[E];
+  seq?: number;
 }
 
-export type OpenClawMessage = OpenClawRequest | OpenClawResponse | OpenClawEvent;
+// Any event frame, discriminated by `event`
+export type OpenClawEventFrame = {
+  [E in OpenClawEventName]: OpenClawEvent<E>;
+}[OpenClawEventName];
+
+export type OpenClawMessage = OpenClawRequest | OpenClawResponse | OpenClawEventFrame;
 
 // Connect request params
 export interface ConnectParams {
@@ -53,6 +73,53 @@ export interface ConnectParams {
     platform: string;
     mode: string;
   };
+  role: string;
+  scopes: string[];
+}
+
+// Connect result (hello)
+export interface ConnectResult {
+  protocol?: number;
+  server?: {
+    version?: string;
+    host?: string;
+  };
+  features?: {
+    methods?: string[];
+    events?: string[];
+  };
+}
+
+// Session as listed by sessions.list
+export interface SessionInfo {
+  key: string; // e.g. 'agent:main:main'
+  label?: string;
+  updatedAt?: number;
+}
+
+export interface SessionsListResult {
+  sessions: Array<SessionInfo & { displayName?: string }>;
+}
+
+// Transcript message as stored by the gateway (chat.history, chat events)
+export interface GatewayChatMessage {
+  id?: string;
+  role?: string;
+  content?: string | Array<{
+    type: string;
+    text?: string;
+    url?: string;
+    base64?: string;
+  }>;
+  timestamp?: number;
+}
+
+// Media sent along with a chat message (content is base64)
+export interface ChatAttachment {
+  type: 'audio' | 'image';
+  mimeType: string;
+  fileName?: string;
+  content: string;
 }
 
 // Chat send params
@@ -60,21 +127,128 @@ export interface ChatSendParams {
   sessionKey: string;
   message: string;
   idempotencyKey: string;
+  attachments?: ChatAttachment[];
+}
+
+export interface ChatSendResult {
+  runId?: string;
+  status?: string;
 }
 
-// Chat event payload
+// Chat abort params (no runId = abort whatever runs in the session)
+export interface ChatAbortParams {
+  sessionKey: string;
+  runId?: string;
+}
+
+export interface ChatAbortResult {
+  aborted?: boolean;
+}
+
+// Chat history params
+export interface ChatHistoryParams {
+  sessionKey: string;
+  limit?: number;
+  before?: number; // Only messages older than this timestamp
+}
+
+export interface ChatHistoryResult {
+  sessionKey?: string;
+  messages: GatewayChatMessage[];
+}
+
+// Chat event payload (streamed assistant reply)
 export interface ChatEventPayload {
-  text?: string;
+  runId?: string;
   sessionKey?: string;
-  role?: 'user' | 'assistant';
+  seq?: number;
+  state?: 'delta' | 'final' | 'aborted' | 'error';
+  message?: GatewayChatMessage;
+  errorMessage?: string;
+  // Flat format sent by older gateways
+  text?: string;
+  role?: string;
   timestamp?: number;
-  media?: Array<{
-    type: string;
-    url?: string;
-    base64?: string;
-  }>;
 }
 
+// Agent event payload (run lifecycle, tool calls, ...)
+export interface AgentEventPayload {
+  runId?: string;
+  sessionKey?: string;
+  seq?: number;
+  stream?: string; // 'lifecycle' | 'tool' | 'assistant' | ...
+  ts?: number;
+  data?: {
+    phase?: string; // lifecycle: start | end | error, tool: start | update | result
+    name?: string; // Tool name
+    toolCallId?: string;
+    isError?: boolean;
+    error?: string;
+  };
+}
+
+// Exec approval: the agent wants to run a command that needs an operator's OK
+export type ExecApprovalDecision = 'allow-once' | 'allow-always' | 'deny';
+
+export interface ExecApprovalRequestedPayload {
+  id: string;
+  request: {
+    command: string;
+    cwd?: string;
+    host?: string;
+    agentId?: string;
+    sessionKey?: string;
+  };
+  createdAtMs?: number;
+  expiresAtMs?: number;
+}
+
+// Sent when any operator (or the timeout) settled an approval
+export interface ExecApprovalResolvedPayload {
+  id: string;
+  decision?: string;
+  resolvedBy?: string;
+}
+
+export interface ExecApprovalResolveParams {
+  id: string;
+  decision: ExecApprovalDecision;
+}
+
+export interface ExecApprovalResolveResult {
+  ok?: boolean;
+}
+
+// Pong event payload (reply to our ping)
+export interface PongEventPayload {
+  ts?: number;
+}
+
+// Method registry: params and result per RPC method
+export interface OpenClawMethods {
+  connect: { params: ConnectParams; result: ConnectResult };
+  'chat.send': { params: ChatSendParams; result: ChatSendResult };
+  'chat.abort': { params: ChatAbortParams; result: ChatAbortResult };
+  'chat.history': { params: ChatHistoryParams; result: ChatHistoryResult };
+  'sessions.list': { params: Record<string, never>; result: SessionsListResult };
+  'exec.approval.resolve': { params: ExecApprovalResolveParams; result: ExecApprovalResolveResult };
+}
+
+export type OpenClawMethod = keyof OpenClawMethods;
+export type MethodParams<M extends OpenClawMethod> = OpenClawMethods[M]['params'];
+export type MethodResult<M extends OpenClawMethod> = OpenClawMethods[M]['result'];
+
+// Event registry: payload per event name
+export interface OpenClawEvents {
+  chat: ChatEventPayload;
+  agent: AgentEventPayload;
+  pong: PongEventPayload;
+  'exec.approval.requested': ExecApprovalRequestedPayload;
+  'exec.approval.resolved': ExecApprovalResolvedPayload;
+}
+
+export type OpenClawEventName = keyof OpenClawEvents;
+
 // ============================================================================
 // Legacy types (for internal use)
 // ============================================================================
@@ -100,16 +274,67 @@ export interface OutgoingMessage {
 export type TTSProvider = 'device' | 'custom' | 'elevenlabs';
 
 // STT Provider options
-export type STTProvider = 'vosk' | 'device' | 'custom';
+// (custom: any Whisper server, openai: the /v1/audio/transcriptions API)
+export type STTProvider = 'vosk' | 'device' | 'custom' | 'openai';
+
+// Server speaking the OpenAI transcription API (faster-whisper-server, LocalAI, whisper.cpp)
+export interface OpenAISTTConfig {
+  url: string;
+  apiKey: string;
+  model: string;
+  language: string;
+  prompt: string;
+}
+
+// What a recording is sent as: the transcript only (off), the recorded
+// clip for the gateway to transcribe, or the clip plus the local transcript
+export type VoiceNoteMode = 'off' | 'audio' | 'audio_transcript';
+
+// Done on the spot when its wake word is heard, nothing is recorded
+export type WakeWordAction = 'abort' | 'repeat';
+
+// Where the utterance after an extra wake word goes
+export type WakeWordTarget =
+  | { type: 'session'; sessionKey: string } // Sent to this session of the current gateway
+  | { type: 'profile'; profileId: string } // Switches to the profile first
+  | { type: 'action'; action: WakeWordAction };
+
+// Extra wake word, e.g. "jarvis" for the home automation agent
+export interface WakeWordBinding {
+  word: string;
+  target: WakeWordTarget;
+}
+
+// Voice choices a profile can override
+export interface ProfileOverrides {
+  wakeWord: string;
+  sttProvider: STTProvider;
+  ttsProvider: TTSProvider;
+  voiceNotes: VoiceNoteMode;
+}
+
+// Named gateway connection (e.g. home, lab, staging)
+export interface GatewayProfile extends Partial<ProfileOverrides> {
+  id: string;
+  name: string;
+  gatewayUrl: string;
+  gatewayToken: string;
+  sessionKey: string;
+}
 
 // App settings
 export interface AppSettings {
   gatewayUrl: string;
   gatewayToken: string;
-  wakeWord: string; // Custom wake word (default: "computer")
+  sessionKey: string; // Active gateway session, chat events from other sessions are ignored
+  wakeWord: string; // Custom wake word (default: "computer"), talks to the active session
+  wakeWordBindings: WakeWordBinding[]; // Extra wake words with their own target
+  speakThrough: boolean; // Command may follow the wake word in the same breath
   autoPlayResponses: boolean;
   keepScreenOn: boolean;
   hapticFeedback: boolean;
+  progressCues: boolean; // Speak a short cue when a reply takes long
+  messageNotifications: boolean; // Post assistant messages as notifications while in the background
   voiceActivationSensitivity: number; // 0.0 - 1.0
   // Vosk model settings
   voskModelPath: string; // Path to downloaded Vosk model
@@ -117,23 +342,136 @@ export interface AppSettings {
   // STT settings
   sttProvider: STTProvider;
   customSTTUrl: string;
+  openAISTTUrl: string; // Server base URL, /v1/audio/transcriptions is added
+  openAISTTApiKey: string; // Sent as Bearer token, empty = none
+  openAISTTModel: string;
+  openAISTTLanguage: string; // ISO-639-1, e.g. 'en', empty = detected by the server
+  openAISTTPrompt: string; // Spelling hints, e.g. names the agent should get right
+  preRollMs: number; // Audio from before the wake word handoff added to custom STT recordings, 0 = off
+  speechLevelDb: number; // Recordings count louder audio as speech and stop after the silence that follows
   // TTS settings
   ttsProvider: TTSProvider;
   customTTSUrl: string;
   elevenLabsApiKey: string;
   elevenLabsVoiceId: string;
+  // Voice notes
+  voiceNotes: VoiceNoteMode;
+  // Profiles - the active profile's values are copied into the fields above
+  profiles: GatewayProfile[];
+  activeProfileId: string | null;
+  profileDefaults?: ProfileOverrides; // Own choices, used by profiles without overrides
 }
 
 // Wake word is now a simple string - Vosk can detect any word via grammar!
 
+// Delivery status of a user message (absent = sent),
+// or 'aborted' for a reply that was stopped before it finished
+export type MessageStatus = 'pending' | 'sent' | 'failed' | 'aborted';
+
+// Spoken commands handled by the app instead of being sent to the agent
+export type VoiceCommand =
+  | { type: 'abort' }
+  | { type: 'switchProfile'; name: string };
+
+// One step of a running agent turn, e.g. a tool call
+export interface ActivityStep {
+  id: string;
+  label: string; // e.g. "Searching the web"
+  status: 'running' | 'done' | 'error';
+  startedAt: number;
+}
+
+// What the agent is doing in the current run (shown below the conversation)
+export interface RunActivity {
+  runId: string;
+  startedAt: number;
+  steps: ActivityStep[];
+}
+
+// Command waiting for the user's approval (shown as a card, asked by voice)
+export interface PendingApproval {
+  id: string;
+  command: string;
+  cwd?: string;
+  host?: string;
+  agentId?: string;
+  receivedAt: number;
+  expiresAt: number; // Denied when nobody answers by then
+}
+
 // Conversation history item
 export interface ConversationItem {
   id: string;
   type: 'user' | 'assistant';
   content: string;
   audioUrl?: string;
+  audioDurationMs?: number; // Length of a voice note
+  imageUrls?: string[]; // Local files of attached images
   timestamp: number;
   isPlaying?: boolean;
+  status?: MessageStatus;
+  serverId?: string; // Id of the message on the gateway (history only)
+  idempotencyKey?: string; // Key our own message was sent with
+}
+
+// One page of chat history loaded from the gateway
+export interface HistoryPage {
+  sessionKey: string;
+  messages: ConversationItem[]; // Oldest first
+  hasMore: boolean;
+}
+
+// Attachment of a queued message, kept on disk until it is sent
+export interface OutboxAttachment {
+  type: ChatAttachment['type'];
+  mimeType: string;
+  fileName: string;
+  path: string;
+}
+
+// Outgoing chat message waiting in the persistent outbox
+export interface OutboxItem {
+  id: string; // Same id as the ConversationItem it belongs to
+  content: string;
+  attachments?: OutboxAttachment[];
+  sessionKey: string;
+  gatewayUrl?: string; // Gateway it was written for, only replayed there
+  idempotencyKey: string; // Reused on every replay so the gateway can de-duplicate
+  timestamp: number;
+  attempts: number;
+  lastError?: string;
+  rejected?: boolean; // Refused by the gateway or unsendable, skipped until retried
+}
+
+// Message notification tapped by the user
+export interface NotificationOpen {
+  messageId: string;
+  action: 'open' | 'reply'; // 'reply' = "Reply by voice", start recording right away
+}
+
+// Protocol frame captured for the diagnostics screen
+export interface DiagnosticFrame {
+  id: number;
+  at: number;
+  direction: 'in' | 'out';
+  summary: string; // e.g. "req chat.send", "event chat (delta)"
+  raw: string; // Redacted and truncated
+}
+
+// Connection lifecycle entry for the diagnostics screen
+export interface DiagnosticEvent {
+  at: number;
+  kind: 'connect' | 'open' | 'close' | 'reconnect' | 'error';
+  detail: string;
+}
+
+// Microphone handoff from wake word detection to STT, for the diagnostics screen
+export interface AudioHandoff {
+  at: number;
+  mode: 'continuous' | 'restart'; // Microphone kept recording, or stopped and started again
+  gapMs: number; // Audio no recognizer heard
+  replayedMs?: number; // Audio from before the handoff the next recognizer heard
+  detail?: string; // Handoffs outside Vosk, e.g. "device STT"
 }
 
 // Store state
@@ -141,6 +479,14 @@ export interface AppState {
   // Connection
   connectionState: ConnectionState;
   setConnectionState: (state: ConnectionState) => void;
+  reconnectInfo: ReconnectInfo | null;
+  setReconnectInfo: (info: ReconnectInfo | null) => void;
+  latencyMs: number | null; // Last ping round trip, null while unknown
+  setLatency: (latencyMs: number | null) => void;
+  activeRunId: string | null; // Agent run currently answering in the active session
+  setActiveRunId: (runId: string | null) => void;
+  runActivity: RunActivity | null;
+  setRunActivity: (activity: RunActivity | null) => void;
   
   // Listening
   listeningState: ListeningState;
@@ -149,12 +495,31 @@ export interface AppState {
   // Settings
   settings: AppSettings;
   updateSettings: (settings: Partial<AppSettings>) => void;
+  saveProfile: (profile: GatewayProfile) => void;
+  deleteProfile: (id: string) => void;
+  switchProfile: (id: string) => void;
   
   // Conversation
   conversation: ConversationItem[];
   addMessage: (item: ConversationItem) => void;
   updateMessage: (id: string, content: string) => void;
+  setMessageStatus: (id: string, status: MessageStatus) => void;
+  removeMessage: (id: string) => void;
+  mergeHistory: (items: ConversationItem[]) => void;
   clearConversation: () => void;
+  hasMoreHistory: boolean;
+  setHasMoreHistory: (hasMore: boolean) => void;
+
+  // Images picked for the next message
+  pendingImages: OutboxAttachment[];
+  addPendingImages: (images: OutboxAttachment[]) => void;
+  removePendingImage: (path: string) => void;
+  clearPendingImages: () => void;
+
+  // Exec approvals waiting for an answer, oldest first
+  pendingApprovals: PendingApproval[];
+  addPendingApproval: (approval: PendingApproval) => void;
+  removePendingApproval: (id: string) => void;
   
   // Audio playback queue
   audioQueue: string[];
@@ -171,4 +536,5 @@ export interface PlatformFeatures {
   supportsBackgroundWakeWord: boolean;
   supportsScreenOffOperation: boolean;
   supportsAutoStart: boolean;
+  supportsMessageNotifications: boolean;
 }